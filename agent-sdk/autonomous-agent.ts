@@ -4,23 +4,25 @@
  * This agent automatically:
  * 1. Checks if entering is profitable (expected value calculation)
  * 2. Generates unique AI art
- * 3. Pays entry fee via x402/USDC
- * 4. Submits to the competition
+ * 3. Submits to the competition, paying the x402 challenge
+ *    (HTTP 402 -> signed USDC authorization -> retry with X-PAYMENT),
+ *    or through PrizePool.submitEntry when the arena runs in contract mode
  * 
  * Run: npx ts-node autonomous-agent.ts
  */
 
-import { createWalletClient, createPublicClient, http, parseUnits, formatUnits } from 'viem';
+import { createWalletClient, createPublicClient, http, formatUnits, toHex } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { base } from 'viem/chains';
 import OpenAI from 'openai';
+import { PrizePoolContract } from './contracts/prize-pool';
 
 // Configuration
 const CONFIG = {
   ARENA_API: process.env.ARENA_API || 'https://ai-art-arena-backend.up.railway.app',
   PRIVATE_KEY: process.env.AGENT_PRIVATE_KEY as `0x${string}`,
   OPENAI_KEY: process.env.OPENAI_API_KEY || '',
-  ENTRY_FEE: '0.05', // USDC
+  PRIZE_POOL_ADDRESS: process.env.PRIZE_POOL_ADDRESS as `0x${string}` | undefined,
   MIN_EXPECTED_VALUE: -0.02, // Enter even with slightly negative EV for marketing
   MAX_ENTRIES_ALWAYS_ENTER: 3, // Always enter if fewer than this many entries
 };
@@ -29,19 +31,25 @@ const CONFIG = {
 const USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
 const USDC_ABI = [
   {
-    name: 'transfer',
+    name: 'balanceOf',
     type: 'function',
-    inputs: [
-      { name: 'to', type: 'address' },
-      { name: 'amount', type: 'uint256' }
-    ],
-    outputs: [{ type: 'bool' }]
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ type: 'uint256' }]
   },
   {
-    name: 'balanceOf',
+    name: 'allowance',
     type: 'function',
-    inputs: [{ name: 'account', type: 'address' }],
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }, { name: 'spender', type: 'address' }],
     outputs: [{ type: 'uint256' }]
+  },
+  {
+    name: 'approve',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'spender', type: 'address' }, { name: 'amount', type: 'uint256' }],
+    outputs: [{ type: 'bool' }]
   }
 ] as const;
 
@@ -65,10 +73,50 @@ interface GameData {
   entryCount: number;
   timeRemaining: number;
   finalized: boolean;
+  // 'contract': enter through PrizePool.submitEntry instead of paying the API
+  entryMode?: 'x402' | 'contract';
+  prizePoolAddress?: `0x${string}` | null;
+  // Terms of this game
+  config: {
+    entryFee: string;
+    currency: string;
+    platformFeeBps: number;
+    durationMs: number;
+    maxEntries: number | null;
+  };
+}
+
+// EIP-3009 typed data signed for x402 "exact" payments
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' }
+  ]
+} as const;
+
+const X402_CHAIN_IDS: Record<string, number> = {
+  'base': 8453,
+  'base-sepolia': 84532
+};
+
+// One entry of the `accepts` array in a 402 response
+interface PaymentRequirements {
+  scheme: 'exact';
+  network: 'base' | 'base-sepolia';
+  maxAmountRequired: string;
+  payTo: `0x${string}`;
+  maxTimeoutSeconds: number;
+  asset: `0x${string}`;
+  extra: { name: string; version: string };
 }
 
 interface PaymentIntent {
   paymentIntent: {
+    id: string;
     amount: string;
     recipientAddress: string;
     chainId: number;
@@ -79,6 +127,7 @@ class AutonomousArtAgent {
   private account;
   private walletClient;
   private publicClient;
+  private prizePool: PrizePoolContract<typeof base> | null = null;
   private openai: OpenAI | null = null;
 
   constructor() {
@@ -99,6 +148,10 @@ class AutonomousArtAgent {
       transport: http()
     });
 
+    if (CONFIG.PRIZE_POOL_ADDRESS) {
+      this.prizePool = new PrizePoolContract(CONFIG.PRIZE_POOL_ADDRESS, this.publicClient, this.walletClient);
+    }
+
     if (CONFIG.OPENAI_KEY) {
       this.openai = new OpenAI({ apiKey: CONFIG.OPENAI_KEY });
     }
@@ -121,8 +174,26 @@ class AutonomousArtAgent {
     return formatUnits(balance, 6);
   }
 
-  calculateExpectedValue(game: GameData): number {
-    const entryFee = parseFloat(CONFIG.ENTRY_FEE);
+  /**
+   * Use the PrizePool the arena reports when it runs in contract mode
+   */
+  usePrizePoolOf(game: GameData): void {
+    if (!this.prizePool && game.entryMode === 'contract' && game.prizePoolAddress) {
+      this.prizePool = new PrizePoolContract(game.prizePoolAddress, this.publicClient, this.walletClient);
+    }
+  }
+
+  /**
+   * Entry fee in USDC, read from the PrizePool contract when its address is known
+   */
+  async getEntryFee(game: GameData): Promise<string> {
+    if (!this.prizePool) {
+      return game.config.entryFee;
+    }
+    return formatUnits(await this.prizePool.entryFee(), 6);
+  }
+
+  calculateExpectedValue(game: GameData, entryFee: number): number {
     const prizePool = parseFloat(game.prizePool);
     const entries = game.entryCount;
 
@@ -130,12 +201,13 @@ class AutonomousArtAgent {
     const winProbability = entries === 0 ? 1.0 : 1 / (entries + 1);
     
     // Expected value = (prize * win_probability * payout_rate) - entry_fee
-    const expectedValue = (prizePool * winProbability * 0.9) - entryFee;
+    const payoutRate = 1 - game.config.platformFeeBps / 10000;
+    const expectedValue = (prizePool * winProbability * payoutRate) - entryFee;
     
     return expectedValue;
   }
 
-  shouldEnter(game: GameData, balance: string): { decision: boolean; reason: string } {
+  shouldEnter(game: GameData, balance: string, entryFee: string): { decision: boolean; reason: string } {
     // Check if game is active
     if (game.finalized) {
       return { decision: false, reason: 'Game already finalized' };
@@ -145,8 +217,12 @@ class AutonomousArtAgent {
       return { decision: false, reason: 'Game has ended' };
     }
 
+    if (game.config.maxEntries !== null && game.entryCount >= game.config.maxEntries) {
+      return { decision: false, reason: `Game is full (${game.config.maxEntries} entries)` };
+    }
+
     // Check balance
-    if (parseFloat(balance) < parseFloat(CONFIG.ENTRY_FEE)) {
+    if (parseFloat(balance) < parseFloat(entryFee)) {
       return { decision: false, reason: `Insufficient USDC balance: ${balance}` };
     }
 
@@ -156,7 +232,7 @@ class AutonomousArtAgent {
     }
 
     // Calculate expected value
-    const ev = this.calculateExpectedValue(game);
+    const ev = this.calculateExpectedValue(game, parseFloat(entryFee));
     
     if (ev >= CONFIG.MIN_EXPECTED_VALUE) {
       return { decision: true, reason: `Positive EV: $${ev.toFixed(4)}` };
@@ -202,41 +278,132 @@ class AutonomousArtAgent {
     return response.json();
   }
 
-  async payEntryFee(recipientAddress: string): Promise<string> {
-    const amount = parseUnits(CONFIG.ENTRY_FEE, 6);
+  /**
+   * Sign an x402 payment payload (USDC transferWithAuthorization)
+   */
+  async createPaymentHeader(requirements: PaymentRequirements): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    const authorization = {
+      from: this.account.address,
+      to: requirements.payTo,
+      value: requirements.maxAmountRequired,
+      validAfter: (now - 60).toString(),
+      validBefore: (now + requirements.maxTimeoutSeconds).toString(),
+      nonce: toHex(crypto.getRandomValues(new Uint8Array(32)))
+    };
+
+    console.log(`💰 Signing ${formatUnits(BigInt(authorization.value), 6)} USDC payment to ${authorization.to}`);
+
+    const signature = await this.walletClient.signTypedData({
+      account: this.account,
+      domain: {
+        name: requirements.extra.name,
+        version: requirements.extra.version,
+        chainId: X402_CHAIN_IDS[requirements.network],
+        verifyingContract: requirements.asset
+      },
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message: {
+        ...authorization,
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore)
+      }
+    });
 
-    console.log(`💰 Paying ${CONFIG.ENTRY_FEE} USDC to ${recipientAddress}`);
+    const payload = {
+      x402Version: 1,
+      scheme: requirements.scheme,
+      network: requirements.network,
+      payload: { signature, authorization }
+    };
 
-    const hash = await this.walletClient.writeContract({
+    return Buffer.from(JSON.stringify(payload)).toString('base64');
+  }
+
+  /**
+   * Contract mode: approve the entry fee, enter with PrizePool.submitEntry and
+   * register the entry (with its title) with the arena
+   */
+  async submitEntryOnChain(imageUrl: string, title: string): Promise<any> {
+    const prizePool = this.prizePool!;
+    const fee = await prizePool.entryFee();
+
+    const allowance = await this.publicClient.readContract({
       address: USDC_ADDRESS,
       abi: USDC_ABI,
-      functionName: 'transfer',
-      args: [recipientAddress as `0x${string}`, amount]
+      functionName: 'allowance',
+      args: [this.account.address, prizePool.address]
     });
+    if (allowance < fee) {
+      console.log(`💰 Approving ${formatUnits(fee, 6)} USDC for PrizePool ${prizePool.address}`);
+      const approveHash = await this.walletClient.writeContract({
+        address: USDC_ADDRESS,
+        abi: USDC_ABI,
+        functionName: 'approve',
+        args: [prizePool.address, fee]
+      });
+      await this.publicClient.waitForTransactionReceipt({ hash: approveHash });
+    }
 
-    console.log(`   Transaction: ${hash}`);
-
-    // Wait for confirmation
-    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
-    
+    const entryTxHash = await prizePool.submitEntry(imageUrl);
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash: entryTxHash });
     if (receipt.status !== 'success') {
-      throw new Error('Payment transaction failed');
+      throw new Error(`submitEntry transaction ${entryTxHash} reverted`);
     }
+    console.log(`   Entry transaction: ${entryTxHash}`);
 
-    return hash;
+    const response = await fetch(`${CONFIG.ARENA_API}/api/submit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ imageUrl, title, walletAddress: this.account.address, entryTxHash })
+    });
+    return response.json();
   }
 
-  async submitEntry(imageUrl: string, title: string, txHash: string): Promise<any> {
-    const response = await fetch(`${CONFIG.ARENA_API}/api/submit`, {
+  /**
+   * Submit an entry; an HTTP 402 answer is paid and the request retried once
+   */
+  async submitEntry(imageUrl: string, title: string, intentId: string): Promise<any> {
+    const body = JSON.stringify({
+      imageUrl,
+      title,
+      walletAddress: this.account.address,
+      intentId
+    });
+
+    const challenge = await fetch(`${CONFIG.ARENA_API}/api/submit`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        imageUrl,
-        title,
-        walletAddress: this.account.address,
-        paymentTxHash: txHash
-      })
+      body
     });
+
+    if (challenge.status !== 402) {
+      return challenge.json();
+    }
+
+    const { accepts } = await challenge.json() as { accepts: PaymentRequirements[] };
+    const requirements = accepts.find(r => r.scheme === 'exact');
+    if (!requirements) {
+      throw new Error('No supported x402 payment scheme offered');
+    }
+
+    const response = await fetch(`${CONFIG.ARENA_API}/api/submit`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-PAYMENT': await this.createPaymentHeader(requirements)
+      },
+      body
+    });
+
+    const settlement = response.headers.get('X-PAYMENT-RESPONSE');
+    if (settlement) {
+      const { transaction } = JSON.parse(Buffer.from(settlement, 'base64').toString('utf8'));
+      console.log(`   Settlement: ${transaction}`);
+    }
+
     return response.json();
   }
 
@@ -252,13 +419,17 @@ class AutonomousArtAgent {
 
       // 2. Check game status
       const game = await this.checkGame();
+      this.usePrizePoolOf(game);
+
+      const entryFee = await this.getEntryFee(game);
+      console.log(`🎟️ Entry Fee: $${entryFee}`);
       console.log(`\n📊 Game #${game.gameId}`);
       console.log(`   Prize Pool: $${game.prizePool}`);
       console.log(`   Entries: ${game.entryCount}`);
       console.log(`   Time Left: ${Math.floor(game.timeRemaining / 3600000)}h ${Math.floor((game.timeRemaining % 3600000) / 60000)}m`);
 
       // 3. Make decision
-      const { decision, reason } = this.shouldEnter(game, balance);
+      const { decision, reason } = this.shouldEnter(game, balance, entryFee);
       console.log(`\n🧠 Decision: ${decision ? '✅ ENTER' : '❌ SKIP'}`);
       console.log(`   Reason: ${reason}`);
 
@@ -272,15 +443,11 @@ class AutonomousArtAgent {
       const { imageUrl, title } = await this.generateArt();
       console.log(`   Title: "${title}"`);
 
-      // 5. Get payment intent
-      const payment = await this.getPaymentIntent();
-      
-      // 6. Pay entry fee
-      const txHash = await this.payEntryFee(payment.paymentIntent.recipientAddress);
-
-      // 7. Submit entry
+      // 5-6. Submit entry: on-chain in contract mode, otherwise with a payment intent and the x402 challenge
       console.log('\n📤 Submitting entry...');
-      const result = await this.submitEntry(imageUrl, title, txHash);
+      const result = game.entryMode === 'contract'
+        ? await this.submitEntryOnChain(imageUrl, title)
+        : await this.submitEntry(imageUrl, title, (await this.getPaymentIntent()).paymentIntent.id);
 
       if (result.success) {
         console.log('\n🎉 SUCCESS!');
@@ -1,28 +1,73 @@
-import Fastify from 'fastify';
+import Fastify, { FastifyReply } from 'fastify';
 import cors from '@fastify/cors';
 import { z } from 'zod';
-import AIJudgeService from './services/ai-judge';
-import X402PaymentService from './services/x402-payment';
-import { setEntriesStorage, startCronScheduler, manualFinalize } from './services/game-automation';
-import * as db from './services/database';
+import { JUDGING_MODES } from './services/ai-judge';
+import { createJudgeEnsemble, EnsembleResult, JudgeEnsemble } from './services/judge-ensemble';
+import { RubricSchema } from './services/rubric';
+import { acceptsEntries, entryFeeUnits, GameConfigSchema, type GameConfig } from './services/game-config';
+import { TIE_BREAK_POLICY } from './services/tie-break';
+import X402PaymentService, { PaymentIntent } from './services/x402-payment';
+import {
+  setGameRepository,
+  startCronScheduler,
+  startChainIndexer,
+  runChainIndexer,
+  runReconciliation,
+  CHAIN_INDEXER_NAME,
+  verifyPrizePoolContract,
+  gameConfigConflict,
+  isContractMode,
+  getPrizePool,
+  getAdminClients,
+  manualFinalize,
+  finalizeLatestGameWith,
+  joinJudgeScores,
+  judgeAndRecord,
+  approveJudging,
+  rejudgeGame,
+  getPayoutService,
+  retryOpenPayouts
+} from './services/game-automation';
+import { verifyEntryTransaction } from './services/contract-entries';
+import { CRON_LEADER_LOCK, INSTANCE_ID } from './services/locks';
+import { formatUnits, isAddressEqual, parseUnits } from 'viem';
+import {
+  createGameRepository,
+  getActiveGame,
+  GameRecord,
+  GameRepository,
+  GameSettingsUpdate,
+  PaymentAlreadyConsumedError,
+  EntryRejectedError,
+  ConsumedPaymentRecord,
+  PaymentRef,
+  PayoutStatus,
+  WHOLE_TRANSACTION_LOG_INDEX
+} from './services/game-repository';
+import {
+  createFacilitator,
+  decodePaymentHeader,
+  encodePaymentResponseHeader,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  X402_VERSION
+} from './services/x402-facilitator';
 
 // Environment
 const PORT = parseInt(process.env.PORT || '3001');
-const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || '';
 const PRIZE_POOL_ADDRESS = process.env.PRIZE_POOL_ADDRESS || '0x0000000000000000000000000000000000000000';
 const IS_TESTNET = process.env.NODE_ENV !== 'production';
+// How long an entry slot is held while an x402 payment settles
+const ENTRY_RESERVATION_TTL_MS = 5 * 60 * 1000;
 
 // Services - initialized lazily to prevent startup crashes
-let aiJudge: AIJudgeService | null = null;
+let aiJudge: JudgeEnsemble | null = null;
 let paymentService: X402PaymentService | null = null;
 
 try {
-  if (ANTHROPIC_API_KEY) {
-    aiJudge = new AIJudgeService(ANTHROPIC_API_KEY);
-    console.log('✅ AI Judge service initialized');
-  } else {
-    console.log('⚠️ ANTHROPIC_API_KEY not set - AI judging disabled');
-  }
+  aiJudge = createJudgeEnsemble();
+  console.log(`✅ AI Judge service initialized (${aiJudge.description})`);
 } catch (e) {
   console.log('⚠️ AI Judge service failed to initialize:', e);
 }
@@ -34,38 +79,34 @@ try {
   console.log('⚠️ Payment service failed to initialize:', e);
 }
 
-// In-memory storage (replace with DB in production)
-interface Submission {
-  id: string;
-  gameId: number;
-  imageUrl: string;
-  title: string;
-  playerAddress: string;
-  timestamp: number;
-  paymentTxHash?: string;
-}
-
-interface Game {
-  id: number;
-  startTime: number;
-  endTime: number;
-  submissions: Submission[];
-  finalized: boolean;
-  winnerId?: string;
-}
-
-let currentGameId = 0;
-const games: Map<number, Game> = new Map();
+// x402 facilitator (verifies and settles X-PAYMENT headers)
+const facilitator = createFacilitator(getAdminClients, paymentService?.verifyPayment.bind(paymentService));
+console.log(`✅ x402 facilitator: ${facilitator.name}`);
 
-// Entries storage for automation (maps gameId -> entries array)
-const entriesForAutomation = new Map<number, any[]>();
+// Game storage - selected once at startup
+let repo: GameRepository;
 
 // Validation schemas
 const SubmitSchema = z.object({
-  imageUrl: z.string().url(),
+  imageUrl: z.string().url().refine(url => url.startsWith('https://'), 'Image URL must use https'),
   title: z.string().min(1).max(100),
   walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
-  paymentTxHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/)
+  paymentTxHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/).optional(),
+  // Contract mode: the PrizePool.submitEntry transaction
+  entryTxHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/).optional(),
+  intentId: z.string().min(1).max(64).optional()
+});
+
+const GameSettingsSchema = z.object({
+  judgingMode: z.enum(JUDGING_MODES).optional(),
+  theme: z.string().trim().min(1).max(500).nullable().optional(),
+  rubric: RubricSchema.optional(),
+  config: GameConfigSchema.optional()
+});
+
+// duration (ms) overrides the game config's for this start only, within the same bounds
+const StartGameSchema = GameSettingsSchema.extend({
+  duration: GameConfigSchema.shape.durationMs
 });
 
 const app = Fastify({ logger: true });
@@ -74,455 +115,774 @@ const app = Fastify({ logger: true });
 app.register(cors, {
   origin: true,
   methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-PAYMENT'],
+  exposedHeaders: ['X-PAYMENT-RESPONSE'],
   credentials: true
 });
 
+// Error body for a payment that already funded an entry
+function paymentAlreadyUsed(consumed: ConsumedPaymentRecord) {
+  return {
+    error: 'Payment already used',
+    details: `Transaction ${consumed.txHash} already funded an entry in game #${consumed.gameId}`
+  };
+}
+
+// Error reply for an entry the game turned away
+function entryRejected(reply: FastifyReply, error: EntryRejectedError) {
+  return reply.status(error.reason === 'pending' ? 409 : 400).send({ error: error.message });
+}
+
+// HTTP 402 body listing accepted payment methods (x402)
+function paymentRequired(requirements: PaymentRequirements, error: string) {
+  return {
+    x402Version: X402_VERSION,
+    error,
+    accepts: [requirements]
+  };
+}
+
+/**
+ * Game settings to store, with a config change merged into the game's config.
+ * The config is fixed once the game has entries and must suit the entry mode.
+ */
+function resolveGameSettings(
+  game: GameRecord,
+  settings: z.infer<typeof GameSettingsSchema>
+): { valid: true; settings: GameSettingsUpdate } | { valid: false; error: string } {
+  if (!settings.config) {
+    return { valid: true, settings: { ...settings, config: undefined } };
+  }
+
+  if (game.entryCount > 0) {
+    return { valid: false, error: 'Game config cannot change after the first entry' };
+  }
+
+  const config: GameConfig = { ...game.config, ...settings.config };
+  const conflict = gameConfigConflict(config);
+  if (conflict) {
+    return { valid: false, error: `Invalid game config: ${conflict}` };
+  }
+  return { valid: true, settings: { ...settings, config } };
+}
+
+/**
+ * Store a paid entry and start the game timer on the first one
+ * (durationMs: how long the game runs from now, default the game's config)
+ */
+async function recordEntry(
+  reply: FastifyReply,
+  gameData: GameRecord,
+  submission: { imageUrl: string; title: string; walletAddress: string },
+  payment: PaymentRef,
+  paymentIntent: PaymentIntent | null,
+  durationMs?: number
+) {
+  const { gameId } = gameData;
+  const { imageUrl, title, walletAddress } = submission;
+
+  // Each transfer can fund only one entry
+  const consumed = await repo.findConsumedPayment(payment.txHash, payment.logIndex);
+  if (consumed) {
+    return reply.status(409).send(paymentAlreadyUsed(consumed));
+  }
+
+  let entry: { id: number };
+  try {
+    entry = await repo.addEntry(gameId, imageUrl, title, walletAddress, payment);
+  } catch (e) {
+    await repo.releaseEntryReservation(gameId, walletAddress);
+    // Lost a race with a concurrent submission (same wallet, same payment or the last slot)
+    if (e instanceof EntryRejectedError) {
+      return entryRejected(reply, e);
+    }
+    if (e instanceof PaymentAlreadyConsumedError) {
+      return reply.status(409).send(paymentAlreadyUsed(e.consumed));
+    }
+    throw e;
+  }
+
+  if (paymentIntent && !(await repo.markPaymentIntentPaid(paymentIntent.id, payment.txHash, entry.id))) {
+    console.log(`⚠️ Payment intent ${paymentIntent.id} could not be marked paid (expired during submission)`);
+  }
+
+  // If this is the first entry, start the game timer!
+  const entries = await repo.getEntriesForGame(gameId);
+  const isFirstEntry = entries.length === 1 && !gameData.started;
+  if (isFirstEntry) {
+    const { endTime } = await repo.startGameTimer(gameId, durationMs);
+    console.log(`🎯 First entry received! Game #${gameId} ends at ${new Date(endTime).toISOString()}`);
+  }
+
+  return {
+    success: true,
+    submission: {
+      id: entry.id,
+      title: title,
+      position: entries.length
+    },
+    paymentIntentId: paymentIntent?.id,
+    gameStarted: isFirstEntry
+  };
+}
+
 // ============ Routes ============
 
 // Health check
 app.get('/health', async () => {
-  return { status: 'ok', gameId: currentGameId };
+  return { status: 'ok', gameId: await repo.getLatestGameId() };
 });
 
 // Get current game
 app.get('/api/game', async () => {
-  // Try database first, fallback to in-memory
-  try {
-    if (process.env.DATABASE_URL) {
-      // Always get the latest non-finalized game, or create new one
-      const latestGameId = await db.getLatestGameId();
-      let gameData = await db.getOrCreateGame(latestGameId);
-      
-      // If latest game is finalized, create a new one
-      if (gameData.finalized) {
-        const newGameId = await db.createNextGame();
-        gameData = await db.getOrCreateGame(newGameId);
-      }
-      
-      currentGameId = gameData.gameId; // Update global state
-      const entries = await db.getEntriesForGame(gameData.gameId);
-      
-      // Calculate time remaining (0 if not started yet)
-      const timeRemaining = gameData.started && gameData.endTime > 0 
-        ? Math.max(0, gameData.endTime - Date.now())
-        : 0;
-      
-      return {
-        gameId: gameData.gameId,
-        startTime: gameData.startTime,
-        endTime: gameData.endTime,
-        entryCount: entries.length,
-        prizePool: (entries.length * 0.05).toFixed(2), // Calculate from entries
-        timeRemaining,
-        finalized: gameData.finalized,
-        started: gameData.started,
-        status: gameData.finalized 
-          ? 'finalized' 
-          : gameData.started 
-            ? (timeRemaining > 0 ? 'active' : 'ended') 
-            : 'waiting'
-      };
-    }
-  } catch (e) {
-    console.log('Database not available, using in-memory');
-  }
+  // Always get the latest non-finalized game, or create new one
+  const gameData = await getActiveGame(repo);
+  const entries = await repo.getEntriesForGame(gameData.gameId);
 
-  const game = games.get(currentGameId);
-  if (!game) {
-    return { error: 'No active game', gameId: null };
-  }
+  // Calculate time remaining (0 if not started yet)
+  const timeRemaining = gameData.started && gameData.endTime > 0
+    ? Math.max(0, gameData.endTime - Date.now())
+    : 0;
 
   return {
-    gameId: game.id,
-    startTime: game.startTime,
-    endTime: game.endTime,
-    entryCount: game.submissions.length,
-    prizePool: (game.submissions.length * 0.05).toFixed(2),
-    timeRemaining: Math.max(0, game.endTime - Date.now()),
-    finalized: game.finalized,
-    started: true,
-    status: game.finalized ? 'finalized' : 'active'
+    gameId: gameData.gameId,
+    startTime: gameData.startTime,
+    endTime: gameData.endTime,
+    entryCount: entries.length,
+    prizePool: formatUnits(parseUnits(gameData.prizePool, 6), 6),
+    // Entry fee, fee split, duration and entry limit of this game
+    config: gameData.config,
+    timeRemaining,
+    finalized: gameData.finalized,
+    started: gameData.started,
+    judgingMode: gameData.judgingMode,
+    theme: gameData.theme,
+    rubric: gameData.rubric,
+    tieBreakPolicy: TIE_BREAK_POLICY,
+    // How players enter: x402 payment to the API, or PrizePool.submitEntry
+    entryMode: isContractMode() ? 'contract' : 'x402',
+    prizePoolAddress: isContractMode() ? PRIZE_POOL_ADDRESS : null,
+    status: gameData.finalized
+      ? 'finalized'
+      : gameData.started
+        ? (timeRemaining > 0 ? 'active' : 'ended')
+        : 'waiting'
   };
 });
 
 // Get payment intent for entry
 app.post('/api/pay', async (request, reply) => {
   const { walletAddress } = request.body as { walletAddress: string };
-  
-  const game = games.get(currentGameId);
-  if (!game || game.finalized) {
-    return reply.status(400).send({ error: 'No active game' });
+
+  // Contract mode takes the entry fee in PrizePool.submitEntry
+  if (isContractMode()) {
+    return reply.status(400).send({ error: 'Entries are paid through the PrizePool contract (see prizePoolAddress in /api/game)' });
   }
-  
+
+  const game = await getActiveGame(repo);
+
   // Only check endTime if game has started (endTime > 0)
-  if (game.endTime > 0 && Date.now() > game.endTime) {
+  if (game.started && game.endTime > 0 && Date.now() > game.endTime) {
     return reply.status(400).send({ error: 'Game has ended, wait for next round' });
   }
 
   // Check if already entered
-  const alreadyEntered = game.submissions.some(
-    s => s.playerAddress.toLowerCase() === walletAddress.toLowerCase()
-  );
-  
-  if (alreadyEntered) {
+  if (await repo.hasPlayerEntered(game.gameId, walletAddress)) {
     return reply.status(400).send({ error: 'Already entered this game' });
   }
 
+  if (!acceptsEntries(game.config, game.entryCount)) {
+    return reply.status(400).send({ error: `Game is full (${game.config.maxEntries} entries)` });
+  }
+
   if (!paymentService) {
     return reply.status(500).send({ error: 'Payment service not available' });
   }
 
-  const paymentIntent = paymentService.createPaymentIntent(currentGameId, walletAddress);
-  const headers = paymentService.generateX402Headers(paymentIntent);
+  // Reuse the wallet's open intent for this game, otherwise issue a new one
+  let paymentIntent = await repo.findOpenPaymentIntent(game.gameId, walletAddress);
+  if (!paymentIntent) {
+    paymentIntent = paymentService.createPaymentIntent(game.gameId, walletAddress, entryFeeUnits(game.config));
+    await repo.savePaymentIntent(paymentIntent);
+  }
+  const requirements = paymentService.buildPaymentRequirements(
+    `${request.protocol}://${request.hostname}/api/submit`,
+    `AI Art Arena entry for game #${game.gameId}`,
+    parseUnits(paymentIntent.amount, 6)
+  );
 
   return {
     paymentIntent,
-    x402Headers: headers,
+    x402Version: X402_VERSION,
+    accepts: [requirements],
     instructions: {
-      step1: `Approve USDC spending for ${paymentIntent.recipientAddress}`,
-      step2: `Transfer ${paymentIntent.amount} USDC to ${paymentIntent.recipientAddress}`,
-      step3: 'Submit the transaction hash with your artwork'
+      step1: `POST your artwork and intentId ${paymentIntent.id} to /api/submit`,
+      step2: `Answer the 402 by signing a USDC transferWithAuthorization and retrying with an X-PAYMENT header`,
+      step3: `Or transfer ${paymentIntent.amount} USDC to ${paymentIntent.recipientAddress} and submit the paymentTxHash`
     }
   };
 });
 
+// Get payment intent status
+app.get('/api/pay/:intentId', async (request, reply) => {
+  const { intentId } = request.params as { intentId: string };
+
+  const paymentIntent = await repo.findPaymentIntent(intentId);
+  if (!paymentIntent) {
+    return reply.status(404).send({ error: 'Payment intent not found' });
+  }
+
+  if (!paymentService) {
+    return reply.status(500).send({ error: 'Payment service not available' });
+  }
+
+  const status = paymentService.getIntentStatus(paymentIntent);
+  if (status !== paymentIntent.status) {
+    await repo.markPaymentIntentExpired(intentId);
+  }
+
+  return {
+    paymentIntent: { ...paymentIntent, status }
+  };
+});
+
 // Submit artwork
+// Unpaid requests get HTTP 402 with x402 payment requirements; clients retry
+// with an X-PAYMENT header. A paymentTxHash for a direct USDC transfer is also accepted.
 app.post('/api/submit', async (request, reply) => {
   const parsed = SubmitSchema.safeParse(request.body);
   if (!parsed.success) {
     return reply.status(400).send({ error: 'Invalid request', details: parsed.error });
   }
 
-  const { imageUrl, title, walletAddress, paymentTxHash } = parsed.data;
-  
-  // Get latest active game
-  let gameId = currentGameId || 1;
-  if (process.env.DATABASE_URL) {
-    try {
-      gameId = await db.getLatestGameId();
-      const gameData = await db.getOrCreateGame(gameId);
-      // If game is finalized, create new one
-      if (gameData.finalized) {
-        gameId = await db.createNextGame();
-      }
-      currentGameId = gameId;
-    } catch (e) {
-      console.log('Error getting latest game:', e);
-    }
-  }
+  const { imageUrl, title, walletAddress, paymentTxHash, entryTxHash, intentId } = parsed.data;
+  const paymentHeader = request.headers['x-payment'] as string | undefined;
+
+  // Get latest active game (creates the next one if the latest is finalized)
+  const gameData = await getActiveGame(repo);
+  const gameId = gameData.gameId;
 
-  // Verify payment
   if (!paymentService) {
     return reply.status(500).send({ error: 'Payment service not available' });
   }
-  
-  const verification = await paymentService.verifyPayment(paymentTxHash as `0x${string}`);
-  if (!verification.valid) {
-    return reply.status(402).send({ 
-      error: 'Payment verification failed', 
-      details: verification.error 
-    });
-  }
 
-  // Try database first
-  try {
-    if (process.env.DATABASE_URL) {
-      // Check if already entered
-      const alreadyEntered = await db.hasPlayerEntered(gameId, walletAddress);
-      if (alreadyEntered) {
-        return reply.status(400).send({ error: 'Already entered this game' });
-      }
+  // Check if already entered (addEntry checks again, together with the limit, when storing the entry)
+  if (await repo.hasPlayerEntered(gameId, walletAddress)) {
+    return reply.status(400).send({ error: 'Already entered this game' });
+  }
 
-      // Get current game state
-      const gameData = await db.getOrCreateGame(gameId);
-      
-      // Check if game has ended (but not finalized yet)
-      if (gameData.started && gameData.endTime > 0 && Date.now() > gameData.endTime) {
-        return reply.status(400).send({ error: 'Game has ended, wait for next round' });
-      }
+  // Check if game has ended (but not finalized yet)
+  if (gameData.started && gameData.endTime > 0 && Date.now() > gameData.endTime) {
+    return reply.status(400).send({ error: 'Game has ended, wait for next round' });
+  }
 
-      // Add to database
-      const entry = await db.addEntry(gameId, imageUrl, title, walletAddress, paymentTxHash);
-      await db.updateGamePrizePool(gameId, '0.05');
+  if (!acceptsEntries(gameData.config, gameData.entryCount)) {
+    return reply.status(400).send({ error: `Game is full (${gameData.config.maxEntries} entries)` });
+  }
 
-      // If this is the first entry, start the 1-hour timer!
-      const entries = await db.getEntriesForGame(gameId);
-      if (entries.length === 1 && !gameData.started) {
-        const { endTime } = await db.startGameTimer(gameId);
-        console.log(`🎯 First entry received! Game #${gameId} ends at ${new Date(endTime).toISOString()}`);
-      }
+  // Contract mode: the entry fee was paid by PrizePool.submitEntry, the game ends when the contract says
+  if (isContractMode()) {
+    if (!entryTxHash) {
+      return reply.status(400).send({ error: 'entryTxHash is required: entries are submitted through the PrizePool contract' });
+    }
 
-      return {
-        success: true,
-        submission: {
-          id: entry.id,
-          title: title,
-          position: entries.length
-        },
-        gameStarted: entries.length === 1
-      };
+    const verification = await verifyEntryTransaction(getPrizePool(), gameId, walletAddress, imageUrl, entryTxHash as `0x${string}`);
+    if (!verification.valid) {
+      return reply.status(400).send({ error: 'Entry verification failed', details: verification.error });
     }
-  } catch (e) {
-    console.log('Database error, using in-memory:', e);
-  }
 
-  // Fallback to in-memory
-  const game = games.get(currentGameId);
-  if (!game || game.finalized) {
-    return reply.status(400).send({ error: 'No active game' });
+    console.log(`🔗 PrizePool entry verified: ${walletAddress} in game #${gameId} (tx ${entryTxHash})`);
+    return recordEntry(reply, gameData, { imageUrl, title, walletAddress }, verification.payment, null, verification.endTime - Date.now());
   }
-  
-  // Only check endTime if game has started (endTime > 0)
-  if (game.endTime > 0 && Date.now() > game.endTime) {
-    return reply.status(400).send({ error: 'Game has ended, wait for next round' });
+
+  // A payment intent binds the payment to the game and wallet it was issued for
+  let paymentIntent: PaymentIntent | null = null;
+  if (intentId) {
+    paymentIntent = await repo.findPaymentIntent(intentId);
+    if (!paymentIntent) {
+      return reply.status(404).send({ error: 'Payment intent not found' });
+    }
+
+    if (paymentIntent.metadata.playerAddress !== walletAddress.toLowerCase()) {
+      return reply.status(403).send({ error: 'Payment intent was issued to another wallet' });
+    }
+
+    if (paymentIntent.metadata.gameId !== gameId) {
+      return reply.status(409).send({
+        error: 'Payment intent is for another game',
+        details: `Intent was issued for game #${paymentIntent.metadata.gameId}, current game is #${gameId}`
+      });
+    }
+
+    const status = paymentService.getIntentStatus(paymentIntent);
+    if (status === 'expired') {
+      await repo.markPaymentIntentExpired(intentId);
+      return reply.status(410).send({ error: 'Payment intent expired, request a new one' });
+    }
+    if (status === 'paid') {
+      return reply.status(409).send({ error: 'Payment intent already used' });
+    }
   }
 
-  // Check if already entered
-  const alreadyEntered = game.submissions.some(
-    s => s.playerAddress.toLowerCase() === walletAddress.toLowerCase()
+  const requirements = paymentService.buildPaymentRequirements(
+    `${request.protocol}://${request.hostname}${request.url}`,
+    `AI Art Arena entry for game #${gameId}`,
+    paymentIntent ? parseUnits(paymentIntent.amount, 6) : entryFeeUnits(gameData.config)
   );
-  
-  if (alreadyEntered) {
-    return reply.status(400).send({ error: 'Already entered this game' });
-  }
 
-  // Create submission
-  const submission: Submission = {
-    id: `sub_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
-    gameId: currentGameId,
-    imageUrl,
-    title,
-    playerAddress: walletAddress,
-    timestamp: Date.now(),
-    paymentTxHash
-  };
+  let payment: PaymentRef;
 
-  game.submissions.push(submission);
+  if (paymentHeader) {
+    // x402: verify and settle the signed authorization through the facilitator
+    let payload: PaymentPayload;
+    try {
+      payload = decodePaymentHeader(paymentHeader);
+    } catch (e) {
+      return reply.status(402).send({
+        ...paymentRequired(requirements, 'invalid_payment'),
+        details: e instanceof Error ? e.message : 'Malformed X-PAYMENT header'
+      });
+    }
 
-  // If this is the first entry, start the 6-hour timer!
-  const isFirstEntry = game.submissions.length === 1 && game.endTime === 0;
-  if (isFirstEntry) {
-    game.startTime = Date.now();
-    game.endTime = Date.now() + 1 * 60 * 60 * 1000; // 1 hour
-    console.log(`🎯 [In-memory] First entry! Game #${game.id} ends at ${new Date(game.endTime).toISOString()}`);
-  }
+    // Fee must be paid by the submitting wallet
+    if (!isAddressEqual(payload.payload.authorization.from, walletAddress as `0x${string}`)) {
+      return reply.status(402).send(paymentRequired(requirements, 'Payment was not signed by the submitting wallet'));
+    }
 
-  // Also add to automation storage
-  if (!entriesForAutomation.has(currentGameId)) {
-    entriesForAutomation.set(currentGameId, game.submissions);
-  }
+    const verification = await facilitator.verify(payload, requirements);
+    if (!verification.isValid) {
+      return reply.status(402).send(paymentRequired(requirements, verification.invalidReason || 'Payment verification failed'));
+    }
 
-  return {
-    success: true,
-    gameStarted: isFirstEntry,
-    submission: {
-      id: submission.id,
-      title: submission.title,
-      position: game.submissions.length
+    // Hold the entry slot before taking the payment, so a settled payment is not turned away
+    try {
+      await repo.reserveEntry(gameId, walletAddress, ENTRY_RESERVATION_TTL_MS);
+    } catch (e) {
+      if (e instanceof EntryRejectedError) {
+        return entryRejected(reply, e);
+      }
+      throw e;
     }
-  };
-});
 
-// Get leaderboard
-app.get('/api/leaderboard', async () => {
-  const gameId = currentGameId || 1;
+    let settlement: SettleResponse;
+    try {
+      settlement = await facilitator.settle(payload, requirements);
+    } catch (e) {
+      await repo.releaseEntryReservation(gameId, walletAddress);
+      throw e;
+    }
+    reply.header('X-PAYMENT-RESPONSE', encodePaymentResponseHeader(settlement));
+    if (settlement.pending && settlement.transaction) {
+      // The funds may have moved, so the slot stays held for this wallet. The
+      // entry is recorded once the transaction verifies as a direct transfer.
+      console.log(`⏳ x402 settlement for ${walletAddress} not confirmed yet (tx ${settlement.transaction})`);
+      return reply.status(202).send({
+        error: 'Payment submitted but not confirmed yet',
+        details: `Submit the entry again with paymentTxHash ${settlement.transaction} once it confirms`,
+        paymentTxHash: settlement.transaction
+      });
+    }
+    if (!settlement.success || !settlement.transaction) {
+      await repo.releaseEntryReservation(gameId, walletAddress);
+      return reply.status(402).send(paymentRequired(requirements, settlement.errorReason || 'Payment settlement failed'));
+    }
 
-  // Try database first
-  try {
-    if (process.env.DATABASE_URL) {
-      const entries = await db.getEntriesForGame(gameId);
-      return {
-        gameId: gameId,
-        entries: entries.map((e, i) => ({
-          position: i + 1,
-          title: e.title,
-          imageUrl: e.imageUrl,
-          playerAddress: e.playerAddress,
-          submittedAt: e.submittedAt,
-          isWinner: e.isWinner
-        })),
-        finalized: false
-      };
+    console.log(
+      `💳 x402 payment settled via ${facilitator.name}: ` +
+      `${formatUnits(BigInt(payload.payload.authorization.value), 6)} USDC from ${settlement.payer} (tx ${settlement.transaction})`
+    );
+
+    // One settlement transaction pays exactly one entry
+    payment = {
+      txHash: settlement.transaction,
+      logIndex: WHOLE_TRANSACTION_LOG_INDEX,
+      amount: formatUnits(BigInt(payload.payload.authorization.value), 6),
+      from: payload.payload.authorization.from,
+      to: payload.payload.authorization.to
+    };
+  } else if (paymentTxHash) {
+    // Direct transfer: fee must be paid by the submitting wallet
+    const verification = await paymentService.verifyPayment(
+      paymentTxHash as `0x${string}`,
+      walletAddress,
+      BigInt(requirements.maxAmountRequired)
+    );
+    if (!verification.valid) {
+      return reply.status(402).send({
+        ...paymentRequired(requirements, 'Payment verification failed'),
+        details: verification.error
+      });
     }
-  } catch (e) {
-    console.log('Database error, using in-memory');
-  }
 
-  const game = games.get(currentGameId);
-  if (!game) {
-    return { entries: [], gameId: null };
+    console.log(
+      `💳 Payment verified: ${formatUnits(verification.amount!, 6)} USDC ` +
+      `from ${verification.from} to ${verification.to} (block ${verification.blockNumber}, tx ${paymentTxHash})`
+    );
+
+    payment = {
+      txHash: paymentTxHash,
+      logIndex: verification.logIndex!,
+      amount: formatUnits(verification.amount!, 6),
+      from: verification.from,
+      to: verification.to,
+      blockNumber: verification.blockNumber !== undefined ? Number(verification.blockNumber) : undefined
+    };
+  } else {
+    return reply.status(402).send(paymentRequired(requirements, 'X-PAYMENT header is required'));
   }
 
+  return recordEntry(reply, gameData, { imageUrl, title, walletAddress }, payment, paymentIntent);
+});
+
+// Get leaderboard
+app.get('/api/leaderboard', async () => {
+  const gameId = await repo.getLatestGameId();
+  const game = await repo.findGame(gameId);
+  const entries = await repo.getEntriesForGame(gameId);
+
   return {
-    gameId: game.id,
-    entries: game.submissions.map((s, i) => ({
+    gameId,
+    entries: entries.map((e, i) => ({
       position: i + 1,
-      title: s.title,
-      imageUrl: s.imageUrl,
-      playerAddress: `${s.playerAddress.slice(0, 6)}...${s.playerAddress.slice(-4)}`,
-      submittedAt: s.timestamp
+      title: e.title,
+      imageUrl: e.imageUrl,
+      playerAddress: e.playerAddress,
+      submittedAt: e.submittedAt,
+      isWinner: e.isWinner
     })),
-    finalized: game.finalized,
-    winnerId: game.winnerId
+    finalized: game?.finalized ?? false,
+    winnerId: entries.find(e => e.isWinner)?.id
   };
 });
 
 // Get history of past games
 app.get('/api/history', async () => {
-  try {
-    if (process.env.DATABASE_URL) {
-      const pastGames = await db.getPastGames(10);
-      const stats = await db.getStats();
-      return {
-        games: pastGames,
-        stats
-      };
-    }
-  } catch (e) {
-    console.log('Database error:', e);
-  }
-
+  const pastGames = await repo.getPastGames(10);
+  const stats = await repo.getStats();
   return {
-    games: [],
-    stats: { totalGames: 0, totalEntries: 0, totalPrizeDistributed: '0', uniquePlayers: 0 }
+    // With how each winner was settled among tied entries
+    games: await Promise.all(pastGames.map(async game => ({
+      ...game,
+      tieBreak: (await repo.findFinalizationJob(game.gameId))?.tieBreak ?? null
+    }))),
+    stats
   };
 });
 
 // Get entries for a specific game
 app.get('/api/game/:gameId/entries', async (request) => {
   const { gameId } = request.params as { gameId: string };
-  
-  try {
-    if (process.env.DATABASE_URL) {
-      const entries = await db.getAllEntriesForGame(parseInt(gameId));
-      return { entries };
-    }
-  } catch (e) {
-    console.log('Database error:', e);
-  }
 
-  return { entries: [] };
+  const entries = await repo.getAllEntriesForGame(parseInt(gameId));
+  return { entries };
 });
 
 // ============ Admin Routes ============
 
 // Start new game (admin only)
 app.post('/api/admin/start-game', async (request, reply) => {
-  const { duration = 24 * 60 * 60 * 1000 } = request.body as { duration?: number };
-  
-  // Finalize previous game if exists
-  const previousGame = games.get(currentGameId);
-  if (previousGame && !previousGame.finalized && previousGame.submissions.length > 0) {
+  const parsed = StartGameSchema.safeParse(request.body || {});
+  if (!parsed.success) {
+    return reply.status(400).send({ error: 'Invalid game settings', details: parsed.error });
+  }
+  const { duration, ...settings } = parsed.data;
+
+  // Previous game must be finalized before starting another
+  const previousGame = await repo.findGame(await repo.getLatestGameId());
+  if (previousGame && !previousGame.finalized && previousGame.entryCount > 0) {
     return reply.status(400).send({ error: 'Previous game not finalized' });
   }
 
-  currentGameId++;
-  const game: Game = {
-    id: currentGameId,
-    startTime: Date.now(),
-    endTime: Date.now() + duration,
-    submissions: [],
-    finalized: false
-  };
+  // Reuse the waiting game if there is one, otherwise create the next
+  const gameId = previousGame && !previousGame.finalized && !previousGame.started
+    ? previousGame.gameId
+    : await repo.createNextGame();
 
-  games.set(currentGameId, game);
+  const resolved = resolveGameSettings(await repo.getOrCreateGame(gameId), settings);
+  if (!resolved.valid) {
+    return reply.status(400).send({ error: resolved.error });
+  }
+
+  await repo.updateGameSettings(gameId, resolved.settings);
+  const { startTime, endTime } = await repo.startGameTimer(gameId, duration);
+  const game = await repo.findGame(gameId);
 
   return {
     success: true,
     game: {
-      id: game.id,
-      startTime: game.startTime,
-      endTime: game.endTime
+      id: gameId,
+      startTime,
+      endTime,
+      judgingMode: game?.judgingMode,
+      theme: game?.theme,
+      rubric: game?.rubric,
+      config: game?.config
     }
   };
 });
 
-// Finalize game and pick winner (admin only)
-app.post('/api/admin/finalize', async (request, reply) => {
-  const game = games.get(currentGameId);
+// Change a game's settings until it is judged (admin only)
+app.post('/api/admin/games/:gameId/settings', async (request, reply) => {
+  const gameId = parseInt((request.params as { gameId: string }).gameId);
+
+  const parsed = GameSettingsSchema.safeParse(request.body || {});
+  if (!parsed.success) {
+    return reply.status(400).send({ error: 'Invalid game settings', details: parsed.error });
+  }
+
+  const game = await repo.findGame(gameId);
   if (!game) {
-    return reply.status(400).send({ error: 'No game to finalize' });
+    return reply.status(404).send({ error: 'Game not found' });
+  }
+  if (game.finalized || (await repo.findFinalizationJob(gameId))) {
+    return reply.status(400).send({ error: 'Game is already being judged' });
   }
 
-  if (game.finalized) {
-    return reply.status(400).send({ error: 'Game already finalized' });
+  const resolved = resolveGameSettings(game, parsed.data);
+  if (!resolved.valid) {
+    return reply.status(400).send({ error: resolved.error });
   }
 
-  if (game.submissions.length === 0) {
-    return reply.status(400).send({ error: 'No submissions to judge' });
+  await repo.updateGameSettings(gameId, resolved.settings);
+  return { success: true, game: await repo.findGame(gameId) };
+});
+
+// Finalize game and pick winner (admin only)
+app.post('/api/admin/finalize', async (request, reply) => {
+  const gameId = await repo.getLatestGameId();
+  const game = await repo.findGame(gameId);
+  if (!game) {
+    return reply.status(400).send({ error: 'No game to finalize' });
   }
 
   if (!aiJudge) {
     return reply.status(500).send({ error: 'AI Judge service not available' });
   }
+  const judge = aiJudge;
 
-  // Judge submissions
-  const result = await aiJudge.judgeSubmissions(
-    game.submissions.map(s => ({
-      id: s.id,
-      imageUrl: s.imageUrl,
-      title: s.title,
-      playerAddress: s.playerAddress,
-      timestamp: s.timestamp
-    }))
-  );
+  // Judging result of this request (not set when resuming an already-scored game)
+  let judged: EnsembleResult | undefined;
 
-  game.finalized = true;
-  game.winnerId = result.winnerId;
+  const result = await finalizeLatestGameWith(async (entries, judgedGame) => {
+    const outcome = await judgeAndRecord(entries, judgedGame, 'finalization', judge);
+    if (!outcome.success) {
+      throw new Error(`AI judging failed: ${outcome.error}`);
+    }
+    judged = outcome;
+
+    // Store scores on the matching entries
+    return joinJudgeScores(entries, outcome, judgedGame);
+  });
+
+  if (result.awaitingReview) {
+    return reply.status(202).send({
+      success: false,
+      awaitingReview: true,
+      gameId: result.gameId,
+      error: result.error,
+      result: judged && { scores: judged.scores, ranking: judged.ranking, spread: judged.spread, flags: judged.flags, panel: judged.panel }
+    });
+  }
 
-  // Find winner submission
-  const winner = game.submissions.find(s => s.id === result.winnerId);
+  if (!result.success) {
+    return reply.status(400).send({ error: result.error });
+  }
 
   return {
     success: true,
     result: {
-      winnerId: result.winnerId,
-      winnerAddress: winner?.playerAddress,
-      winnerScore: result.winnerScore,
-      scores: result.scores,
-      judgedAt: result.judgedAt
-    }
+      winnerId: result.winner && String(result.winner.entryId),
+      winnerAddress: result.winner?.address,
+      winnerScore: result.winner?.score,
+      scores: judged?.scores,
+      ranking: judged?.ranking,
+      spread: judged?.spread,
+      flags: judged?.flags,
+      tieBreak: result.tieBreak,
+      judgedAt: judged?.judgedAt
+    },
+    nextGameId: result.nextGameId
   };
 });
 
 // Auto-finalize game (for automation)
 app.post('/api/admin/auto-finalize', async (request, reply) => {
   console.log('🤖 Auto-finalize triggered via API');
-  
+
   const result = await manualFinalize();
-  
+
   if (result.success) {
-    // Start new game automatically
-    currentGameId++;
-    games.set(currentGameId, {
-      id: currentGameId,
-      startTime: Date.now(),
-      endTime: Date.now() + 24 * 60 * 60 * 1000,
-      submissions: [],
-      finalized: false
-    });
-    
+    // Next game is created as the last finalization step
     return {
-      success: true,
       ...result,
-      newGameId: currentGameId
+      newGameId: result.nextGameId
     };
   }
-  
+
   return reply.status(400).send(result);
 });
 
+// Games whose judging is held for review before payout (admin only)
+app.get('/api/admin/reviews', async () => {
+  const jobs = (await repo.listUnfinishedFinalizationJobs()).filter(j => j.reviewReason && j.reviewedAt === null);
+
+  return {
+    reviews: await Promise.all(jobs.map(async job => ({
+      gameId: job.gameId,
+      reviewReason: job.reviewReason,
+      winnerEntryId: job.winnerEntryId,
+      tieBreak: job.tieBreak,
+      entries: (await repo.getAllEntriesForGame(job.gameId)).map(e => ({
+        id: e.id,
+        title: e.title,
+        playerAddress: e.playerAddress,
+        imageUrl: e.imageUrl,
+        score: e.scoreTotal
+      })),
+      panelScores: await repo.getPanelScores(job.gameId)
+    })))
+  };
+});
+
+// Approve a held game and continue to payout (admin only)
+app.post('/api/admin/games/:gameId/approve', async (request, reply) => {
+  const { gameId } = request.params as { gameId: string };
+
+  const result = await approveJudging(parseInt(gameId));
+  if (!result.success) {
+    return reply.status(400).send({ error: result.error });
+  }
+  return result;
+});
+
+// Judging audit log of a game: every run with its prompts, raw replies and scores (admin only)
+app.get('/api/admin/games/:gameId/judging', async (request, reply) => {
+  const gameId = parseInt((request.params as { gameId: string }).gameId);
+
+  const game = await repo.findGame(gameId);
+  if (!game) {
+    return reply.status(404).send({ error: 'Game not found' });
+  }
+
+  const job = await repo.findFinalizationJob(gameId);
+  return {
+    gameId,
+    state: job?.state ?? null,
+    reviewReason: job?.reviewReason ?? null,
+    reviewedAt: job?.reviewedAt ?? null,
+    winnerEntryId: job?.winnerEntryId ?? null,
+    tieBreak: job?.tieBreak ?? null,
+    panelScores: await repo.getPanelScores(gameId),
+    runs: await repo.getJudgingRuns(gameId)
+  };
+});
+
+// Judge a scored game again before payout; it then waits for approval (admin only)
+app.post('/api/admin/games/:gameId/rejudge', async (request, reply) => {
+  const { gameId } = request.params as { gameId: string };
+
+  const result = await rejudgeGame(parseInt(gameId));
+  if (!result.success) {
+    return reply.status(400).send({ error: result.error });
+  }
+  return result;
+});
+
+// Inspect which entry consumed which payment
+app.get('/api/admin/payments', async (request) => {
+  const { txHash, gameId, limit } = request.query as { txHash?: string; gameId?: string; limit?: string };
+
+  const payments = await repo.listConsumedPayments({
+    txHash,
+    gameId: gameId ? parseInt(gameId) : undefined,
+    limit: limit ? parseInt(limit) : undefined
+  });
+
+  return { payments };
+});
+
+// Winner and platform-fee payouts (filter by gameId or status, e.g. status=flagged)
+app.get('/api/admin/payouts', async (request) => {
+  const { gameId, status, limit } = request.query as { gameId?: string; status?: PayoutStatus; limit?: string };
+
+  const payouts = await repo.listPayouts({
+    gameId: gameId ? parseInt(gameId) : undefined,
+    status,
+    limit: limit ? parseInt(limit) : undefined
+  });
+
+  return { sender: getPayoutService().senderName, payouts };
+});
+
+// Retry failed payouts and confirm in-flight ones now instead of waiting for the cron
+app.post('/api/admin/payouts/retry', async () => {
+  const payouts = await retryOpenPayouts();
+  return { success: true, payouts };
+});
+
+// Chain indexer cursor and indexed events (filter by eventName or confirmed=true|false)
+app.get('/api/admin/chain', async (request) => {
+  const { eventName, confirmed, limit } = request.query as { eventName?: string; confirmed?: string; limit?: string };
+
+  const [cursor, events] = await Promise.all([
+    repo.getChainCursor(CHAIN_INDEXER_NAME),
+    repo.listChainEvents({
+      indexer: CHAIN_INDEXER_NAME,
+      eventName,
+      confirmed: confirmed === undefined ? undefined : confirmed === 'true',
+      limit: limit ? parseInt(limit) : undefined
+    })
+  ]);
+
+  return { enabled: process.env.CHAIN_INDEXER === 'true', cursor, events };
+});
+
+// Index up to the chain head now instead of waiting for the next poll
+app.post('/api/admin/chain/poll', async (_request, reply) => {
+  try {
+    const run = await runChainIndexer();
+    if (!run) {
+      return reply.status(409).send({ error: 'Chain indexer is disabled or already running' });
+    }
+    return { success: true, run };
+  } catch (error) {
+    return reply.status(502).send({ error: error instanceof Error ? error.message : 'Indexer poll failed' });
+  }
+});
+
+// Reconciliation reports, newest first (the first one is the latest run)
+app.get('/api/admin/reconciliation', async (request) => {
+  const { limit } = request.query as { limit?: string };
+  const reports = await repo.listReconciliationReports(limit ? parseInt(limit) : undefined);
+  return { latest: reports[0] ?? null, reports };
+});
+
+// Reconcile now instead of waiting for the hourly run
+app.post('/api/admin/reconciliation/run', async (_request, reply) => {
+  const report = await runReconciliation();
+  if (!report) {
+    return reply.status(409).send({ error: 'Reconciliation is already running' });
+  }
+  return { success: report.status !== 'failed', report };
+});
+
 // Get automation status
 app.get('/api/admin/status', async () => {
-  const game = games.get(currentGameId);
+  const currentGameId = await repo.getLatestGameId();
+  const game = await repo.findGame(currentGameId);
+  const locks = await repo.listLocks();
   return {
     currentGameId,
+    storage: repo.kind,
+    instanceId: INSTANCE_ID,
+    cronLeader: locks.find(l => l.name === CRON_LEADER_LOCK)?.holder ?? null,
+    locks,
     gameStatus: game ? {
-      submissions: game.submissions.length,
+      submissions: game.entryCount,
       finalized: game.finalized,
-      timeRemaining: Math.max(0, game.endTime - Date.now()),
-      endsAt: new Date(game.endTime).toISOString()
+      started: game.started,
+      timeRemaining: game.started ? Math.max(0, game.endTime - Date.now()) : 0,
+      endsAt: game.started ? new Date(game.endTime).toISOString() : null
     } : null,
     cronEnabled: true,
     nextFinalization: '00:00 UTC daily'
@@ -533,46 +893,27 @@ app.get('/api/admin/status', async () => {
 
 const start = async () => {
   try {
-    // Initialize database and get current game
-    if (process.env.DATABASE_URL) {
-      try {
-        await db.initDatabase();
-        console.log('✅ PostgreSQL database connected');
-        
-        // Get or create game 1
-        const gameData = await db.getOrCreateGame(1);
-        currentGameId = gameData.gameId;
-        console.log(`📊 Current game: #${currentGameId} (${gameData.started ? 'active' : 'waiting for entries'})`);
-      } catch (e) {
-        console.log('⚠️ Database initialization failed, using in-memory storage:', e);
-        currentGameId = 1;
-      }
-    } else {
-      console.log('⚠️ DATABASE_URL not set - using in-memory storage (data will be lost on restart)');
-      currentGameId = 1;
-    }
+    // Select storage backend (Postgres if DATABASE_URL is set, otherwise in-memory)
+    repo = await createGameRepository();
+    setGameRepository(repo);
 
-    // In-memory fallback
-    games.set(1, {
-      id: 1,
-      startTime: Date.now(),
-      endTime: 0, // Not started yet
-      submissions: [],
-      finalized: false
-    });
+    // Refuse to run against a contract that does not match the generated ABI
+    await verifyPrizePoolContract();
 
-    // Link entries storage for automation
-    entriesForAutomation.set(1, games.get(1)!.submissions);
-    setEntriesStorage(entriesForAutomation);
+    const game = await getActiveGame(repo);
+    console.log(`📊 Current game: #${game.gameId} (${game.started ? 'active' : 'waiting for entries'})`);
 
     // Start cron scheduler for automatic daily finalization
     startCronScheduler();
 
+    // Follow PrizePool and USDC events (CHAIN_INDEXER=true)
+    startChainIndexer();
+
     await app.listen({ port: PORT, host: '0.0.0.0' });
     console.log(`🎨 AI Art Arena backend running on port ${PORT}`);
-    console.log(`📊 Current game: #${currentGameId}`);
+    console.log(`📊 Current game: #${game.gameId}`);
     console.log(`⏰ Auto-finalization: Daily at 00:00 UTC`);
-    console.log(`💾 Storage: ${process.env.DATABASE_URL ? 'PostgreSQL' : 'In-memory'}`);
+    console.log(`💾 Storage: ${repo.kind === 'postgres' ? 'PostgreSQL' : 'In-memory'}`);
   } catch (err) {
     app.log.error(err);
     process.exit(1);
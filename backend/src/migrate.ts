@@ -0,0 +1,60 @@
+/**
+ * Schema migration CLI
+ *
+ * Usage:
+ *   npm run migrate -- up [targetVersion]   Apply pending migrations
+ *   npm run migrate -- down [steps]         Roll back the last N migrations (default 1)
+ *   npm run migrate -- status               Show applied and pending migrations
+ */
+
+import { createPool } from './services/database';
+import { getMigrationStatus, migrateDown, migrateUp } from './services/migrations';
+
+async function main(): Promise<void> {
+  const [command = 'status', arg] = process.argv.slice(2);
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL not set');
+  }
+
+  const pool = createPool(process.env.DATABASE_URL);
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrateUp(pool, arg ? parseInt(arg) : undefined);
+        console.log(applied.length > 0
+          ? `✅ Applied migrations: ${applied.join(', ')}`
+          : '✅ Schema already up to date');
+        break;
+      }
+      case 'down': {
+        const rolledBack = await migrateDown(pool, arg ? parseInt(arg) : 1);
+        console.log(rolledBack.length > 0
+          ? `✅ Rolled back migrations: ${rolledBack.join(', ')}`
+          : '✅ Nothing to roll back');
+        break;
+      }
+      case 'status': {
+        const status = await getMigrationStatus(pool);
+        console.log(`📦 Schema version: ${status.currentVersion} (latest known: ${status.latestVersion})`);
+        for (const m of status.applied) {
+          console.log(`   ✅ ${m.version}_${m.name} (${new Date(m.appliedAt).toISOString()})`);
+        }
+        for (const m of status.pending) {
+          console.log(`   ⏳ ${m.version}_${m.name} (pending)`);
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown command "${command}" (expected up, down or status)`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+import type { Migration } from '../services/migrations';
+
+// Matches the tables previously created by initDatabase(), so existing
+// databases pick this up as already applied without changes.
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up: `
+    CREATE TABLE IF NOT EXISTS games (
+      id SERIAL PRIMARY KEY,
+      game_id INTEGER UNIQUE NOT NULL,
+      start_time BIGINT NOT NULL,
+      end_time BIGINT NOT NULL DEFAULT 0,
+      prize_pool DECIMAL(20, 6) DEFAULT 0,
+      entry_count INTEGER DEFAULT 0,
+      started BOOLEAN DEFAULT FALSE,
+      finalized BOOLEAN DEFAULT FALSE,
+      winner_address VARCHAR(42),
+      winner_title VARCHAR(255),
+      winner_score INTEGER,
+      winner_image_url TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    ALTER TABLE games ADD COLUMN IF NOT EXISTS started BOOLEAN DEFAULT FALSE;
+
+    CREATE TABLE IF NOT EXISTS entries (
+      id SERIAL PRIMARY KEY,
+      game_id INTEGER NOT NULL,
+      image_url TEXT NOT NULL,
+      title VARCHAR(255) NOT NULL,
+      player_address VARCHAR(42) NOT NULL,
+      payment_tx_hash VARCHAR(66) NOT NULL,
+      score_creativity INTEGER,
+      score_technique INTEGER,
+      score_theme INTEGER,
+      score_total INTEGER,
+      reasoning TEXT,
+      is_winner BOOLEAN DEFAULT FALSE,
+      submitted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(game_id, player_address)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_entries_game_id ON entries(game_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS entries;
+    DROP TABLE IF EXISTS games;
+  `
+};
+
+export default migration;
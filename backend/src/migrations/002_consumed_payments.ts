@@ -0,0 +1,35 @@
+import type { Migration } from '../services/migrations';
+
+// Ledger of payments that have funded an entry. A transfer is identified by
+// (tx_hash, log_index); entries created before this migration are backfilled
+// with log_index -1, meaning "whole transaction consumed".
+const migration: Migration = {
+  version: 2,
+  name: 'consumed_payments',
+  up: `
+    CREATE TABLE consumed_payments (
+      id SERIAL PRIMARY KEY,
+      tx_hash VARCHAR(66) NOT NULL,
+      log_index INTEGER NOT NULL,
+      game_id INTEGER NOT NULL,
+      entry_id INTEGER REFERENCES entries(id) ON DELETE SET NULL,
+      player_address VARCHAR(42) NOT NULL,
+      amount DECIMAL(20, 6),
+      consumed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(tx_hash, log_index)
+    );
+
+    CREATE INDEX idx_consumed_payments_game_id ON consumed_payments(game_id);
+
+    INSERT INTO consumed_payments (tx_hash, log_index, game_id, entry_id, player_address, consumed_at)
+    SELECT DISTINCT ON (LOWER(payment_tx_hash))
+      LOWER(payment_tx_hash), -1, game_id, id, player_address, submitted_at
+    FROM entries
+    ORDER BY LOWER(payment_tx_hash), id ASC;
+  `,
+  down: `
+    DROP TABLE IF EXISTS consumed_payments;
+  `
+};
+
+export default migration;
@@ -0,0 +1,21 @@
+import type { Migration } from '../services/migrations';
+
+// Decoded transfer details recorded when a payment is verified
+const migration: Migration = {
+  version: 3,
+  name: 'payment_details',
+  up: `
+    ALTER TABLE consumed_payments
+      ADD COLUMN payer_address VARCHAR(42),
+      ADD COLUMN recipient_address VARCHAR(42),
+      ADD COLUMN block_number BIGINT;
+  `,
+  down: `
+    ALTER TABLE consumed_payments
+      DROP COLUMN IF EXISTS payer_address,
+      DROP COLUMN IF EXISTS recipient_address,
+      DROP COLUMN IF EXISTS block_number;
+  `
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import type { Migration } from '../services/migrations';
+
+// Payment intents issued by POST /api/pay, bound to a game and wallet
+const migration: Migration = {
+  version: 4,
+  name: 'payment_intents',
+  up: `
+    CREATE TABLE payment_intents (
+      id VARCHAR(64) PRIMARY KEY,
+      game_id INTEGER NOT NULL,
+      player_address VARCHAR(42) NOT NULL,
+      amount DECIMAL(20, 6) NOT NULL,
+      recipient_address VARCHAR(42) NOT NULL,
+      chain_id INTEGER NOT NULL,
+      status VARCHAR(16) NOT NULL DEFAULT 'pending',
+      created_at BIGINT NOT NULL,
+      expires_at BIGINT NOT NULL,
+      paid_tx_hash VARCHAR(66),
+      paid_at BIGINT,
+      entry_id INTEGER REFERENCES entries(id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX idx_payment_intents_game_player ON payment_intents(game_id, player_address);
+  `,
+  down: `
+    DROP TABLE IF EXISTS payment_intents;
+  `
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+import type { Migration } from '../services/migrations';
+
+// Winner and platform-fee transfers sent by the admin wallet after finalization
+const migration: Migration = {
+  version: 5,
+  name: 'payouts',
+  up: `
+    CREATE TABLE payouts (
+      id SERIAL PRIMARY KEY,
+      game_id INTEGER NOT NULL REFERENCES games(game_id),
+      kind VARCHAR(16) NOT NULL,
+      recipient_address VARCHAR(42) NOT NULL,
+      amount DECIMAL(20, 6) NOT NULL,
+      tx_hash VARCHAR(66),
+      status VARCHAR(16) NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      block_number BIGINT,
+      created_at BIGINT NOT NULL,
+      updated_at BIGINT NOT NULL,
+      UNIQUE(game_id, kind)
+    );
+
+    CREATE INDEX idx_payouts_status ON payouts(status);
+  `,
+  down: `
+    DROP TABLE IF EXISTS payouts;
+  `
+};
+
+export default migration;
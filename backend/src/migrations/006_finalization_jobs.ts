@@ -0,0 +1,27 @@
+import type { Migration } from '../services/migrations';
+
+// Persisted finalization state machine (judging -> scored -> finalized -> paid -> next_game_created)
+const migration: Migration = {
+  version: 6,
+  name: 'finalization_jobs',
+  up: `
+    CREATE TABLE finalization_jobs (
+      game_id INTEGER PRIMARY KEY REFERENCES games(game_id),
+      state VARCHAR(24) NOT NULL DEFAULT 'judging',
+      winner_entry_id INTEGER REFERENCES entries(id),
+      contract_tx_hash VARCHAR(66),
+      next_game_id INTEGER,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      created_at BIGINT NOT NULL,
+      updated_at BIGINT NOT NULL
+    );
+
+    CREATE INDEX idx_finalization_jobs_state ON finalization_jobs(state);
+  `,
+  down: `
+    DROP TABLE IF EXISTS finalization_jobs;
+  `
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+import type { Migration } from '../services/migrations';
+
+// Leases for the cron leader and per-game finalization across replicas
+const migration: Migration = {
+  version: 7,
+  name: 'job_locks',
+  up: `
+    CREATE TABLE job_locks (
+      name VARCHAR(64) PRIMARY KEY,
+      holder VARCHAR(128) NOT NULL,
+      acquired_at BIGINT NOT NULL,
+      expires_at BIGINT NOT NULL
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS job_locks;
+  `
+};
+
+export default migration;
@@ -0,0 +1,50 @@
+import type { Migration } from '../services/migrations';
+
+// Per-judge scores for ensemble judging, fractional aggregated scores and the
+// admin review hold on finalization jobs
+const migration: Migration = {
+  version: 8,
+  name: 'judge_panel',
+  up: `
+    CREATE TABLE judge_scores (
+      game_id INTEGER NOT NULL REFERENCES games(game_id),
+      entry_id INTEGER NOT NULL REFERENCES entries(id),
+      judge VARCHAR(128) NOT NULL,
+      creativity REAL NOT NULL,
+      technique REAL NOT NULL,
+      theme REAL NOT NULL,
+      total REAL NOT NULL,
+      reasoning TEXT,
+      PRIMARY KEY (game_id, entry_id, judge)
+    );
+
+    ALTER TABLE entries
+      ALTER COLUMN score_creativity TYPE REAL,
+      ALTER COLUMN score_technique TYPE REAL,
+      ALTER COLUMN score_theme TYPE REAL,
+      ALTER COLUMN score_total TYPE REAL;
+
+    ALTER TABLE games ALTER COLUMN winner_score TYPE REAL;
+
+    ALTER TABLE finalization_jobs
+      ADD COLUMN review_reason TEXT,
+      ADD COLUMN reviewed_at BIGINT;
+  `,
+  down: `
+    ALTER TABLE finalization_jobs
+      DROP COLUMN IF EXISTS review_reason,
+      DROP COLUMN IF EXISTS reviewed_at;
+
+    ALTER TABLE games ALTER COLUMN winner_score TYPE INTEGER USING round(winner_score);
+
+    ALTER TABLE entries
+      ALTER COLUMN score_creativity TYPE INTEGER USING round(score_creativity),
+      ALTER COLUMN score_technique TYPE INTEGER USING round(score_technique),
+      ALTER COLUMN score_theme TYPE INTEGER USING round(score_theme),
+      ALTER COLUMN score_total TYPE INTEGER USING round(score_total);
+
+    DROP TABLE IF EXISTS judge_scores;
+  `
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import type { Migration } from '../services/migrations';
+
+// Per-game judging mode (scores, heats or swiss)
+const migration: Migration = {
+  version: 9,
+  name: 'game_judging_mode',
+  up: `
+    ALTER TABLE games ADD COLUMN judging_mode VARCHAR(16) NOT NULL DEFAULT 'scores';
+  `,
+  down: `
+    ALTER TABLE games DROP COLUMN IF EXISTS judging_mode;
+  `
+};
+
+export default migration;
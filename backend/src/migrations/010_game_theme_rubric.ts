@@ -0,0 +1,17 @@
+import type { Migration } from '../services/migrations';
+
+// Per-game theme prompt and scoring rubric (NULL rubric: default rubric)
+const migration: Migration = {
+  version: 10,
+  name: 'game_theme_rubric',
+  up: `
+    ALTER TABLE games ADD COLUMN theme TEXT;
+    ALTER TABLE games ADD COLUMN rubric JSONB;
+  `,
+  down: `
+    ALTER TABLE games DROP COLUMN IF EXISTS rubric;
+    ALTER TABLE games DROP COLUMN IF EXISTS theme;
+  `
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import type { Migration } from '../services/migrations';
+
+// Audit log of judging runs: every provider call with its prompt, raw reply and parsed scores
+const migration: Migration = {
+  version: 11,
+  name: 'judging_runs',
+  up: `
+    CREATE TABLE IF NOT EXISTS judging_runs (
+      id SERIAL PRIMARY KEY,
+      game_id INTEGER NOT NULL REFERENCES games(game_id),
+      triggered_by VARCHAR(16) NOT NULL,
+      mode VARCHAR(16) NOT NULL,
+      judges TEXT NOT NULL,
+      estimated_cost REAL NOT NULL,
+      success BOOLEAN NOT NULL,
+      error TEXT,
+      result JSONB,
+      invocations JSONB NOT NULL,
+      started_at BIGINT NOT NULL,
+      finished_at BIGINT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_judging_runs_game ON judging_runs(game_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS judging_runs;
+  `
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import type { Migration } from '../services/migrations';
+
+// How each game's winner was settled among tied entries
+const migration: Migration = {
+  version: 12,
+  name: 'tie_break',
+  up: `
+    ALTER TABLE finalization_jobs ADD COLUMN tie_break JSONB;
+  `,
+  down: `
+    ALTER TABLE finalization_jobs DROP COLUMN IF EXISTS tie_break;
+  `
+};
+
+export default migration;
@@ -0,0 +1,48 @@
+import type { Migration } from '../services/migrations';
+
+// Chain indexer: PrizePool and USDC events, the indexer cursors and the unconfirmed block hashes used to detect reorgs
+const migration: Migration = {
+  version: 13,
+  name: 'chain_index',
+  up: `
+    CREATE TABLE IF NOT EXISTS chain_cursors (
+      indexer VARCHAR(64) PRIMARY KEY,
+      block_number BIGINT NOT NULL,
+      block_hash VARCHAR(66) NOT NULL,
+      confirmed_block_number BIGINT NOT NULL,
+      updated_at BIGINT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS chain_blocks (
+      indexer VARCHAR(64) NOT NULL,
+      block_number BIGINT NOT NULL,
+      block_hash VARCHAR(66) NOT NULL,
+      PRIMARY KEY (indexer, block_number)
+    );
+
+    CREATE TABLE IF NOT EXISTS chain_events (
+      id SERIAL PRIMARY KEY,
+      indexer VARCHAR(64) NOT NULL,
+      block_number BIGINT NOT NULL,
+      block_hash VARCHAR(66) NOT NULL,
+      tx_hash VARCHAR(66) NOT NULL,
+      log_index INTEGER NOT NULL,
+      address VARCHAR(42) NOT NULL,
+      event_name VARCHAR(64) NOT NULL,
+      args JSONB NOT NULL,
+      confirmed BOOLEAN NOT NULL DEFAULT FALSE,
+      indexed_at BIGINT NOT NULL,
+      UNIQUE (indexer, tx_hash, log_index)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_chain_events_block ON chain_events(indexer, block_number);
+    CREATE INDEX IF NOT EXISTS idx_chain_events_name ON chain_events(event_name);
+  `,
+  down: `
+    DROP TABLE IF EXISTS chain_events;
+    DROP TABLE IF EXISTS chain_blocks;
+    DROP TABLE IF EXISTS chain_cursors;
+  `
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import type { Migration } from '../services/migrations';
+
+// Reconciliation reports: per-game money totals, wallet balances and the discrepancies found
+const migration: Migration = {
+  version: 14,
+  name: 'reconciliation_reports',
+  up: `
+    CREATE TABLE IF NOT EXISTS reconciliation_reports (
+      id SERIAL PRIMARY KEY,
+      status VARCHAR(20) NOT NULL,
+      games JSONB NOT NULL,
+      balances JSONB NOT NULL,
+      discrepancies JSONB NOT NULL,
+      error TEXT,
+      started_at BIGINT NOT NULL,
+      finished_at BIGINT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_reconciliation_reports_started ON reconciliation_reports(started_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS reconciliation_reports;
+  `
+};
+
+export default migration;
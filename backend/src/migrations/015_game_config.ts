@@ -0,0 +1,17 @@
+import type { Migration } from '../services/migrations';
+
+// Per-game entry fee, fee split, duration and entry limit; existing games keep the terms they ran under
+const migration: Migration = {
+  version: 15,
+  name: 'game_config',
+  up: `
+    ALTER TABLE games ADD COLUMN config JSONB;
+    UPDATE games SET config = '{"entryFee": "0.05", "currency": "USDC", "platformFeeBps": 1000, "durationMs": 3600000, "maxEntries": null}';
+    ALTER TABLE games ALTER COLUMN config SET NOT NULL;
+  `,
+  down: `
+    ALTER TABLE games DROP COLUMN IF EXISTS config;
+  `
+};
+
+export default migration;
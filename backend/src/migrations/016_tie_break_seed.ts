@@ -0,0 +1,15 @@
+import type { Migration } from '../services/migrations';
+
+// Seed of each game's random tie-break step, fixed the first time it is needed
+const migration: Migration = {
+  version: 16,
+  name: 'tie_break_seed',
+  up: `
+    ALTER TABLE games ADD COLUMN tie_break_seed JSONB;
+  `,
+  down: `
+    ALTER TABLE games DROP COLUMN IF EXISTS tie_break_seed;
+  `
+};
+
+export default migration;
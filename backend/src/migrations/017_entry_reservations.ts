@@ -0,0 +1,20 @@
+import type { Migration } from '../services/migrations';
+
+// Entry slots held for players while their x402 payment settles
+const migration: Migration = {
+  version: 17,
+  name: 'entry_reservations',
+  up: `
+    CREATE TABLE entry_reservations (
+      game_id INTEGER NOT NULL,
+      player_address VARCHAR(42) NOT NULL,
+      expires_at BIGINT NOT NULL,
+      PRIMARY KEY (game_id, player_address)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS entry_reservations;
+  `
+};
+
+export default migration;
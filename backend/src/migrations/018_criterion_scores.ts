@@ -0,0 +1,52 @@
+import type { Migration } from '../services/migrations';
+
+// Criterion scores keyed by the game's rubric criteria instead of fixed
+// creativity / technique / theme columns. Going down keeps only those three.
+const migration: Migration = {
+  version: 18,
+  name: 'criterion_scores',
+  up: `
+    ALTER TABLE entries ADD COLUMN criterion_scores JSONB;
+    UPDATE entries
+      SET criterion_scores = jsonb_build_object(
+        'creativity', score_creativity, 'technique', score_technique, 'theme', score_theme
+      )
+      WHERE score_creativity IS NOT NULL;
+    ALTER TABLE entries
+      DROP COLUMN score_creativity,
+      DROP COLUMN score_technique,
+      DROP COLUMN score_theme;
+
+    ALTER TABLE judge_scores ADD COLUMN criteria JSONB;
+    UPDATE judge_scores
+      SET criteria = jsonb_build_object('creativity', creativity, 'technique', technique, 'theme', theme);
+    ALTER TABLE judge_scores
+      ALTER COLUMN criteria SET NOT NULL,
+      DROP COLUMN creativity,
+      DROP COLUMN technique,
+      DROP COLUMN theme;
+  `,
+  down: `
+    ALTER TABLE judge_scores
+      ADD COLUMN creativity REAL,
+      ADD COLUMN technique REAL,
+      ADD COLUMN theme REAL;
+    UPDATE judge_scores SET
+      creativity = (criteria->>'creativity')::REAL,
+      technique = (criteria->>'technique')::REAL,
+      theme = (criteria->>'theme')::REAL;
+    ALTER TABLE judge_scores DROP COLUMN criteria;
+
+    ALTER TABLE entries
+      ADD COLUMN score_creativity REAL,
+      ADD COLUMN score_technique REAL,
+      ADD COLUMN score_theme REAL;
+    UPDATE entries SET
+      score_creativity = (criterion_scores->>'creativity')::REAL,
+      score_technique = (criterion_scores->>'technique')::REAL,
+      score_theme = (criterion_scores->>'theme')::REAL;
+    ALTER TABLE entries DROP COLUMN criterion_scores;
+  `
+};
+
+export default migration;
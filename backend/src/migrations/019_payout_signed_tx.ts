@@ -0,0 +1,21 @@
+import type { Migration } from '../services/migrations';
+
+// Payouts are signed and stored before they are broadcast, so a restart
+// re-broadcasts the same transaction instead of signing a second transfer
+const migration: Migration = {
+  version: 19,
+  name: 'payout_signed_tx',
+  up: `
+    ALTER TABLE payouts
+      ADD COLUMN nonce INTEGER,
+      ADD COLUMN signed_tx TEXT;
+  `,
+  down: `
+    UPDATE payouts SET status = 'sent' WHERE status = 'sending';
+    ALTER TABLE payouts
+      DROP COLUMN nonce,
+      DROP COLUMN signed_tx;
+  `
+};
+
+export default migration;
@@ -0,0 +1,43 @@
+import type { Migration } from '../services/migrations';
+import initialSchema from './001_initial_schema';
+import consumedPayments from './002_consumed_payments';
+import paymentDetails from './003_payment_details';
+import paymentIntents from './004_payment_intents';
+import payouts from './005_payouts';
+import finalizationJobs from './006_finalization_jobs';
+import jobLocks from './007_job_locks';
+import judgePanel from './008_judge_panel';
+import gameJudgingMode from './009_game_judging_mode';
+import gameThemeRubric from './010_game_theme_rubric';
+import judgingRuns from './011_judging_runs';
+import tieBreak from './012_tie_break';
+import chainIndex from './013_chain_index';
+import reconciliationReports from './014_reconciliation_reports';
+import gameConfig from './015_game_config';
+import tieBreakSeed from './016_tie_break_seed';
+import entryReservations from './017_entry_reservations';
+import criterionScores from './018_criterion_scores';
+import payoutSignedTx from './019_payout_signed_tx';
+
+// All known migrations, in version order. Append new migrations here.
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  consumedPayments,
+  paymentDetails,
+  paymentIntents,
+  payouts,
+  finalizationJobs,
+  jobLocks,
+  judgePanel,
+  gameJudgingMode,
+  gameThemeRubric,
+  judgingRuns,
+  tieBreak,
+  chainIndex,
+  reconciliationReports,
+  gameConfig,
+  tieBreakSeed,
+  entryReservations,
+  criterionScores,
+  payoutSignedTx
+];
@@ -0,0 +1,273 @@
+import {
+  BlockNotFoundError,
+  keccak256,
+  parseAbi,
+  toHex,
+  type Address,
+  type Chain,
+  type Log,
+  type PublicClient,
+  type Transport
+} from 'viem';
+import { prizePoolAbi } from '../contracts/prize-pool';
+import type { ChainCursor, ChainEvent, GameRepository, IndexedBlock } from './game-repository';
+
+// PrizePool events the indexer keeps
+export const PRIZE_POOL_EVENTS = ['GameStarted', 'EntrySubmitted', 'GameFinalized'] as const;
+
+const USDC_TRANSFER_EVENT = parseAbi(['event Transfer(address indexed from, address indexed to, uint256 value)']);
+
+/**
+ * Where the indexer reads blocks and events from
+ */
+export interface ChainSource {
+  /** Latest block number */
+  getBlockNumber(): Promise<number>;
+  /** Hash of a canonical block; null when the chain has no such block (yet) */
+  getBlockHash(blockNumber: number): Promise<string | null>;
+  /** Events of the blocks from..to (inclusive), in chain order */
+  getEvents(fromBlock: number, toBlock: number): Promise<ChainEvent[]>;
+}
+
+export interface ChainIndexerOptions {
+  /** Cursor name, so several indexers can share the tables */
+  name: string;
+  /** Blocks below the head before an event is final */
+  confirmations: number;
+  /** First block to index when there is no cursor; null starts at the current head */
+  startBlock: number | null;
+  /** Most blocks indexed per poll */
+  batchSize: number;
+}
+
+export interface ChainIndexRun {
+  head: number;
+  /** Last block indexed; null before the first block is reached */
+  indexedThrough: number | null;
+  /** Events stored by this poll */
+  events: number;
+  /** Unconfirmed events dropped because of a reorg */
+  rolledBack: number;
+  caughtUp: boolean;
+}
+
+// Decoded event arguments with integers as decimal strings
+function serializeArgs(args: Record<string, unknown>): Record<string, string | boolean> {
+  const serialized: Record<string, string | boolean> = {};
+  for (const [key, value] of Object.entries(args)) {
+    serialized[key] = typeof value === 'boolean' ? value : String(value);
+  }
+  return serialized;
+}
+
+// ============ Sources ============
+
+/**
+ * Reads PrizePool events and USDC transfers to or from the watched wallets
+ * over JSON-RPC
+ */
+export class ViemChainSource<TChain extends Chain = Chain> implements ChainSource {
+  constructor(
+    private publicClient: PublicClient<Transport, TChain>,
+    private contracts: { prizePool: Address | null; usdc: Address; wallets: Address[] }
+  ) {}
+
+  async getBlockNumber(): Promise<number> {
+    return Number(await this.publicClient.getBlockNumber());
+  }
+
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    try {
+      const block = await this.publicClient.getBlock({ blockNumber: BigInt(blockNumber) });
+      return block.hash;
+    } catch (error) {
+      if (error instanceof BlockNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getEvents(fromBlock: number, toBlock: number): Promise<ChainEvent[]> {
+    const range = { fromBlock: BigInt(fromBlock), toBlock: BigInt(toBlock), strict: true } as const;
+    const logs: Array<Log<bigint, number, false> & { eventName: string; args: unknown }> = [];
+
+    if (this.contracts.prizePool) {
+      const events = await this.publicClient.getContractEvents({
+        address: this.contracts.prizePool,
+        abi: prizePoolAbi,
+        ...range
+      });
+      logs.push(...events.filter(e => (PRIZE_POOL_EVENTS as readonly string[]).includes(e.eventName)));
+    }
+
+    const wallets = this.contracts.wallets;
+    if (wallets.length > 0) {
+      const [incoming, outgoing] = await Promise.all([
+        this.publicClient.getContractEvents({
+          address: this.contracts.usdc,
+          abi: USDC_TRANSFER_EVENT,
+          eventName: 'Transfer',
+          args: { to: wallets },
+          ...range
+        }),
+        this.publicClient.getContractEvents({
+          address: this.contracts.usdc,
+          abi: USDC_TRANSFER_EVENT,
+          eventName: 'Transfer',
+          args: { from: wallets },
+          ...range
+        })
+      ]);
+      logs.push(...incoming, ...outgoing);
+    }
+
+    const events = new Map<string, ChainEvent>();
+    for (const log of logs) {
+      events.set(`${log.transactionHash}:${log.logIndex}`, {
+        blockNumber: Number(log.blockNumber),
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+        address: log.address,
+        eventName: log.eventName,
+        args: serializeArgs(log.args as Record<string, unknown>)
+      });
+    }
+
+    return [...events.values()].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+}
+
+/**
+ * Stand-in for a local chain: blocks are mined on demand with the given
+ * events and can be replaced by a reorg, so the indexer can be driven
+ * without an RPC node.
+ */
+export class LocalChainSource implements ChainSource {
+  private blocks: Array<{ hash: string; events: ChainEvent[] }> = [];
+  private fork = 0;
+
+  /** Mine a block containing events (addressed by position within the block) */
+  mine(events: Array<Omit<ChainEvent, 'blockNumber' | 'blockHash' | 'logIndex'>> = []): IndexedBlock {
+    const number = this.blocks.length;
+    const hash = keccak256(toHex(`block:${number}:${this.fork}`));
+    this.blocks.push({
+      hash,
+      events: events.map((event, logIndex) => ({ ...event, blockNumber: number, blockHash: hash, logIndex }))
+    });
+    return { number, hash };
+  }
+
+  /** Drop the latest `depth` blocks; blocks mined afterwards get new hashes */
+  reorg(depth: number): void {
+    this.blocks.splice(this.blocks.length - depth, depth);
+    this.fork++;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.blocks.length - 1;
+  }
+
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    return this.blocks[blockNumber]?.hash ?? null;
+  }
+
+  async getEvents(fromBlock: number, toBlock: number): Promise<ChainEvent[]> {
+    return this.blocks.slice(fromBlock, toBlock + 1).flatMap(block => block.events.map(e => ({ ...e, args: { ...e.args } })));
+  }
+}
+
+// ============ Indexer ============
+
+/**
+ * Follows the chain from a stored cursor and persists the events of each
+ * block range. Events deeper than the confirmation depth are confirmed; the
+ * hashes of newer blocks are kept so a reorg is noticed on the next poll and
+ * the unconfirmed events above the common ancestor are rolled back.
+ */
+export class ChainIndexer {
+  constructor(
+    private repo: GameRepository,
+    private source: ChainSource,
+    private options: ChainIndexerOptions
+  ) {}
+
+  get name(): string {
+    return this.options.name;
+  }
+
+  /** Index the next batch of blocks, first rolling back a reorg if there was one */
+  async poll(): Promise<ChainIndexRun> {
+    const { name, confirmations, batchSize } = this.options;
+    const head = await this.source.getBlockNumber();
+    let cursor = await this.repo.getChainCursor(name);
+    let rolledBack = 0;
+
+    if (cursor && (await this.source.getBlockHash(cursor.blockNumber)) !== cursor.blockHash) {
+      const ancestor = await this.findCommonAncestor(cursor);
+      rolledBack = await this.repo.rollbackChainIndex(name, ancestor);
+      console.log(`   🔀 Reorg below block ${cursor.blockNumber}: rolled back to block ${ancestor.number}, dropped ${rolledBack} events`);
+      cursor = { ...cursor, blockNumber: ancestor.number, blockHash: ancestor.hash };
+    }
+
+    const fromBlock = cursor ? cursor.blockNumber + 1 : (this.options.startBlock ?? head);
+    if (fromBlock > head) {
+      return { head, indexedThrough: cursor?.blockNumber ?? null, events: 0, rolledBack, caughtUp: true };
+    }
+
+    const toBlock = Math.min(head, fromBlock + batchSize - 1);
+    const confirmedThrough = Math.max(fromBlock - 1, Math.min(toBlock, head - confirmations));
+    const events = await this.source.getEvents(fromBlock, toBlock);
+
+    const hashes = new Map<number, string>();
+    for (let n = Math.max(fromBlock, confirmedThrough + 1); n <= toBlock; n++) {
+      hashes.set(n, await this.blockHash(n));
+    }
+    const headHash = hashes.get(toBlock) ?? await this.blockHash(toBlock);
+
+    // Events read from a block that has since been replaced are retried on the next poll
+    const stale = events.find(e => hashes.has(e.blockNumber) && hashes.get(e.blockNumber) !== e.blockHash);
+    if (stale) {
+      throw new Error(`Block ${stale.blockNumber} changed while indexing; retrying on the next poll`);
+    }
+
+    await this.repo.saveChainBatch(name, {
+      events,
+      blocks: [...hashes].map(([number, hash]) => ({ number, hash })),
+      head: { number: toBlock, hash: headHash },
+      confirmedThrough
+    });
+
+    return { head, indexedThrough: toBlock, events: events.length, rolledBack, caughtUp: toBlock === head };
+  }
+
+  private async blockHash(blockNumber: number): Promise<string> {
+    const hash = await this.source.getBlockHash(blockNumber);
+    if (!hash) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    return hash;
+  }
+
+  /**
+   * Newest indexed block still on the canonical chain. When every unconfirmed
+   * block was replaced, the last confirmed block is taken as final.
+   */
+  private async findCommonAncestor(cursor: ChainCursor): Promise<IndexedBlock> {
+    const blocks = await this.repo.getIndexedBlocks(this.options.name);
+    if (blocks.length === 0) {
+      throw new Error(
+        `Confirmed block ${cursor.blockNumber} was reorged; the reorg is deeper than ${this.options.confirmations} confirmations`
+      );
+    }
+
+    for (const block of [...blocks].reverse()) {
+      if ((await this.source.getBlockHash(block.number)) === block.hash) {
+        return block;
+      }
+    }
+
+    return { number: cursor.confirmedBlockNumber, hash: await this.blockHash(cursor.confirmedBlockNumber) };
+  }
+}
@@ -0,0 +1,148 @@
+import { formatUnits, isAddressEqual, type Chain } from 'viem';
+import type { PrizePoolContract, PrizePoolEntry } from '../contracts/prize-pool';
+import type { EntryRecord, GameRepository, PaymentRef } from './game-repository';
+
+/*
+ * Contract mode: the PrizePool contract is the record of who entered a game
+ * and the database mirrors it, with the same game IDs. Both allow one entry
+ * per player per game, so entries are matched on the player address.
+ */
+
+export type EntryTransactionVerification =
+  | { valid: true; payment: PaymentRef; endTime: number }
+  | { valid: false; error: string };
+
+/**
+ * Verify that a transaction entered `playerAddress` into game `gameId` through
+ * PrizePool.submitEntry with `imageUrl`. On success returns the entry fee as a
+ * payment (the EntrySubmitted log) and the on-chain end of the game in ms.
+ */
+export async function verifyEntryTransaction<TChain extends Chain>(
+  prizePool: PrizePoolContract<TChain>,
+  gameId: number,
+  playerAddress: string,
+  imageUrl: string,
+  txHash: `0x${string}`
+): Promise<EntryTransactionVerification> {
+  try {
+    const submission = await prizePool.getEntrySubmission(txHash);
+    if (!submission) {
+      return { valid: false, error: 'Transaction did not submit a PrizePool entry' };
+    }
+
+    if (!isAddressEqual(submission.player, playerAddress as `0x${string}`)) {
+      return { valid: false, error: 'Entry was not submitted by the submitting wallet' };
+    }
+
+    if (Number(submission.gameId) !== gameId) {
+      return { valid: false, error: `Entry is for contract game #${submission.gameId}, current game is #${gameId}` };
+    }
+
+    if (submission.imageUri !== imageUrl) {
+      return { valid: false, error: 'Image URL does not match the image submitted on-chain' };
+    }
+
+    const [fee, game] = await Promise.all([prizePool.entryFee(), prizePool.getGame(submission.gameId)]);
+    return {
+      valid: true,
+      payment: {
+        txHash,
+        logIndex: submission.logIndex,
+        amount: formatUnits(fee, 6),
+        from: submission.player,
+        to: prizePool.address,
+        blockNumber: Number(submission.blockNumber)
+      },
+      endTime: Number(game.endTime) * 1000
+    };
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : 'Verification failed'
+    };
+  }
+}
+
+// Database entry mirroring an on-chain entry, if any
+function findMirror(entries: EntryRecord[], onChain: PrizePoolEntry): EntryRecord | undefined {
+  return entries.find(e => isAddressEqual(e.playerAddress as `0x${string}`, onChain.player));
+}
+
+/**
+ * Entries of a game as recorded by the contract, in getGameEntries order.
+ * Entries paid on-chain but never sent to the API are added to the database
+ * (found through their EntrySubmitted event, searched from `fromBlock`),
+ * counted into the game's prize pool, and start the database game with the
+ * contract's end time if no entry did yet. Database entries that are not
+ * on-chain are left out.
+ */
+export async function syncContractEntries<TChain extends Chain>(
+  repo: GameRepository,
+  prizePool: PrizePoolContract<TChain>,
+  gameId: number,
+  fromBlock: bigint
+): Promise<EntryRecord[]> {
+  const [onChainGame, currentGameId] = await Promise.all([prizePool.getGame(BigInt(gameId)), prizePool.currentGameId()]);
+  if (BigInt(gameId) > currentGameId || onChainGame.startTime === BigInt(0)) {
+    throw new Error(`Game #${gameId} has no PrizePool game (contract is at game #${currentGameId}); database and contract game IDs are out of step`);
+  }
+
+  const onChain = await prizePool.getGameEntries(BigInt(gameId));
+  const game = await repo.getOrCreateGame(gameId);
+  let entries = await repo.getAllEntriesForGame(gameId);
+
+  const missing = onChain.filter(e => !findMirror(entries, e));
+  for (const entry of missing) {
+    const [submission] = await prizePool.getEntrySubmissions(BigInt(gameId), fromBlock, entry.player);
+    if (!submission) {
+      throw new Error(`No EntrySubmitted event found for ${entry.player} in game #${gameId} since block ${fromBlock}`);
+    }
+
+    await repo.addEntry(gameId, entry.imageUri, 'Untitled', entry.player, {
+      txHash: submission.transactionHash,
+      logIndex: submission.logIndex,
+      amount: formatUnits(await prizePool.entryFee(), 6),
+      from: entry.player,
+      to: prizePool.address,
+      blockNumber: Number(submission.blockNumber)
+    });
+    console.log(`   🔗 Mirrored on-chain entry of ${entry.player} in game #${gameId}`);
+  }
+
+  if (missing.length > 0) {
+    entries = await repo.getAllEntriesForGame(gameId);
+  }
+
+  if (!game.started && onChain.length > 0) {
+    await repo.startGameTimer(gameId, Number(onChainGame.endTime) * 1000 - Date.now());
+    console.log(`   🔗 Started game #${gameId} from its on-chain entries`);
+  }
+
+  const mirrored = onChain.map(e => findMirror(entries, e)!);
+  const offChain = entries.length - mirrored.length;
+  if (offChain > 0) {
+    console.log(`   ⚠️ Ignoring ${offChain} entries of game #${gameId} that are not on the PrizePool contract`);
+  }
+  return mirrored;
+}
+
+/**
+ * Index of the winning entry in getGameEntries order, checked against the
+ * contract so finalizeGame pays exactly the entry the judges picked
+ */
+export async function contractWinnerIndex<TChain extends Chain>(
+  prizePool: PrizePoolContract<TChain>,
+  gameId: number,
+  winner: EntryRecord
+): Promise<bigint> {
+  const onChain = await prizePool.getGameEntries(BigInt(gameId));
+  const index = onChain.findIndex(e => isAddressEqual(e.player, winner.playerAddress as `0x${string}`));
+
+  if (index === -1) {
+    throw new Error(`Winning entry ${winner.id} of game #${gameId} is not on the PrizePool contract`);
+  }
+  if (onChain[index].imageUri !== winner.imageUrl) {
+    throw new Error(`Winning entry ${winner.id} of game #${gameId} has a different image on the PrizePool contract`);
+  }
+  return BigInt(index);
+}
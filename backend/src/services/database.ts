@@ -1,391 +1,1117 @@
-import { Pool } from 'pg';
+import { Pool, type PoolClient } from 'pg';
+import {
+  entryRejection,
+  PaymentAlreadyConsumedError,
+  WHOLE_TRANSACTION_LOG_INDEX,
+  type ArenaStats,
+  type ChainCursor,
+  type ChainEventRecord,
+  type ChainIndexBatch,
+  type ConsumedPaymentRecord,
+  type EntryRecord,
+  type ExpiredGame,
+  type GameRecord,
+  type GameSettingsUpdate,
+  type FinalizationJob,
+  type FinalizationJobUpdate,
+  type FinalizationState,
+  type GameRepository,
+  type IndexedBlock,
+  type JobLock,
+  type JudgingRecord,
+  type JudgingRun,
+  type NewJudgingRun,
+  type NewReconciliationReport,
+  type PanelScore,
+  type PaymentRef,
+  type PayoutKind,
+  type PayoutRecord,
+  type PayoutStatus,
+  type PayoutUpdate,
+  type ReconciliationReport
+} from './game-repository';
+import type { TieBreakSeed } from './tie-break';
+import type { PaymentIntent } from './x402-payment';
+import { DEFAULT_RUBRIC } from './rubric';
+import { DEFAULT_GAME_CONFIG } from './game-config';
+import { assertSchemaSupported, getMigrationStatus, LATEST_SCHEMA_VERSION, migrateUp } from './migrations';
 
 // Database connection
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-  ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
-});
-
-// Initialize database tables
-export async function initDatabase(): Promise<void> {
-  console.log('📦 Initializing database...');
-  
-  try {
-    // Create games table
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS games (
-        id SERIAL PRIMARY KEY,
-        game_id INTEGER UNIQUE NOT NULL,
-        start_time BIGINT NOT NULL,
-        end_time BIGINT NOT NULL DEFAULT 0,
-        prize_pool DECIMAL(20, 6) DEFAULT 0,
-        entry_count INTEGER DEFAULT 0,
-        started BOOLEAN DEFAULT FALSE,
-        finalized BOOLEAN DEFAULT FALSE,
-        winner_address VARCHAR(42),
-        winner_title VARCHAR(255),
-        winner_score INTEGER,
-        winner_image_url TEXT,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Add started column if it doesn't exist (migration for existing tables)
-    await pool.query(`
-      ALTER TABLE games ADD COLUMN IF NOT EXISTS started BOOLEAN DEFAULT FALSE
-    `);
-
-    // Create entries table
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS entries (
-        id SERIAL PRIMARY KEY,
-        game_id INTEGER NOT NULL,
-        image_url TEXT NOT NULL,
-        title VARCHAR(255) NOT NULL,
-        player_address VARCHAR(42) NOT NULL,
-        payment_tx_hash VARCHAR(66) NOT NULL,
-        score_creativity INTEGER,
-        score_technique INTEGER,
-        score_theme INTEGER,
-        score_total INTEGER,
-        reasoning TEXT,
-        is_winner BOOLEAN DEFAULT FALSE,
-        submitted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(game_id, player_address)
-      )
-    `);
-
-    // Create index for faster queries
-    await pool.query(`
-      CREATE INDEX IF NOT EXISTS idx_entries_game_id ON entries(game_id)
-    `);
-
-    console.log('✅ Database initialized');
-  } catch (error) {
-    console.error('❌ Database initialization failed:', error);
-    throw error;
-  }
+export function createPool(connectionString: string): Pool {
+  return new Pool({
+    connectionString,
+    ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+  });
 }
 
-// Game duration: 1 hour (in milliseconds)
-const GAME_DURATION_MS = 1 * 60 * 60 * 1000;
-
-// Game operations
-export async function getOrCreateGame(gameId: number): Promise<{
-  gameId: number;
-  startTime: number;
-  endTime: number;
-  prizePool: string;
-  entryCount: number;
-  finalized: boolean;
-  started: boolean;
-}> {
-  // Try to get existing game
-  const result = await pool.query(
-    'SELECT * FROM games WHERE game_id = $1',
-    [gameId]
-  );
-
-  if (result.rows.length > 0) {
-    const game = result.rows[0];
-    return {
-      gameId: game.game_id,
-      startTime: parseInt(game.start_time),
-      endTime: parseInt(game.end_time),
-      prizePool: game.prize_pool || '0',
-      entryCount: game.entry_count || 0,
-      finalized: game.finalized,
-      started: game.started || false
-    };
-  }
-
-  // Create new game (not started yet - waits for first entry)
-  const now = Date.now();
-
-  await pool.query(
-    'INSERT INTO games (game_id, start_time, end_time, started) VALUES ($1, $2, $3, $4)',
-    [gameId, now, 0, false]  // endTime = 0 means not started
-  );
-
+function rowToGame(row: any): GameRecord {
   return {
-    gameId,
-    startTime: now,
-    endTime: 0,
-    prizePool: '0',
-    entryCount: 0,
-    finalized: false,
-    started: false
+    gameId: row.game_id,
+    startTime: parseInt(row.start_time),
+    endTime: parseInt(row.end_time),
+    prizePool: row.prize_pool || '0',
+    entryCount: row.entry_count || 0,
+    finalized: row.finalized,
+    started: row.started || false,
+    judgingMode: row.judging_mode ?? 'scores',
+    theme: row.theme ?? null,
+    rubric: row.rubric ?? DEFAULT_RUBRIC,
+    config: row.config,
+    tieBreakSeed: row.tie_break_seed ?? null,
+    winnerAddress: row.winner_address ?? undefined,
+    winnerTitle: row.winner_title ?? undefined,
+    winnerScore: row.winner_score ?? undefined,
+    winnerImageUrl: row.winner_image_url ?? undefined
   };
 }
 
-// Start game timer when first entry arrives
-export async function startGameTimer(gameId: number): Promise<{ startTime: number; endTime: number; updated: boolean }> {
-  const now = Date.now();
-  const endTime = now + GAME_DURATION_MS; // 1 hour from now
-
-  const result = await pool.query(
-    'UPDATE games SET start_time = $1, end_time = $2, started = TRUE WHERE game_id = $3 AND started = FALSE RETURNING end_time',
-    [now, endTime, gameId]
-  );
-
-  if (result.rowCount && result.rowCount > 0) {
-    console.log(`🎮 Game #${gameId} started! Ends at ${new Date(endTime).toISOString()}`);
-    return { startTime: now, endTime, updated: true };
-  } else {
-    // Game was already started - fetch current end_time
-    const existing = await pool.query('SELECT start_time, end_time FROM games WHERE game_id = $1', [gameId]);
-    if (existing.rows.length > 0) {
-      console.log(`⚠️ Game #${gameId} already started, current endTime: ${existing.rows[0].end_time}`);
-      return { 
-        startTime: parseInt(existing.rows[0].start_time), 
-        endTime: parseInt(existing.rows[0].end_time),
-        updated: false 
-      };
-    }
-    return { startTime: now, endTime, updated: false };
-  }
+function rowToEntry(row: any): EntryRecord {
+  return {
+    id: row.id,
+    gameId: row.game_id,
+    imageUrl: row.image_url,
+    title: row.title,
+    playerAddress: row.player_address,
+    submittedAt: new Date(row.submitted_at).getTime(),
+    criterionScores: row.criterion_scores ?? undefined,
+    scoreTotal: row.score_total ?? undefined,
+    reasoning: row.reasoning ?? undefined,
+    isWinner: row.is_winner
+  };
 }
 
-// Get active (not finalized) games that have ended
-export async function getExpiredGames(): Promise<Array<{
-  gameId: number;
-  entryCount: number;
-  prizePool: string;
-}>> {
-  const now = Date.now();
-  const result = await pool.query(
-    `SELECT game_id, entry_count, prize_pool 
-     FROM games 
-     WHERE finalized = FALSE 
-       AND started = TRUE 
-       AND end_time > 0 
-       AND end_time < $1 
-       AND entry_count > 0`,
-    [now]
-  );
-
-  return result.rows.map(row => ({
+function rowToConsumedPayment(row: any): ConsumedPaymentRecord {
+  return {
+    txHash: row.tx_hash,
+    logIndex: row.log_index,
     gameId: row.game_id,
-    entryCount: row.entry_count || 0,
-    prizePool: row.prize_pool || '0'
-  }));
+    entryId: row.entry_id,
+    playerAddress: row.player_address,
+    amount: row.amount,
+    payerAddress: row.payer_address,
+    recipientAddress: row.recipient_address,
+    blockNumber: row.block_number !== null ? parseInt(row.block_number) : null,
+    consumedAt: new Date(row.consumed_at).getTime()
+  };
 }
 
-// Create next game (called after finalization)
-export async function createNextGame(): Promise<number> {
-  // Find highest game_id
-  const result = await pool.query('SELECT MAX(game_id) as max_id FROM games');
-  const nextGameId = (result.rows[0]?.max_id || 0) + 1;
-
-  const now = Date.now();
-  await pool.query(
-    'INSERT INTO games (game_id, start_time, end_time, started) VALUES ($1, $2, $3, $4)',
-    [nextGameId, now, 0, false]
-  );
-
-  console.log(`🆕 New game #${nextGameId} created (waiting for first entry)`);
-  return nextGameId;
+function rowToPaymentIntent(row: any): PaymentIntent {
+  return {
+    id: row.id,
+    amount: parseFloat(row.amount).toString(),
+    recipientAddress: row.recipient_address,
+    chainId: row.chain_id,
+    status: row.status,
+    createdAt: parseInt(row.created_at),
+    expiresAt: parseInt(row.expires_at),
+    metadata: {
+      gameId: row.game_id,
+      playerAddress: row.player_address
+    },
+    paidTxHash: row.paid_tx_hash ?? undefined,
+    paidAt: row.paid_at !== null ? parseInt(row.paid_at) : undefined,
+    entryId: row.entry_id ?? undefined
+  };
 }
 
-// Get latest game ID
-export async function getLatestGameId(): Promise<number> {
-  const result = await pool.query('SELECT MAX(game_id) as max_id FROM games');
-  return result.rows[0]?.max_id || 1;
+function rowToPayout(row: any): PayoutRecord {
+  return {
+    id: row.id,
+    gameId: row.game_id,
+    kind: row.kind,
+    recipientAddress: row.recipient_address,
+    amount: parseFloat(row.amount).toString(),
+    txHash: row.tx_hash,
+    nonce: row.nonce,
+    signedTx: row.signed_tx,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    blockNumber: row.block_number !== null ? parseInt(row.block_number) : null,
+    createdAt: parseInt(row.created_at),
+    updatedAt: parseInt(row.updated_at)
+  };
 }
 
-export async function updateGamePrizePool(gameId: number, amount: string): Promise<void> {
-  await pool.query(
-    'UPDATE games SET prize_pool = prize_pool + $1, entry_count = entry_count + 1 WHERE game_id = $2',
-    [parseFloat(amount), gameId]
-  );
+function rowToFinalizationJob(row: any): FinalizationJob {
+  return {
+    gameId: row.game_id,
+    state: row.state,
+    winnerEntryId: row.winner_entry_id,
+    contractTxHash: row.contract_tx_hash,
+    nextGameId: row.next_game_id,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    reviewReason: row.review_reason,
+    reviewedAt: row.reviewed_at !== null ? parseInt(row.reviewed_at) : null,
+    tieBreak: row.tie_break ?? null,
+    createdAt: parseInt(row.created_at),
+    updatedAt: parseInt(row.updated_at)
+  };
 }
 
-export async function finalizeGame(
-  gameId: number,
-  winnerAddress: string,
-  winnerTitle: string,
-  winnerScore: number,
-  winnerImageUrl: string
-): Promise<void> {
-  await pool.query(
-    `UPDATE games SET 
-      finalized = TRUE, 
-      winner_address = $1, 
-      winner_title = $2, 
-      winner_score = $3,
-      winner_image_url = $4
-    WHERE game_id = $5`,
-    [winnerAddress, winnerTitle, winnerScore, winnerImageUrl, gameId]
-  );
-
-  // Mark winner in entries
-  await pool.query(
-    'UPDATE entries SET is_winner = TRUE WHERE game_id = $1 AND player_address = $2',
-    [gameId, winnerAddress]
-  );
+function rowToJudgingRun(row: any): JudgingRun {
+  return {
+    id: row.id,
+    gameId: row.game_id,
+    trigger: row.triggered_by,
+    mode: row.mode,
+    judges: row.judges,
+    estimatedCost: row.estimated_cost,
+    success: row.success,
+    error: row.error ?? null,
+    result: row.result ?? null,
+    invocations: row.invocations,
+    startedAt: parseInt(row.started_at),
+    finishedAt: parseInt(row.finished_at)
+  };
 }
 
-// Entry operations
-export async function addEntry(
-  gameId: number,
-  imageUrl: string,
-  title: string,
-  playerAddress: string,
-  paymentTxHash: string
-): Promise<{ id: number }> {
-  const result = await pool.query(
-    `INSERT INTO entries (game_id, image_url, title, player_address, payment_tx_hash)
-     VALUES ($1, $2, $3, $4, $5)
-     RETURNING id`,
-    [gameId, imageUrl, title, playerAddress.toLowerCase(), paymentTxHash]
-  );
-  
-  return { id: result.rows[0].id };
+function rowToPanelScore(row: any): PanelScore {
+  return {
+    judge: row.judge,
+    entryId: row.entry_id,
+    criteria: row.criteria,
+    total: row.total,
+    reasoning: row.reasoning ?? ''
+  };
 }
 
-export async function getEntriesForGame(gameId: number): Promise<Array<{
-  id: number;
-  imageUrl: string;
-  title: string;
-  playerAddress: string;
-  submittedAt: number;
-  scoreTotal?: number;
-  isWinner: boolean;
-}>> {
-  const result = await pool.query(
-    `SELECT id, image_url, title, player_address, submitted_at, score_total, is_winner
-     FROM entries 
-     WHERE game_id = $1 
-     ORDER BY submitted_at DESC`,
-    [gameId]
-  );
-
-  return result.rows.map(row => ({
+function rowToChainEvent(row: any): ChainEventRecord {
+  return {
     id: row.id,
-    imageUrl: row.image_url,
-    title: row.title,
-    playerAddress: row.player_address,
-    submittedAt: new Date(row.submitted_at).getTime(),
-    scoreTotal: row.score_total,
-    isWinner: row.is_winner
-  }));
+    indexer: row.indexer,
+    blockNumber: parseInt(row.block_number),
+    blockHash: row.block_hash,
+    txHash: row.tx_hash,
+    logIndex: row.log_index,
+    address: row.address,
+    eventName: row.event_name,
+    args: row.args,
+    confirmed: row.confirmed,
+    indexedAt: parseInt(row.indexed_at)
+  };
 }
 
-export async function hasPlayerEntered(gameId: number, playerAddress: string): Promise<boolean> {
-  const result = await pool.query(
-    'SELECT 1 FROM entries WHERE game_id = $1 AND player_address = $2',
-    [gameId, playerAddress.toLowerCase()]
-  );
-  return result.rows.length > 0;
+function rowToReconciliationReport(row: any): ReconciliationReport {
+  return {
+    id: row.id,
+    status: row.status,
+    games: row.games,
+    balances: row.balances,
+    discrepancies: row.discrepancies,
+    error: row.error ?? null,
+    startedAt: parseInt(row.started_at),
+    finishedAt: parseInt(row.finished_at)
+  };
 }
 
-export async function updateEntryScores(
-  gameId: number,
-  playerAddress: string,
-  creativity: number,
-  technique: number,
-  theme: number,
-  reasoning: string
-): Promise<void> {
-  const total = creativity + technique + theme;
-  await pool.query(
-    `UPDATE entries SET 
-      score_creativity = $1, 
-      score_technique = $2, 
-      score_theme = $3, 
-      score_total = $4,
-      reasoning = $5
-     WHERE game_id = $6 AND player_address = $7`,
-    [creativity, technique, theme, total, reasoning, gameId, playerAddress.toLowerCase()]
-  );
-}
+// FinalizationJobUpdate field -> finalization_jobs column
+const FINALIZATION_JOB_COLUMNS: Record<keyof FinalizationJobUpdate, string> = {
+  contractTxHash: 'contract_tx_hash',
+  attempts: 'attempts',
+  lastError: 'last_error',
+  reviewedAt: 'reviewed_at'
+};
 
-// History operations
-export async function getPastGames(limit: number = 10): Promise<Array<{
-  gameId: number;
-  startTime: number;
-  endTime: number;
-  prizePool: string;
-  entryCount: number;
-  winnerAddress?: string;
-  winnerTitle?: string;
-  winnerScore?: number;
-  winnerImageUrl?: string;
-}>> {
-  const result = await pool.query(
-    `SELECT * FROM games 
-     WHERE finalized = TRUE 
-     ORDER BY game_id DESC 
-     LIMIT $1`,
-    [limit]
-  );
-
-  return result.rows.map(row => ({
-    gameId: row.game_id,
-    startTime: parseInt(row.start_time),
-    endTime: parseInt(row.end_time),
-    prizePool: row.prize_pool || '0',
-    entryCount: row.entry_count || 0,
-    winnerAddress: row.winner_address,
-    winnerTitle: row.winner_title,
-    winnerScore: row.winner_score,
-    winnerImageUrl: row.winner_image_url
-  }));
-}
+// GameSettingsUpdate field -> games column
+const GAME_SETTINGS_COLUMNS: Record<keyof GameSettingsUpdate, string> = {
+  judgingMode: 'judging_mode',
+  theme: 'theme',
+  rubric: 'rubric',
+  config: 'config'
+};
 
-export async function getAllEntriesForGame(gameId: number): Promise<Array<{
-  id: number;
-  imageUrl: string;
-  title: string;
-  playerAddress: string;
-  submittedAt: number;
-  scoreCreativity?: number;
-  scoreTechnique?: number;
-  scoreTheme?: number;
-  scoreTotal?: number;
-  reasoning?: string;
-  isWinner: boolean;
-}>> {
-  const result = await pool.query(
-    `SELECT * FROM entries 
-     WHERE game_id = $1 
-     ORDER BY score_total DESC NULLS LAST, submitted_at ASC`,
-    [gameId]
-  );
-
-  return result.rows.map(row => ({
-    id: row.id,
-    imageUrl: row.image_url,
-    title: row.title,
-    playerAddress: row.player_address,
-    submittedAt: new Date(row.submitted_at).getTime(),
-    scoreCreativity: row.score_creativity,
-    scoreTechnique: row.score_technique,
-    scoreTheme: row.score_theme,
-    scoreTotal: row.score_total,
-    reasoning: row.reasoning,
-    isWinner: row.is_winner
-  }));
-}
+// PayoutUpdate field -> payouts column
+const PAYOUT_COLUMNS: Record<keyof PayoutUpdate, string> = {
+  status: 'status',
+  txHash: 'tx_hash',
+  nonce: 'nonce',
+  signedTx: 'signed_tx',
+  attempts: 'attempts',
+  lastError: 'last_error',
+  blockNumber: 'block_number'
+};
 
-// Stats
-export async function getStats(): Promise<{
-  totalGames: number;
-  totalEntries: number;
-  totalPrizeDistributed: string;
-  uniquePlayers: number;
-}> {
-  const gamesResult = await pool.query('SELECT COUNT(*) FROM games WHERE finalized = TRUE');
-  const entriesResult = await pool.query('SELECT COUNT(*) FROM entries');
-  const prizeResult = await pool.query('SELECT COALESCE(SUM(prize_pool), 0) as total FROM games WHERE finalized = TRUE');
-  const playersResult = await pool.query('SELECT COUNT(DISTINCT player_address) FROM entries');
+export class PostgresGameRepository implements GameRepository {
+  readonly kind = 'postgres' as const;
+  readonly pool: Pool;
 
-  return {
-    totalGames: parseInt(gamesResult.rows[0].count),
-    totalEntries: parseInt(entriesResult.rows[0].count),
-    totalPrizeDistributed: prizeResult.rows[0].total || '0',
-    uniquePlayers: parseInt(playersResult.rows[0].count)
-  };
+  constructor(connectionString: string) {
+    this.pool = createPool(connectionString);
+  }
+
+  // Bring the schema up to date (see src/migrations)
+  async init(): Promise<void> {
+    console.log('📦 Initializing database...');
+
+    try {
+      const status = await getMigrationStatus(this.pool);
+      assertSchemaSupported(status.currentVersion);
+
+      if (status.pending.length > 0) {
+        if (process.env.AUTO_MIGRATE === 'false') {
+          throw new Error(
+            `Database schema is at version ${status.currentVersion}, expected ${status.latestVersion}. ` +
+            'Run `npm run migrate -- up` first.'
+          );
+        }
+        await migrateUp(this.pool);
+      }
+
+      console.log(`✅ Database initialized (schema v${LATEST_SCHEMA_VERSION})`);
+    } catch (error) {
+      console.error('❌ Database initialization failed:', error);
+      throw error;
+    }
+  }
+
+  // ============ Games ============
+
+  async findGame(gameId: number): Promise<GameRecord | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM games WHERE game_id = $1',
+      [gameId]
+    );
+
+    return result.rows.length > 0 ? rowToGame(result.rows[0]) : null;
+  }
+
+  async getOrCreateGame(gameId: number): Promise<GameRecord> {
+    // Try to get existing game
+    const existing = await this.findGame(gameId);
+    if (existing) {
+      return existing;
+    }
+
+    // Create new game (not started yet - waits for first entry)
+    const now = Date.now();
+
+    await this.pool.query(
+      'INSERT INTO games (game_id, start_time, end_time, started, config) VALUES ($1, $2, $3, $4, $5) ON CONFLICT (game_id) DO NOTHING',
+      [gameId, now, 0, false, JSON.stringify(DEFAULT_GAME_CONFIG)]  // endTime = 0 means not started
+    );
+
+    return (await this.findGame(gameId))!;
+  }
+
+  // Start game timer when first entry arrives
+  async startGameTimer(
+    gameId: number,
+    durationMs?: number
+  ): Promise<{ startTime: number; endTime: number; updated: boolean }> {
+    const now = Date.now();
+
+    const result = await this.pool.query(
+      `UPDATE games
+       SET start_time = $1, end_time = $1 + COALESCE($2, (config->>'durationMs')::BIGINT), started = TRUE
+       WHERE game_id = $3 AND started = FALSE
+       RETURNING end_time`,
+      [now, durationMs ?? null, gameId]
+    );
+
+    if (result.rowCount && result.rowCount > 0) {
+      const endTime = parseInt(result.rows[0].end_time);
+      console.log(`🎮 Game #${gameId} started! Ends at ${new Date(endTime).toISOString()}`);
+      return { startTime: now, endTime, updated: true };
+    }
+
+    // Game was already started - fetch current end_time
+    const existing = await this.findGame(gameId);
+    if (existing) {
+      console.log(`⚠️ Game #${gameId} already started, current endTime: ${existing.endTime}`);
+      return { startTime: existing.startTime, endTime: existing.endTime, updated: false };
+    }
+    return { startTime: now, endTime: now + (durationMs ?? DEFAULT_GAME_CONFIG.durationMs), updated: false };
+  }
+
+  // Get active (not finalized) games that have ended
+  async getExpiredGames(): Promise<ExpiredGame[]> {
+    const now = Date.now();
+    const result = await this.pool.query(
+      `SELECT game_id, entry_count, prize_pool
+       FROM games
+       WHERE finalized = FALSE
+         AND started = TRUE
+         AND end_time > 0
+         AND end_time < $1
+         AND entry_count > 0`,
+      [now]
+    );
+
+    return result.rows.map(row => ({
+      gameId: row.game_id,
+      entryCount: row.entry_count || 0,
+      prizePool: row.prize_pool || '0'
+    }));
+  }
+
+  // Create next game (called after finalization)
+  async createNextGame(): Promise<number> {
+    // Find highest game_id
+    const result = await this.pool.query('SELECT MAX(game_id) as max_id FROM games');
+    const nextGameId = (result.rows[0]?.max_id || 0) + 1;
+
+    const now = Date.now();
+    await this.pool.query(
+      'INSERT INTO games (game_id, start_time, end_time, started, config) VALUES ($1, $2, $3, $4, $5)',
+      [nextGameId, now, 0, false, JSON.stringify(DEFAULT_GAME_CONFIG)]
+    );
+
+    console.log(`🆕 New game #${nextGameId} created (waiting for first entry)`);
+    return nextGameId;
+  }
+
+  async getLatestGameId(): Promise<number> {
+    const result = await this.pool.query('SELECT MAX(game_id) as max_id FROM games');
+    return result.rows[0]?.max_id || 1;
+  }
+
+  async updateGameSettings(gameId: number, changes: GameSettingsUpdate): Promise<void> {
+    const fields = (Object.keys(changes) as (keyof GameSettingsUpdate)[]).filter(f => changes[f] !== undefined);
+    if (fields.length === 0) return;
+
+    // The rubric and config are stored as JSONB
+    const values: unknown[] = fields.map(f => f === 'rubric' || f === 'config' ? JSON.stringify(changes[f]) : changes[f]);
+    const assignments = fields.map((f, i) => `${GAME_SETTINGS_COLUMNS[f]} = $${i + 1}`);
+
+    await this.pool.query(
+      `UPDATE games SET ${assignments.join(', ')} WHERE game_id = $${fields.length + 1}`,
+      [...values, gameId]
+    );
+  }
+
+  async saveTieBreakSeed(gameId: number, seed: TieBreakSeed): Promise<TieBreakSeed> {
+    const result = await this.pool.query(
+      'UPDATE games SET tie_break_seed = COALESCE(tie_break_seed, $1) WHERE game_id = $2 RETURNING tie_break_seed',
+      [JSON.stringify(seed), gameId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`Game #${gameId} not found`);
+    }
+    return result.rows[0].tie_break_seed;
+  }
+
+  async finalizeGame(gameId: number, winner: EntryRecord): Promise<void> {
+    await this.pool.query(
+      `UPDATE games SET
+        finalized = TRUE,
+        winner_address = $1,
+        winner_title = $2,
+        winner_score = $3,
+        winner_image_url = $4
+      WHERE game_id = $5`,
+      [winner.playerAddress, winner.title, winner.scoreTotal ?? 0, winner.imageUrl, gameId]
+    );
+
+    // Mark winner in entries
+    await this.pool.query(
+      'UPDATE entries SET is_winner = TRUE WHERE game_id = $1 AND id = $2',
+      [gameId, winner.id]
+    );
+  }
+
+  // ============ Entries ============
+
+  async addEntry(
+    gameId: number,
+    imageUrl: string,
+    title: string,
+    playerAddress: string,
+    payment: PaymentRef
+  ): Promise<{ id: number }> {
+    const txHash = payment.txHash.toLowerCase();
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await this.lockGameForEntry(client, gameId, playerAddress);
+
+      // Whole-transaction rows (legacy entries, x402 settlements) block any log in that tx
+      const legacy = await this.findConsumedPayment(txHash, payment.logIndex);
+      if (legacy) {
+        throw new PaymentAlreadyConsumedError(legacy);
+      }
+
+      const result = await client.query(
+        `INSERT INTO entries (game_id, image_url, title, player_address, payment_tx_hash)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id`,
+        [gameId, imageUrl, title, playerAddress.toLowerCase(), txHash]
+      );
+      const entryId = result.rows[0].id;
+
+      const consumed = await client.query(
+        `INSERT INTO consumed_payments
+           (tx_hash, log_index, game_id, entry_id, player_address, amount, payer_address, recipient_address, block_number)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (tx_hash, log_index) DO NOTHING
+         RETURNING id`,
+        [
+          txHash,
+          payment.logIndex,
+          gameId,
+          entryId,
+          playerAddress.toLowerCase(),
+          payment.amount ?? null,
+          payment.from?.toLowerCase() ?? null,
+          payment.to?.toLowerCase() ?? null,
+          payment.blockNumber ?? null
+        ]
+      );
+
+      if (consumed.rowCount === 0) {
+        const existing = await this.findConsumedPayment(txHash, payment.logIndex);
+        throw new PaymentAlreadyConsumedError(existing!);
+      }
+
+      await client.query(
+        `UPDATE games SET
+          prize_pool = prize_pool + (config->>'entryFee')::NUMERIC,
+          entry_count = entry_count + 1
+         WHERE game_id = $1`,
+        [gameId]
+      );
+
+      await client.query(
+        'DELETE FROM entry_reservations WHERE game_id = $1 AND player_address = $2',
+        [gameId, playerAddress.toLowerCase()]
+      );
+
+      await client.query('COMMIT');
+      return { id: entryId };
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Lock the game row for the rest of the transaction and throw
+   * EntryRejectedError if it cannot take the player's entry (or, for a new
+   * hold, if the player holds a live entry slot already)
+   */
+  private async lockGameForEntry(client: PoolClient, gameId: number, playerAddress: string, newHold = false): Promise<void> {
+    const games = await client.query('SELECT * FROM games WHERE game_id = $1 FOR UPDATE', [gameId]);
+    if (games.rows.length === 0) {
+      throw new Error(`Game #${gameId} not found`);
+    }
+
+    const result = await client.query(
+      `SELECT
+         EXISTS (SELECT 1 FROM entries WHERE game_id = $1 AND player_address = $2) AS entered,
+         EXISTS (SELECT 1 FROM entry_reservations
+                 WHERE game_id = $1 AND player_address = $2 AND expires_at >= $3) AS holding,
+         (SELECT COUNT(*) FROM entry_reservations
+          WHERE game_id = $1 AND player_address <> $2 AND expires_at >= $3) AS held`,
+      [gameId, playerAddress.toLowerCase(), Date.now()]
+    );
+    const { entered, holding, held } = result.rows[0];
+
+    const rejection = entryRejection(rowToGame(games.rows[0]), { entered, holding: newHold && holding }, parseInt(held));
+    if (rejection) {
+      throw rejection;
+    }
+  }
+
+  async reserveEntry(gameId: number, playerAddress: string, ttlMs: number): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await this.lockGameForEntry(client, gameId, playerAddress, true);
+      await client.query(
+        `INSERT INTO entry_reservations (game_id, player_address, expires_at)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (game_id, player_address) DO UPDATE SET expires_at = EXCLUDED.expires_at`,
+        [gameId, playerAddress.toLowerCase(), Date.now() + ttlMs]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async releaseEntryReservation(gameId: number, playerAddress: string): Promise<void> {
+    await this.pool.query(
+      'DELETE FROM entry_reservations WHERE game_id = $1 AND player_address = $2',
+      [gameId, playerAddress.toLowerCase()]
+    );
+  }
+
+  async getEntriesForGame(gameId: number): Promise<EntryRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM entries
+       WHERE game_id = $1
+       ORDER BY submitted_at DESC, id DESC`,
+      [gameId]
+    );
+
+    return result.rows.map(rowToEntry);
+  }
+
+  async getAllEntriesForGame(gameId: number): Promise<EntryRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM entries
+       WHERE game_id = $1
+       ORDER BY score_total DESC NULLS LAST, submitted_at ASC, id ASC`,
+      [gameId]
+    );
+
+    return result.rows.map(rowToEntry);
+  }
+
+  async hasPlayerEntered(gameId: number, playerAddress: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'SELECT 1 FROM entries WHERE game_id = $1 AND player_address = $2',
+      [gameId, playerAddress.toLowerCase()]
+    );
+    return result.rows.length > 0;
+  }
+
+  // ============ Payments ============
+
+  async findConsumedPayment(txHash: string, logIndex: number): Promise<ConsumedPaymentRecord | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM consumed_payments
+       WHERE tx_hash = $1 AND (log_index = $2 OR log_index = $3)
+       LIMIT 1`,
+      [txHash.toLowerCase(), logIndex, WHOLE_TRANSACTION_LOG_INDEX]
+    );
+
+    return result.rows.length > 0 ? rowToConsumedPayment(result.rows[0]) : null;
+  }
+
+  async listConsumedPayments(
+    filter: { txHash?: string; gameId?: number; limit?: number } = {}
+  ): Promise<ConsumedPaymentRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM consumed_payments
+       WHERE ($1::VARCHAR IS NULL OR tx_hash = $1)
+         AND ($2::INTEGER IS NULL OR game_id = $2)
+       ORDER BY consumed_at DESC, id DESC
+       LIMIT $3`,
+      [filter.txHash?.toLowerCase() ?? null, filter.gameId ?? null, filter.limit ?? 100]
+    );
+
+    return result.rows.map(rowToConsumedPayment);
+  }
+
+  // ============ Payment intents ============
+
+  async savePaymentIntent(intent: PaymentIntent): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO payment_intents
+         (id, game_id, player_address, amount, recipient_address, chain_id, status, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        intent.id,
+        intent.metadata.gameId,
+        intent.metadata.playerAddress.toLowerCase(),
+        intent.amount,
+        intent.recipientAddress,
+        intent.chainId,
+        intent.status,
+        intent.createdAt,
+        intent.expiresAt
+      ]
+    );
+  }
+
+  async findPaymentIntent(intentId: string): Promise<PaymentIntent | null> {
+    const result = await this.pool.query('SELECT * FROM payment_intents WHERE id = $1', [intentId]);
+    return result.rows.length > 0 ? rowToPaymentIntent(result.rows[0]) : null;
+  }
+
+  async findOpenPaymentIntent(gameId: number, playerAddress: string): Promise<PaymentIntent | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM payment_intents
+       WHERE game_id = $1 AND player_address = $2 AND status = 'pending' AND expires_at >= $3
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [gameId, playerAddress.toLowerCase(), Date.now()]
+    );
+    return result.rows.length > 0 ? rowToPaymentIntent(result.rows[0]) : null;
+  }
+
+  async markPaymentIntentPaid(intentId: string, txHash: string, entryId: number): Promise<boolean> {
+    const now = Date.now();
+    const result = await this.pool.query(
+      `UPDATE payment_intents
+       SET status = 'paid', paid_tx_hash = $1, paid_at = $2, entry_id = $3
+       WHERE id = $4 AND status = 'pending' AND expires_at >= $2`,
+      [txHash.toLowerCase(), now, entryId, intentId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async markPaymentIntentExpired(intentId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE payment_intents SET status = 'expired' WHERE id = $1 AND status = 'pending'`,
+      [intentId]
+    );
+  }
+
+  // ============ Payouts ============
+
+  async createPayout(gameId: number, kind: PayoutKind, recipientAddress: string, amount: string): Promise<PayoutRecord> {
+    const now = Date.now();
+    await this.pool.query(
+      `INSERT INTO payouts (game_id, kind, recipient_address, amount, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $5)
+       ON CONFLICT (game_id, kind) DO NOTHING`,
+      [gameId, kind, recipientAddress.toLowerCase(), amount, now]
+    );
+
+    const result = await this.pool.query(
+      'SELECT * FROM payouts WHERE game_id = $1 AND kind = $2',
+      [gameId, kind]
+    );
+    return rowToPayout(result.rows[0]);
+  }
+
+  async updatePayout(payoutId: number, changes: PayoutUpdate): Promise<void> {
+    const fields = (Object.keys(changes) as (keyof PayoutUpdate)[]).filter(f => changes[f] !== undefined);
+    const values: unknown[] = fields.map(f =>
+      f === 'txHash' ? (changes.txHash?.toLowerCase() ?? null) : changes[f]
+    );
+    const assignments = fields.map((f, i) => `${PAYOUT_COLUMNS[f]} = $${i + 1}`);
+
+    await this.pool.query(
+      `UPDATE payouts SET ${[...assignments, `updated_at = $${fields.length + 1}`].join(', ')}
+       WHERE id = $${fields.length + 2}`,
+      [...values, Date.now(), payoutId]
+    );
+  }
+
+  async getPayoutsForGame(gameId: number): Promise<PayoutRecord[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM payouts WHERE game_id = $1 ORDER BY id',
+      [gameId]
+    );
+    return result.rows.map(rowToPayout);
+  }
+
+  async listPayouts(
+    filter: { gameId?: number; status?: PayoutStatus; limit?: number } = {}
+  ): Promise<PayoutRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM payouts
+       WHERE ($1::INTEGER IS NULL OR game_id = $1)
+         AND ($2::VARCHAR IS NULL OR status = $2)
+       ORDER BY created_at DESC, id DESC
+       LIMIT $3`,
+      [filter.gameId ?? null, filter.status ?? null, filter.limit ?? 100]
+    );
+    return result.rows.map(rowToPayout);
+  }
+
+  // ============ Finalization jobs ============
+
+  async getOrCreateFinalizationJob(gameId: number): Promise<FinalizationJob> {
+    const now = Date.now();
+    await this.pool.query(
+      `INSERT INTO finalization_jobs (game_id, created_at, updated_at)
+       VALUES ($1, $2, $2)
+       ON CONFLICT (game_id) DO NOTHING`,
+      [gameId, now]
+    );
+
+    return (await this.findFinalizationJob(gameId))!;
+  }
+
+  async findFinalizationJob(gameId: number): Promise<FinalizationJob | null> {
+    const result = await this.pool.query('SELECT * FROM finalization_jobs WHERE game_id = $1', [gameId]);
+    return result.rows.length > 0 ? rowToFinalizationJob(result.rows[0]) : null;
+  }
+
+  async listUnfinishedFinalizationJobs(): Promise<FinalizationJob[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM finalization_jobs
+       WHERE state <> 'next_game_created'
+       ORDER BY game_id`
+    );
+    return result.rows.map(rowToFinalizationJob);
+  }
+
+  async saveJudgingResult(
+    gameId: number,
+    result: JudgingRecord,
+    from: 'judging' | 'scored' = 'judging'
+  ): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const job = await client.query(
+        'SELECT state FROM finalization_jobs WHERE game_id = $1 FOR UPDATE',
+        [gameId]
+      );
+      if (job.rows[0]?.state !== from) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      // A re-judged panel replaces the previous one entirely
+      await client.query('DELETE FROM judge_scores WHERE game_id = $1', [gameId]);
+
+      for (const score of result.scores) {
+        await client.query(
+          `UPDATE entries SET
+            criterion_scores = $1,
+            score_total = $2,
+            reasoning = $3
+           WHERE id = $4 AND game_id = $5`,
+          [
+            JSON.stringify(score.criteria),
+            score.total,
+            score.reasoning,
+            score.entryId,
+            gameId
+          ]
+        );
+      }
+
+      for (const score of result.panelScores) {
+        await client.query(
+          `INSERT INTO judge_scores (game_id, entry_id, judge, criteria, total, reasoning)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (game_id, entry_id, judge) DO UPDATE SET
+             criteria = EXCLUDED.criteria,
+             total = EXCLUDED.total,
+             reasoning = EXCLUDED.reasoning`,
+          [
+            gameId,
+            score.entryId,
+            score.judge,
+            JSON.stringify(score.criteria),
+            score.total,
+            score.reasoning
+          ]
+        );
+      }
+
+      await client.query(
+        `UPDATE finalization_jobs
+         SET state = 'scored', winner_entry_id = $1, review_reason = $2, reviewed_at = NULL,
+             tie_break = $3, last_error = NULL, updated_at = $4
+         WHERE game_id = $5`,
+        [result.winnerEntryId, result.reviewReason, JSON.stringify(result.tieBreak), Date.now(), gameId]
+      );
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getPanelScores(gameId: number): Promise<PanelScore[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM judge_scores WHERE game_id = $1 ORDER BY entry_id, judge',
+      [gameId]
+    );
+    return result.rows.map(rowToPanelScore);
+  }
+
+  async saveJudgingRun(run: NewJudgingRun): Promise<JudgingRun> {
+    const result = await this.pool.query(
+      `INSERT INTO judging_runs
+        (game_id, triggered_by, mode, judges, estimated_cost, success, error, result, invocations, started_at, finished_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        run.gameId,
+        run.trigger,
+        run.mode,
+        run.judges,
+        run.estimatedCost,
+        run.success,
+        run.error,
+        run.result && JSON.stringify(run.result),
+        JSON.stringify(run.invocations),
+        run.startedAt,
+        run.finishedAt
+      ]
+    );
+    return rowToJudgingRun(result.rows[0]);
+  }
+
+  async getJudgingRuns(gameId: number): Promise<JudgingRun[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM judging_runs WHERE game_id = $1 ORDER BY id',
+      [gameId]
+    );
+    return result.rows.map(rowToJudgingRun);
+  }
+
+  async advanceFinalizationJob(
+    gameId: number,
+    from: FinalizationState,
+    to: FinalizationState,
+    changes: { nextGameId?: number } = {}
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE finalization_jobs
+       SET state = $1, next_game_id = COALESCE($2, next_game_id), last_error = NULL, updated_at = $3
+       WHERE game_id = $4 AND state = $5`,
+      [to, changes.nextGameId ?? null, Date.now(), gameId, from]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async updateFinalizationJob(gameId: number, changes: FinalizationJobUpdate): Promise<void> {
+    const fields = (Object.keys(changes) as (keyof FinalizationJobUpdate)[]).filter(f => changes[f] !== undefined);
+    const values: unknown[] = fields.map(f => changes[f]);
+    const assignments = fields.map((f, i) => `${FINALIZATION_JOB_COLUMNS[f]} = $${i + 1}`);
+
+    await this.pool.query(
+      `UPDATE finalization_jobs SET ${[...assignments, `updated_at = $${fields.length + 1}`].join(', ')}
+       WHERE game_id = $${fields.length + 2}`,
+      [...values, Date.now(), gameId]
+    );
+  }
+
+  // ============ Locks ============
+
+  async acquireLock(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const result = await this.pool.query(
+      `INSERT INTO job_locks (name, holder, acquired_at, expires_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (name) DO UPDATE
+         SET holder = EXCLUDED.holder,
+             acquired_at = CASE WHEN job_locks.holder = EXCLUDED.holder
+                                THEN job_locks.acquired_at ELSE EXCLUDED.acquired_at END,
+             expires_at = EXCLUDED.expires_at
+         WHERE job_locks.holder = EXCLUDED.holder OR job_locks.expires_at < $3
+       RETURNING name`,
+      [name, holder, now, now + ttlMs]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async releaseLock(name: string, holder: string): Promise<void> {
+    await this.pool.query('DELETE FROM job_locks WHERE name = $1 AND holder = $2', [name, holder]);
+  }
+
+  async listLocks(): Promise<JobLock[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM job_locks WHERE expires_at >= $1 ORDER BY name',
+      [Date.now()]
+    );
+
+    return result.rows.map(row => ({
+      name: row.name,
+      holder: row.holder,
+      acquiredAt: parseInt(row.acquired_at),
+      expiresAt: parseInt(row.expires_at)
+    }));
+  }
+
+  // ============ Chain index ============
+
+  async getChainCursor(indexer: string): Promise<ChainCursor | null> {
+    const result = await this.pool.query('SELECT * FROM chain_cursors WHERE indexer = $1', [indexer]);
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      indexer: row.indexer,
+      blockNumber: parseInt(row.block_number),
+      blockHash: row.block_hash,
+      confirmedBlockNumber: parseInt(row.confirmed_block_number),
+      updatedAt: parseInt(row.updated_at)
+    };
+  }
+
+  async getIndexedBlocks(indexer: string): Promise<IndexedBlock[]> {
+    const result = await this.pool.query(
+      'SELECT block_number, block_hash FROM chain_blocks WHERE indexer = $1 ORDER BY block_number',
+      [indexer]
+    );
+    return result.rows.map(row => ({ number: parseInt(row.block_number), hash: row.block_hash }));
+  }
+
+  async saveChainBatch(indexer: string, batch: ChainIndexBatch): Promise<void> {
+    const now = Date.now();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (const event of batch.events) {
+        await client.query(
+          `INSERT INTO chain_events
+             (indexer, block_number, block_hash, tx_hash, log_index, address, event_name, args, confirmed, indexed_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+           ON CONFLICT (indexer, tx_hash, log_index) DO NOTHING`,
+          [
+            indexer,
+            event.blockNumber,
+            event.blockHash,
+            event.txHash,
+            event.logIndex,
+            event.address.toLowerCase(),
+            event.eventName,
+            JSON.stringify(event.args),
+            event.blockNumber <= batch.confirmedThrough,
+            now
+          ]
+        );
+      }
+
+      await client.query(
+        `UPDATE chain_events SET confirmed = TRUE
+         WHERE indexer = $1 AND NOT confirmed AND block_number <= $2`,
+        [indexer, batch.confirmedThrough]
+      );
+      await client.query(
+        'DELETE FROM chain_blocks WHERE indexer = $1 AND block_number <= $2',
+        [indexer, batch.confirmedThrough]
+      );
+
+      for (const block of batch.blocks) {
+        await client.query(
+          `INSERT INTO chain_blocks (indexer, block_number, block_hash)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (indexer, block_number) DO UPDATE SET block_hash = EXCLUDED.block_hash`,
+          [indexer, block.number, block.hash]
+        );
+      }
+
+      await client.query(
+        `INSERT INTO chain_cursors (indexer, block_number, block_hash, confirmed_block_number, updated_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (indexer) DO UPDATE SET
+           block_number = EXCLUDED.block_number,
+           block_hash = EXCLUDED.block_hash,
+           confirmed_block_number = GREATEST(chain_cursors.confirmed_block_number, EXCLUDED.confirmed_block_number),
+           updated_at = EXCLUDED.updated_at`,
+        [indexer, batch.head.number, batch.head.hash, batch.confirmedThrough, now]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async rollbackChainIndex(indexer: string, block: IndexedBlock): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const dropped = await client.query(
+        'DELETE FROM chain_events WHERE indexer = $1 AND NOT confirmed AND block_number > $2',
+        [indexer, block.number]
+      );
+      await client.query(
+        'DELETE FROM chain_blocks WHERE indexer = $1 AND block_number > $2',
+        [indexer, block.number]
+      );
+      await client.query(
+        `UPDATE chain_cursors SET block_number = $2, block_hash = $3, updated_at = $4
+         WHERE indexer = $1`,
+        [indexer, block.number, block.hash, Date.now()]
+      );
+
+      await client.query('COMMIT');
+      return dropped.rowCount ?? 0;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listChainEvents(
+    filter: { indexer?: string; eventName?: string; txHash?: string; confirmed?: boolean; limit?: number } = {}
+  ): Promise<ChainEventRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM chain_events
+       WHERE ($1::VARCHAR IS NULL OR indexer = $1)
+         AND ($2::VARCHAR IS NULL OR event_name = $2)
+         AND ($3::VARCHAR IS NULL OR tx_hash = $3)
+         AND ($4::BOOLEAN IS NULL OR confirmed = $4)
+       ORDER BY block_number DESC, log_index DESC
+       LIMIT $5`,
+      [
+        filter.indexer ?? null,
+        filter.eventName ?? null,
+        filter.txHash ?? null,
+        filter.confirmed ?? null,
+        filter.limit ?? 100
+      ]
+    );
+    return result.rows.map(rowToChainEvent);
+  }
+
+  // ============ Reconciliation ============
+
+  async saveReconciliationReport(report: NewReconciliationReport): Promise<ReconciliationReport> {
+    const result = await this.pool.query(
+      `INSERT INTO reconciliation_reports (status, games, balances, discrepancies, error, started_at, finished_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        report.status,
+        JSON.stringify(report.games),
+        JSON.stringify(report.balances),
+        JSON.stringify(report.discrepancies),
+        report.error,
+        report.startedAt,
+        report.finishedAt
+      ]
+    );
+    return rowToReconciliationReport(result.rows[0]);
+  }
+
+  async listReconciliationReports(limit: number = 20): Promise<ReconciliationReport[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM reconciliation_reports ORDER BY started_at DESC, id DESC LIMIT $1',
+      [limit]
+    );
+    return result.rows.map(rowToReconciliationReport);
+  }
+
+  // ============ History ============
+
+  async getPastGames(limit: number = 10): Promise<GameRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM games
+       WHERE finalized = TRUE
+       ORDER BY game_id DESC
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map(rowToGame);
+  }
+
+  async getStats(): Promise<ArenaStats> {
+    const gamesResult = await this.pool.query('SELECT COUNT(*) FROM games WHERE finalized = TRUE');
+    const entriesResult = await this.pool.query('SELECT COUNT(*) FROM entries');
+    const prizeResult = await this.pool.query('SELECT COALESCE(SUM(prize_pool), 0) as total FROM games WHERE finalized = TRUE');
+    const playersResult = await this.pool.query('SELECT COUNT(DISTINCT player_address) FROM entries');
+
+    return {
+      totalGames: parseInt(gamesResult.rows[0].count),
+      totalEntries: parseInt(entriesResult.rows[0].count),
+      totalPrizeDistributed: prizeResult.rows[0].total || '0',
+      uniquePlayers: parseInt(playersResult.rows[0].count)
+    };
+  }
 }
 
-export default pool;
+export default PostgresGameRepository;
@@ -0,0 +1,179 @@
+import type {
+  EntryRecord,
+  EntryScore,
+  FinalizationJob,
+  FinalizationState,
+  GameRecord,
+  GameRepository,
+  PanelScore
+} from './game-repository';
+import type { TieBreakReport } from './tie-break';
+
+export interface JudgingOutcome {
+  scores: EntryScore[];
+  winnerEntryId: number;
+  /** Each judge's scores when a panel judged the game */
+  panelScores?: PanelScore[];
+  /** Set when the judges disagree enough that an admin should look before payout */
+  reviewReason?: string | null;
+  /** How the winner was settled among entries the judges ranked equally */
+  tieBreak: TieBreakReport;
+}
+
+/**
+ * Side effects of each finalization step.
+ * Every step after judging must be idempotent: if the process dies before the
+ * step's new state is saved, the step runs again on resume.
+ */
+export interface FinalizationSteps {
+  readonly mode: 'database' | 'contract';
+  /** Entries of the game to judge */
+  loadEntries(gameId: number): Promise<EntryRecord[]>;
+  judge(entries: EntryRecord[], game: GameRecord): Promise<JudgingOutcome>;
+  finalize(job: FinalizationJob, winner: EntryRecord): Promise<void>;
+  pay(job: FinalizationJob, winner: EntryRecord, game: GameRecord): Promise<void>;
+  createNextGame(job: FinalizationJob): Promise<number>;
+}
+
+export interface FinalizationResult {
+  success: boolean;
+  gameId: number;
+  state: FinalizationState;
+  winner?: EntryRecord;
+  nextGameId?: number;
+  /** Judging is held for admin review; finalization resumes once approved */
+  awaitingReview?: boolean;
+  error?: string;
+}
+
+/**
+ * Drives a game through judging -> scored -> finalized -> paid -> next_game_created.
+ * The state is persisted after every step, so each step runs once even across
+ * restarts; in particular a scored game is never judged again.
+ * A scored game flagged for review waits there until an admin approves it.
+ */
+export class GameFinalizer {
+  constructor(private repo: GameRepository) {}
+
+  /**
+   * Run (or resume) finalization of a game until the next game exists
+   */
+  async run(gameId: number, steps: FinalizationSteps): Promise<FinalizationResult> {
+    let job = await this.repo.getOrCreateFinalizationJob(gameId);
+
+    if (job.state !== 'judging') {
+      console.log(`   ↪️ Resuming finalization of game #${gameId} at "${job.state}"`);
+    }
+
+    try {
+      while (job.state !== 'next_game_created') {
+        if (job.state === 'scored' && job.reviewReason && job.reviewedAt === null) {
+          console.log(`   🔎 Game #${gameId} is waiting for admin review: ${job.reviewReason}`);
+          return {
+            success: false,
+            gameId,
+            state: job.state,
+            awaitingReview: true,
+            error: `Awaiting admin review: ${job.reviewReason}`
+          };
+        }
+
+        job = await this.step(job, steps);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`   ❌ Finalization of game #${gameId} stopped at "${job.state}":`, message);
+
+      await this.repo.updateFinalizationJob(gameId, { attempts: job.attempts + 1, lastError: message });
+      return { success: false, gameId, state: job.state, error: message };
+    }
+
+    const winner = job.winnerEntryId !== null ? await this.findEntry(gameId, job.winnerEntryId) : undefined;
+
+    return {
+      success: true,
+      gameId,
+      state: job.state,
+      winner,
+      nextGameId: job.nextGameId ?? undefined
+    };
+  }
+
+  private async step(job: FinalizationJob, steps: FinalizationSteps): Promise<FinalizationJob> {
+    const { gameId } = job;
+
+    switch (job.state) {
+      case 'judging': {
+        const game = await this.repo.findGame(gameId);
+        const entries = await steps.loadEntries(gameId);
+        if (!game || entries.length === 0) {
+          throw new Error(`No entries for game #${gameId}`);
+        }
+
+        console.log(`   🤖 AI judging ${entries.length} entries (${game.judgingMode} mode)...`);
+        const outcome = await steps.judge(entries, game);
+        if (!entries.some(e => e.id === outcome.winnerEntryId)) {
+          throw new Error(`Judge picked unknown entry ${outcome.winnerEntryId} as winner`);
+        }
+
+        const saved = await this.repo.saveJudgingResult(gameId, {
+          scores: outcome.scores,
+          winnerEntryId: outcome.winnerEntryId,
+          panelScores: outcome.panelScores ?? [],
+          reviewReason: outcome.reviewReason ?? null,
+          tieBreak: outcome.tieBreak
+        });
+        if (!saved) {
+          console.log(`   ⚠️ Game #${gameId} was already scored, keeping the stored scores`);
+        }
+        break;
+      }
+
+      case 'scored': {
+        const winner = await this.requireWinner(job);
+        console.log(`   🏆 Winner: "${winner.title}" by ${winner.playerAddress} (${winner.scoreTotal}/30)`);
+
+        await steps.finalize(job, winner);
+        await this.repo.advanceFinalizationJob(gameId, 'scored', 'finalized');
+        console.log(`   ✅ Game #${gameId} finalized!`);
+        break;
+      }
+
+      case 'finalized': {
+        const winner = await this.requireWinner(job);
+        const game = await this.repo.findGame(gameId);
+        if (!game) {
+          throw new Error(`Game #${gameId} not found`);
+        }
+
+        await steps.pay(job, winner, game);
+        await this.repo.advanceFinalizationJob(gameId, 'finalized', 'paid');
+        break;
+      }
+
+      case 'paid': {
+        const nextGameId = await steps.createNextGame(job);
+        await this.repo.advanceFinalizationJob(gameId, 'paid', 'next_game_created', { nextGameId });
+        console.log(`   🆕 Next game #${nextGameId} ready!`);
+        break;
+      }
+    }
+
+    return (await this.repo.findFinalizationJob(gameId))!;
+  }
+
+  private async requireWinner(job: FinalizationJob): Promise<EntryRecord> {
+    const winner = job.winnerEntryId !== null ? await this.findEntry(job.gameId, job.winnerEntryId) : undefined;
+    if (!winner) {
+      throw new Error(`Winning entry ${job.winnerEntryId} of game #${job.gameId} not found`);
+    }
+    return winner;
+  }
+
+  private async findEntry(gameId: number, entryId: number): Promise<EntryRecord | undefined> {
+    const entries = await this.repo.getAllEntriesForGame(gameId);
+    return entries.find(e => e.id === entryId);
+  }
+}
+
+export default GameFinalizer;
@@ -1,19 +1,63 @@
 import cron from 'node-cron';
-import { createPublicClient, createWalletClient, http, parseUnits, formatUnits } from 'viem';
+import {
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  http,
+  isAddress,
+  parseUnits,
+  formatUnits,
+  type Account,
+  type PublicClient,
+  type Transport,
+  type WalletClient
+} from 'viem';
 import { base, baseSepolia } from 'viem/chains';
 
 const IS_MAINNET = process.env.NODE_ENV === 'production';
 const CHAIN = IS_MAINNET ? base : baseSepolia;
 import { privateKeyToAccount } from 'viem/accounts';
-import { judgeArtworks, SimpleArtSubmission } from './ai-judge';
-import * as db from './database';
+import { compareStanding, type JudgeScore } from './ai-judge';
+import { createJudgeEnsemble, type EnsembleFailure, type EnsembleResult, type JudgeEnsemble } from './judge-ensemble';
+import {
+  type EntryRecord,
+  type GameRecord,
+  type GameRepository,
+  type JudgingTrigger,
+  type PayoutRecord,
+  type ReconciliationReport
+} from './game-repository';
+import { PrizePoolContract } from '../contracts/prize-pool';
+import { contractWinnerIndex, syncContractEntries } from './contract-entries';
+import { ChainIndexer, ViemChainSource, type ChainIndexRun } from './chain-indexer';
+import { createReconciliationAlert, Reconciler, ViemReconciliationChain } from './reconciliation';
+import { DEFAULT_GAME_CONFIG, entryFeeUnits, formatAmount, type GameConfig } from './game-config';
+import { createPayoutSender, PayoutService } from './payouts';
+import { breakTie, firstBlockAtOrAfter, type TieBreakReport, type TieBreakSeed } from './tie-break';
+import { GameFinalizer, type FinalizationResult, type FinalizationSteps, type JudgingOutcome } from './finalization';
+import {
+  CHAIN_INDEXER_LOCK,
+  CHAIN_INDEXER_TTL_MS,
+  CRON_LEADER_LOCK,
+  CRON_LEADER_TTL_MS,
+  GAME_LOCK_TTL_MS,
+  INSTANCE_ID,
+  RECONCILIATION_LOCK,
+  RECONCILIATION_TTL_MS,
+  gameLockName,
+  withLock
+} from './locks';
 
 // AsterPay platform wallet for 10% fee
 const ASTERPAY_WALLET = process.env.ASTERPAY_WALLET || '0x3A649F923c7E74e5C22E766f8E0FA2CF7e627e71';
 
 // Contract addresses
 const PRIZE_POOL_ADDRESS = process.env.PRIZE_POOL_ADDRESS as `0x${string}`;
-const USDC_ADDRESS = '0x036CbD53842c5426634e7929541eC2318f3dCF7e' as const;
+// Block the PrizePool was deployed in (where searches for its events start)
+const PRIZE_POOL_DEPLOY_BLOCK = BigInt(process.env.PRIZE_POOL_DEPLOY_BLOCK || '0');
+const USDC_ADDRESS = IS_MAINNET
+  ? '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'
+  : '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
 
 // Platform wallet for receiving fees
 const PLATFORM_WALLET = process.env.PLATFORM_WALLET as `0x${string}`;
@@ -21,57 +65,47 @@ const PLATFORM_WALLET = process.env.PLATFORM_WALLET as `0x${string}`;
 // Admin private key for automation (KEEP SECURE!)
 const ADMIN_PRIVATE_KEY = process.env.ADMIN_PRIVATE_KEY as `0x${string}`;
 
-// PrizePool ABI (minimal for our needs)
-const PRIZE_POOL_ABI = [
-  {
-    name: 'finalizeGame',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'gameId', type: 'uint256' },
-      { name: 'winnerIndex', type: 'uint256' }
-    ],
-    outputs: []
-  },
-  {
-    name: 'startGame',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [],
-    outputs: []
-  },
-  {
-    name: 'currentGameId',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ name: '', type: 'uint256' }]
-  },
-  {
-    name: 'getGameInfo',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'gameId', type: 'uint256' }],
-    outputs: [
-      { name: 'startTime', type: 'uint256' },
-      { name: 'endTime', type: 'uint256' },
-      { name: 'prizePool', type: 'uint256' },
-      { name: 'entryCount', type: 'uint256' },
-      { name: 'finalized', type: 'bool' },
-      { name: 'winner', type: 'address' }
-    ]
-  }
-] as const;
-
-// In-memory storage reference (will be set from main server)
-let entriesStorage: Map<number, any[]>;
-
-export function setEntriesStorage(storage: Map<number, any[]>) {
-  entriesStorage = storage;
-}
-
-// Create blockchain clients
-function getClients() {
+// Chain indexer (CHAIN_INDEXER=true): blocks below the head before events are final, and poll interval
+export const CHAIN_INDEXER_NAME = 'prize-pool';
+const CHAIN_CONFIRMATIONS = parseInt(process.env.CHAIN_CONFIRMATIONS || '10');
+const CHAIN_INDEXER_INTERVAL_MS = parseInt(process.env.CHAIN_INDEXER_INTERVAL_MS || '15000');
+const CHAIN_INDEXER_BATCH_BLOCKS = parseInt(process.env.CHAIN_INDEXER_BATCH_BLOCKS || '1000');
+const CHAIN_INDEXER_START_BLOCK = process.env.CHAIN_INDEXER_START_BLOCK || process.env.PRIZE_POOL_DEPLOY_BLOCK;
+
+// Reconciliation: how many recent games each run checks, and where new discrepancies are posted
+const RECONCILIATION_GAMES = parseInt(process.env.RECONCILIATION_GAMES || '20');
+const RECONCILIATION_ALERT_WEBHOOK = process.env.RECONCILIATION_ALERT_WEBHOOK;
+
+// Fixed tie-break seed for offline games (refused in production)
+const TIE_BREAK_SEED = process.env.TIE_BREAK_SEED;
+
+// Game storage (will be set from main server)
+let repo: GameRepository;
+let payoutService: PayoutService;
+let finalizer: GameFinalizer;
+
+export function setGameRepository(repository: GameRepository) {
+  repo = repository;
+  finalizer = new GameFinalizer(repo);
+  payoutService = new PayoutService(repo, createPayoutSender(getAdminClients, USDC_ADDRESS), ASTERPAY_WALLET);
+  console.log(`✅ Payout sender: ${payoutService.senderName}`);
+}
+
+export function getPayoutService(): PayoutService {
+  return payoutService;
+}
+
+// Scores entries for the judging step
+export type EntryJudge = (entries: EntryRecord[], game: GameRecord) => Promise<JudgingOutcome>;
+
+export interface AdminClients {
+  publicClient: PublicClient<Transport, typeof CHAIN>;
+  walletClient: WalletClient<Transport, typeof CHAIN, Account>;
+  account: Account;
+}
+
+// Create blockchain clients (admin wallet signs contract calls and relays payments)
+export function getAdminClients(): AdminClients {
   const publicClient = createPublicClient({
     chain: CHAIN,
     transport: http()
@@ -91,125 +125,444 @@ function getClients() {
   return { publicClient, walletClient, account };
 }
 
-// Main finalization logic
-export async function finalizeCurrentGame(): Promise<{
+// PrizePool contract, with transactions signed by the admin wallet
+export function getPrizePool(): PrizePoolContract<typeof CHAIN> {
+  const { publicClient, walletClient } = getAdminClients();
+  return new PrizePoolContract(PRIZE_POOL_ADDRESS, publicClient, walletClient);
+}
+
+// Entry fee (base units) and platform fee the PrizePool contract charges, read at startup
+let contractTerms: { entryFee: bigint; platformFeeBps: number } | null = null;
+
+/**
+ * Startup check in contract mode: the contract at PRIZE_POOL_ADDRESS must
+ * implement the generated PrizePool ABI, charge the fees of DEFAULT_GAME_CONFIG
+ * and not be behind the database's games (database game IDs are contract game
+ * IDs). Throws when it does not.
+ */
+export async function verifyPrizePoolContract(): Promise<void> {
+  if (!isContractMode()) {
+    return;
+  }
+
+  const prizePool = getPrizePool();
+  await prizePool.verifyDeployment();
+  console.log(`✅ PrizePool contract at ${PRIZE_POOL_ADDRESS} matches the generated ABI`);
+
+  const [entryFee, platformFeeBps] = await Promise.all([prizePool.entryFee(), prizePool.platformFeeBps()]);
+  contractTerms = { entryFee, platformFeeBps: Number(platformFeeBps) };
+
+  const conflict = gameConfigConflict(DEFAULT_GAME_CONFIG);
+  if (conflict) {
+    throw new Error(`Default game config does not fit the PrizePool contract: ${conflict}`);
+  }
+
+  const currentGameId = Number(await prizePool.currentGameId());
+  const latestGameId = await repo.getLatestGameId();
+  if (latestGameId > Math.max(currentGameId, 1)) {
+    throw new Error(`Database game #${latestGameId} is ahead of PrizePool game #${currentGameId}`);
+  }
+  if (latestGameId < currentGameId) {
+    await repo.getOrCreateGame(currentGameId);
+    console.log(`🔗 Database caught up with PrizePool game #${currentGameId}`);
+  }
+}
+
+// Mirror entries made on-chain only, so their game starts and expires in the database too
+async function syncCurrentContractGame(): Promise<void> {
+  const prizePool = getPrizePool();
+  const currentGameId = Number(await prizePool.currentGameId());
+  const game = currentGameId > 0 ? await repo.findGame(currentGameId) : null;
+
+  if (game && !game.finalized) {
+    await syncContractEntries(repo, prizePool, currentGameId, PRIZE_POOL_DEPLOY_BLOCK);
+  }
+}
+
+/**
+ * Why a game config cannot be used (null: it can). In contract mode the
+ * PrizePool contract charges its own fixed fee and split and accepts every
+ * paid entry, so configs must match it and cannot cap entries.
+ */
+export function gameConfigConflict(config: GameConfig): string | null {
+  if (!isContractMode()) {
+    return null;
+  }
+
+  if (contractTerms && entryFeeUnits(config) !== contractTerms.entryFee) {
+    return `the contract charges an entry fee of ${formatAmount(contractTerms.entryFee, config)} ${config.currency}`;
+  }
+  if (contractTerms && config.platformFeeBps !== contractTerms.platformFeeBps) {
+    return `the contract takes a platform fee of ${contractTerms.platformFeeBps} bps`;
+  }
+  if (config.maxEntries !== null) {
+    return 'the contract does not limit entries';
+  }
+  return null;
+}
+
+// Result of a finalization run, as returned to admin routes
+export interface FinalizeResponse {
   success: boolean;
   gameId?: number;
-  winner?: { address: string; title: string; score: number };
+  winner?: { entryId: number; address: string; title: string; score: number };
   prizeAmount?: string;
+  nextGameId?: number;
+  awaitingReview?: boolean;
+  tieBreak?: TieBreakReport | null;
   error?: string;
-}> {
-  console.log('🎮 Starting game finalization...');
-
-  try {
-    // Check if contract is deployed
-    if (!PRIZE_POOL_ADDRESS || PRIZE_POOL_ADDRESS === '0x0000000000000000000000000000000000000000') {
-      // Fallback: finalize without smart contract (for testing)
-      return await finalizeWithoutContract();
-    }
+}
 
-    const { publicClient, walletClient, account } = getClients();
+/**
+ * Randomness for the last tie-break step: the hash of the first block at or
+ * after the end of the game (or TIE_BREAK_SEED offline). Stored on the game the
+ * first time, so every later judging run of the game uses the same seed.
+ * Throws when the block cannot be read; finalization then retries later.
+ */
+async function tieBreakSeed(game: GameRecord): Promise<TieBreakSeed> {
+  if (game.tieBreakSeed) {
+    return game.tieBreakSeed;
+  }
 
-    // Get current game ID
-    const currentGameId = await publicClient.readContract({
-      address: PRIZE_POOL_ADDRESS,
-      abi: PRIZE_POOL_ABI,
-      functionName: 'currentGameId'
-    }) as bigint;
+  let seed: TieBreakSeed;
+  if (TIE_BREAK_SEED) {
+    if (IS_MAINNET) {
+      throw new Error('TIE_BREAK_SEED is for offline games and cannot be used in production');
+    }
+    seed = { source: 'configured', value: TIE_BREAK_SEED, blockNumber: null };
+  } else {
+    if (game.endTime <= 0) {
+      throw new Error(`Game #${game.gameId} has no end time to seed its tie-break from`);
+    }
+    const publicClient = createPublicClient({ chain: CHAIN, transport: http() });
+    const block = await firstBlockAtOrAfter(publicClient, game.endTime);
+    seed = { source: 'block', value: block.hash, blockNumber: block.number.toString() };
+  }
 
-    const gameId = Number(currentGameId);
-    console.log(`📊 Current game ID: ${gameId}`);
+  return repo.saveTieBreakSeed(game.gameId, seed);
+}
 
-    // Get game info
-    const gameInfo = await publicClient.readContract({
-      address: PRIZE_POOL_ADDRESS,
-      abi: PRIZE_POOL_ABI,
-      functionName: 'getGameInfo',
-      args: [currentGameId]
-    }) as [bigint, bigint, bigint, bigint, boolean, string];
+/**
+ * Join judge scores (keyed by entry ID) onto the game's entries and settle the
+ * winner. Every entry must have a score and the winner must be one of the entries.
+ * This is the one place ties for first are broken, by TIE_BREAK_POLICY.
+ */
+export async function joinJudgeScores(
+  entries: EntryRecord[],
+  judged: EnsembleResult,
+  game: GameRecord
+): Promise<JudgingOutcome> {
+  const isEntry = (id: string) => entries.some(e => e.id.toString() === id);
+
+  const unknown = Object.keys(judged.scores).filter(id => !isEntry(id));
+  if (unknown.length > 0) {
+    throw new Error(`Judge returned scores for unknown entries: ${unknown.join(', ')}`);
+  }
 
-    const [startTime, endTime, prizePool, entryCount, finalized, winner] = gameInfo;
+  if (!entries.some(e => e.id.toString() === judged.winnerId)) {
+    throw new Error(`Judge picked unknown entry ${judged.winnerId} as winner`);
+  }
 
-    if (finalized) {
-      console.log('⚠️ Game already finalized');
-      return { success: false, error: 'Game already finalized' };
+  const toEntryScore = (entry: EntryRecord, score: JudgeScore | undefined, judge?: string) => {
+    if (!score) {
+      throw new Error(`${judge ? `Judge ${judge}` : 'Judge'} returned no score for entry ${entry.id}`);
     }
+    return {
+      entryId: entry.id,
+      criteria: score.criteria,
+      total: score.total,
+      reasoning: score.feedback
+    };
+  };
 
-    if (Number(entryCount) === 0) {
-      console.log('⚠️ No entries in this game');
-      // Start new game anyway
-      await startNewGame();
-      return { success: false, error: 'No entries, started new game' };
-    }
+  const scores = entries.map(entry => toEntryScore(entry, judged.scores[entry.id.toString()]));
+
+  // Entries the judges could not separate from the top of the ranking
+  const top = judged.standing[judged.winnerId];
+  const tied = entries.filter(e => compareStanding(judged.standing[e.id.toString()] ?? [], top) === 0);
+  const { winnerEntryId, report } = await breakTie(
+    tied.map(e => ({ entryId: e.id, submittedAt: e.submittedAt, scores: scores.find(s => s.entryId === e.id)!.criteria })),
+    game.rubric,
+    () => tieBreakSeed(game)
+  );
+  if (report.tiedEntryIds.length > 0) {
+    console.log(`   🎲 Entries ${report.tiedEntryIds.join(', ')} tied for first; settled by ${report.decidedBy}`);
+  }
 
-    // Get entries from storage
-    const entries = entriesStorage?.get(gameId) || [];
-    
-    if (entries.length === 0) {
-      console.log('⚠️ No entries found in storage');
-      return { success: false, error: 'No entries in storage' };
-    }
+  return {
+    scores,
+    winnerEntryId,
+    panelScores: judged.panel.flatMap(({ judge, scores }) =>
+      entries.map(entry => ({ judge, ...toEntryScore(entry, scores[entry.id.toString()], judge) }))
+    ),
+    reviewReason: judged.reviewReason,
+    tieBreak: report
+  };
+}
 
-    // Judge all entries with AI
-    console.log(`🤖 Judging ${entries.length} entries with AI...`);
-    const submissions: SimpleArtSubmission[] = entries.map((e, i) => ({
-      id: i.toString(),
+/**
+ * Judge a game's entries with a judge panel and append the run (every provider
+ * call, the outcome and the cost estimate) to the judging audit log, whether
+ * or not it succeeded
+ */
+export async function judgeAndRecord(
+  entries: EntryRecord[],
+  game: GameRecord,
+  trigger: JudgingTrigger,
+  ensemble: JudgeEnsemble = createJudgeEnsemble()
+): Promise<EnsembleResult | EnsembleFailure> {
+  console.log(`🤖 Judging with ${ensemble.description}`);
+  const startedAt = Date.now();
+
+  const judged = await ensemble.judgeSubmissions(
+    entries.map(e => ({
+      id: e.id.toString(),
       imageUrl: e.imageUrl,
       title: e.title,
-      artist: e.playerAddress
-    }));
-
-    const scores = await judgeArtworks(submissions);
-    
-    // Find winner (highest total score)
-    let winnerIndex = 0;
-    let highestScore = 0;
-    
-    scores.forEach((score, index) => {
-      const total = score.creativity + score.technique + score.theme;
-      if (total > highestScore) {
-        highestScore = total;
-        winnerIndex = index;
+      playerAddress: e.playerAddress,
+      timestamp: e.submittedAt
+    })),
+    { mode: game.judgingMode, theme: game.theme, rubric: game.rubric }
+  );
+
+  const run = await repo.saveJudgingRun({
+    gameId: game.gameId,
+    trigger,
+    mode: game.judgingMode,
+    judges: ensemble.description,
+    estimatedCost: ensemble.estimateCost(entries.length, game.judgingMode),
+    success: judged.success,
+    error: judged.success ? null : judged.error,
+    result: judged.success
+      ? {
+          scores: judged.scores,
+          ranking: judged.ranking,
+          winnerId: judged.winnerId,
+          winnerScore: judged.winnerScore,
+          strategy: judged.strategy,
+          failedJudges: judged.failedJudges,
+          spread: judged.spread,
+          flags: judged.flags,
+          reviewReason: judged.reviewReason
+        }
+      : null,
+    invocations: judged.invocations,
+    startedAt,
+    finishedAt: Date.now()
+  });
+  console.log(`   📒 Judging run #${run.id} recorded (${run.invocations.length} judge calls)`);
+
+  return judged;
+}
+
+// Judge entries with the configured judge panel, in the game's judging mode
+async function judgeEntries(entries: EntryRecord[], game: GameRecord): Promise<JudgingOutcome> {
+  const judged = await judgeAndRecord(entries, game, 'finalization');
+  if (!judged.success) {
+    // Recorded on the finalization job; judging is retried on the next run
+    throw new Error(`AI judging failed: ${judged.error}`);
+  }
+
+  if (judged.reviewReason) {
+    console.log(`   🔎 Holding game for review: ${judged.reviewReason}`);
+  }
+  return joinJudgeScores(entries, judged, game);
+}
+
+// Next game already created by an earlier (interrupted) run?
+async function findOrCreateNextGame(gameId: number): Promise<number> {
+  const latestGameId = await repo.getLatestGameId();
+  if (latestGameId > gameId) {
+    return latestGameId;
+  }
+  return repo.createNextGame();
+}
+
+// Database-only finalization: winner stored in the database, prize sent by the payout service
+function databaseSteps(judge: EntryJudge = judgeEntries): FinalizationSteps {
+  return {
+    mode: 'database',
+    loadEntries: gameId => repo.getAllEntriesForGame(gameId),
+    judge,
+
+    async finalize(job, winner) {
+      await repo.finalizeGame(job.gameId, winner);
+    },
+
+    async pay(job, winner, game) {
+      // Failed transfers are retried by the payout service on later checks
+      await payoutService.payGame(job.gameId, winner.playerAddress, game.prizePool, game.config);
+    },
+
+    createNextGame: job => findOrCreateNextGame(job.gameId)
+  };
+}
+
+// PrizePool contract finalization: the contract pays the winner in finalizeGame
+function contractSteps(): FinalizationSteps {
+  return {
+    mode: 'contract',
+    // The contract's entry list, mirrored into the database
+    loadEntries: gameId => syncContractEntries(repo, getPrizePool(), gameId, PRIZE_POOL_DEPLOY_BLOCK),
+    judge: judgeEntries,
+
+    async finalize(job, winner) {
+      const { publicClient } = getAdminClients();
+      const prizePool = getPrizePool();
+
+      let hash = job.contractTxHash as `0x${string}` | null;
+      if (!hash) {
+        const onChainGame = await prizePool.getGame(BigInt(job.gameId));
+
+        if (!onChainGame.finalized) {
+          const winnerIndex = await contractWinnerIndex(prizePool, job.gameId, winner);
+
+          console.log(`📝 Calling finalizeGame on smart contract (winner index ${winnerIndex})...`);
+          hash = await prizePool.finalizeGame(BigInt(job.gameId), winnerIndex);
+
+          // Saved before waiting so a restart waits for this transaction instead of sending another
+          await repo.updateFinalizationJob(job.gameId, { contractTxHash: hash });
+          console.log(`✅ Transaction submitted: ${hash}`);
+        }
       }
-    });
 
-    const winnerEntry = entries[winnerIndex];
-    const winnerScore = scores[winnerIndex];
+      if (hash) {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error(`finalizeGame transaction ${hash} reverted`);
+        }
+        console.log(`✅ Transaction confirmed in block ${receipt.blockNumber}`);
+      }
 
-    console.log(`🏆 Winner: ${winnerEntry.title} by ${winnerEntry.playerAddress}`);
-    console.log(`   Score: ${highestScore}/30 (C:${winnerScore.creativity} T:${winnerScore.technique} TH:${winnerScore.theme})`);
+      // Mirror the result in the database
+      await repo.finalizeGame(job.gameId, winner);
+    },
 
-    // Call smart contract to finalize
-    console.log('📝 Calling finalizeGame on smart contract...');
-    const hash = await walletClient.writeContract({
-      address: PRIZE_POOL_ADDRESS,
-      abi: PRIZE_POOL_ABI,
-      functionName: 'finalizeGame',
-      args: [currentGameId, BigInt(winnerIndex)]
-    });
+    async pay(job) {
+      console.log(`   💰 Prize for game #${job.gameId} paid by the PrizePool contract`);
+    },
 
-    console.log(`✅ Transaction submitted: ${hash}`);
+    async createNextGame(job) {
+      const currentGameId = await getPrizePool().currentGameId();
 
-    // Wait for confirmation
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
-    console.log(`✅ Transaction confirmed in block ${receipt.blockNumber}`);
+      // Errors leave the step unfinished, so the next run retries instead of
+      // creating a database game the contract does not have
+      if (Number(currentGameId) <= job.gameId) {
+        await startNewGame();
+      }
 
-    // Start new game
-    await startNewGame();
+      return findOrCreateNextGame(job.gameId);
+    }
+  };
+}
 
-    const prizeAmountFormatted = formatUnits(prizePool, 6);
+// Finalize a game while holding its lock, so only one replica works on it
+async function runFinalization(gameId: number, steps: FinalizationSteps): Promise<FinalizationResult> {
+  const locked = await withLock(repo, gameLockName(gameId), GAME_LOCK_TTL_MS, () => finalizer.run(gameId, steps));
+  if (locked.acquired) {
+    return locked.result;
+  }
 
-    return {
-      success: true,
-      gameId,
-      winner: {
-        address: winnerEntry.playerAddress,
-        title: winnerEntry.title,
-        score: highestScore
-      },
-      prizeAmount: prizeAmountFormatted
-    };
+  const job = await repo.findFinalizationJob(gameId);
+  return {
+    success: false,
+    gameId,
+    state: job?.state ?? 'judging',
+    error: `Game #${gameId} is being finalized by ${locked.holder ?? 'another run'}`
+  };
+}
+
+/**
+ * Retry failed payouts and confirm in-flight ones, one game at a time under its lock
+ */
+export async function retryOpenPayouts(): Promise<PayoutRecord[]> {
+  const results: PayoutRecord[] = [];
+
+  for (const gameId of await payoutService.gamesWithOpenPayouts()) {
+    const locked = await withLock(repo, gameLockName(gameId), GAME_LOCK_TTL_MS, () => payoutService.retryPayouts(gameId));
+    if (locked.acquired) {
+      results.push(...locked.result);
+    } else {
+      console.log(`   ⏭️ Payouts for game #${gameId} are handled by ${locked.holder}`);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Contract mode (PRIZE_POOL_ADDRESS set): players enter through
+ * PrizePool.submitEntry and the contract pays the winner
+ */
+export function isContractMode(): boolean {
+  return !!PRIZE_POOL_ADDRESS && PRIZE_POOL_ADDRESS !== '0x0000000000000000000000000000000000000000';
+}
+
+function finalizationSteps(): FinalizationSteps {
+  return isContractMode() ? contractSteps() : databaseSteps();
+}
+
+async function toFinalizeResponse(result: FinalizationResult): Promise<FinalizeResponse> {
+  if (!result.success) {
+    return { success: false, gameId: result.gameId, awaitingReview: result.awaitingReview, error: result.error };
+  }
+
+  const payouts = await repo.getPayoutsForGame(result.gameId);
+  const game = await repo.findGame(result.gameId);
+  const job = await repo.findFinalizationJob(result.gameId);
+
+  return {
+    success: true,
+    gameId: result.gameId,
+    winner: result.winner && {
+      entryId: result.winner.id,
+      address: result.winner.playerAddress,
+      title: result.winner.title,
+      score: result.winner.scoreTotal ?? 0
+    },
+    prizeAmount: payouts.find(p => p.kind === 'winner')?.amount ?? game?.prizePool,
+    nextGameId: result.nextGameId,
+    tieBreak: job?.tieBreak
+  };
+}
+
+// Main finalization logic
+export async function finalizeCurrentGame(): Promise<FinalizeResponse> {
+  console.log('🎮 Starting game finalization...');
 
+  try {
+    // Check if contract is deployed
+    if (!isContractMode()) {
+      // Fallback: finalize without smart contract (for testing)
+      return await finalizeWithoutContract();
+    }
+
+    const prizePool = getPrizePool();
+
+    // Get current game ID
+    const currentGameId = await prizePool.currentGameId();
+
+    const gameId = Number(currentGameId);
+    console.log(`📊 Current game ID: ${gameId}`);
+
+    // A started job is resumed as is; the contract checks only apply to fresh games
+    if (!(await repo.findFinalizationJob(gameId))) {
+      const { entryCount, finalized } = await prizePool.getGame(currentGameId);
+
+      if (finalized) {
+        console.log('⚠️ Game already finalized');
+        return { success: false, error: 'Game already finalized' };
+      }
+
+      if (Number(entryCount) === 0) {
+        console.log('⚠️ No entries in this game');
+        // Start new game anyway
+        await startNewGame();
+        return { success: false, error: 'No entries, started new game' };
+      }
+    }
+
+    return await toFinalizeResponse(await runFinalization(gameId, contractSteps()));
   } catch (error) {
     console.error('❌ Finalization error:', error);
     return { 
@@ -220,187 +573,177 @@ export async function finalizeCurrentGame(): Promise<{
 }
 
 // Finalize without smart contract (for testing/demo)
-async function finalizeWithoutContract(): Promise<{
-  success: boolean;
-  gameId?: number;
-  winner?: { address: string; title: string; score: number };
-  prizeAmount?: string;
-  error?: string;
-}> {
+async function finalizeWithoutContract(judge?: EntryJudge): Promise<FinalizeResponse> {
   console.log('📝 Finalizing without smart contract (demo mode)...');
 
-  const gameId = 1; // Default game
-  const entries = entriesStorage?.get(gameId) || [];
+  const gameId = await repo.getLatestGameId();
+  const game = await repo.findGame(gameId);
+  const job = await repo.findFinalizationJob(gameId);
+
+  if (game?.finalized && (!job || job.state === 'next_game_created')) {
+    console.log('⚠️ Game already finalized');
+    return { success: false, error: 'Game already finalized' };
+  }
 
-  if (entries.length === 0) {
+  if (!job && (await repo.getEntriesForGame(gameId)).length === 0) {
     console.log('⚠️ No entries to judge');
     return { success: false, error: 'No entries' };
   }
 
-  // Judge all entries with AI
-  console.log(`🤖 Judging ${entries.length} entries with AI...`);
-  const submissions: SimpleArtSubmission[] = entries.map((e, i) => ({
-    id: i.toString(),
-    imageUrl: e.imageUrl,
-    title: e.title,
-    artist: e.playerAddress
-  }));
+  return toFinalizeResponse(await runFinalization(gameId, databaseSteps(judge)));
+}
+
+/**
+ * Finalize the latest game with a specific judge (admin route using AIJudgeService)
+ */
+export async function finalizeLatestGameWith(judge: EntryJudge): Promise<FinalizeResponse> {
+  if (isContractMode()) {
+    return { success: false, error: 'Custom judges are only supported without the PrizePool contract' };
+  }
+  return finalizeWithoutContract(judge);
+}
+
+/**
+ * Approve the judging of a game held for review and continue its finalization
+ */
+export async function approveJudging(gameId: number): Promise<FinalizeResponse> {
+  const job = await repo.findFinalizationJob(gameId);
+  if (!job || job.state !== 'scored' || !job.reviewReason) {
+    return { success: false, gameId, error: `Game #${gameId} is not waiting for review` };
+  }
 
-  const scores = await judgeArtworks(submissions);
+  if (job.reviewedAt === null) {
+    await repo.updateFinalizationJob(gameId, { reviewedAt: Date.now() });
+    console.log(`✅ Judging of game #${gameId} approved`);
+  }
 
-  // Find winner
-  let winnerIndex = 0;
-  let highestScore = 0;
+  return toFinalizeResponse(await runFinalization(gameId, finalizationSteps()));
+}
 
-  scores.forEach((score, index) => {
-    const total = score.creativity + score.technique + score.theme;
-    if (total > highestScore) {
-      highestScore = total;
-      winnerIndex = index;
+/**
+ * Judge a scored game again before payout. The new result replaces the stored
+ * scores (earlier runs stay in the audit log) and the game waits for admin
+ * approval before it continues to payout.
+ */
+export async function rejudgeGame(gameId: number): Promise<FinalizeResponse> {
+  const locked = await withLock(repo, gameLockName(gameId), GAME_LOCK_TTL_MS, async (): Promise<FinalizeResponse> => {
+    const job = await repo.findFinalizationJob(gameId);
+    if (!job || job.state !== 'scored' || job.contractTxHash) {
+      return { success: false, gameId, error: `Game #${gameId} can only be re-judged after scoring and before payout` };
     }
-  });
 
-  const winnerEntry = entries[winnerIndex];
-  const winnerScore = scores[winnerIndex];
+    const game = await repo.findGame(gameId);
+    const entries = await repo.getAllEntriesForGame(gameId);
+    if (!game || entries.length === 0) {
+      return { success: false, gameId, error: `No entries for game #${gameId}` };
+    }
 
-  console.log(`🏆 Winner: ${winnerEntry.title} by ${winnerEntry.playerAddress}`);
-  console.log(`   Score: ${highestScore}/30`);
-  console.log(`   Reasoning: ${winnerScore.reasoning}`);
+    console.log(`🔁 Re-judging game #${gameId} (${entries.length} entries, ${game.judgingMode} mode)`);
+    const judged = await judgeAndRecord(entries, game, 'rejudge');
+    if (!judged.success) {
+      return { success: false, gameId, error: `AI judging failed: ${judged.error}` };
+    }
 
-  // Calculate prize (demo: count entries * $0.05 * 90%)
-  const prizeAmount = (entries.length * 0.05 * 0.9).toFixed(2);
+    const outcome = await joinJudgeScores(entries, judged, game);
+    const saved = await repo.saveJudgingResult(gameId, {
+      scores: outcome.scores,
+      winnerEntryId: outcome.winnerEntryId,
+      panelScores: outcome.panelScores ?? [],
+      reviewReason: outcome.reviewReason ? `re-judged; ${outcome.reviewReason}` : 're-judged',
+      tieBreak: outcome.tieBreak
+    }, 'scored');
+    if (!saved) {
+      return { success: false, gameId, error: `Game #${gameId} moved on while it was being re-judged` };
+    }
 
-  return {
-    success: true,
-    gameId,
-    winner: {
-      address: winnerEntry.playerAddress,
-      title: winnerEntry.title,
-      score: highestScore
-    },
-    prizeAmount
-  };
+    const winner = (await repo.getAllEntriesForGame(gameId)).find(e => e.id === outcome.winnerEntryId)!;
+    return {
+      success: true,
+      gameId,
+      winner: {
+        entryId: winner.id,
+        address: winner.playerAddress,
+        title: winner.title,
+        score: winner.scoreTotal ?? 0
+      },
+      awaitingReview: true,
+      tieBreak: outcome.tieBreak
+    };
+  });
+
+  if (!locked.acquired) {
+    return { success: false, gameId, error: `Game #${gameId} is being finalized by ${locked.holder ?? 'another run'}` };
+  }
+  return locked.result;
 }
 
-// Start a new game
+// Start a new game (throws when the contract did not start it)
 async function startNewGame(): Promise<void> {
   console.log('🆕 Starting new game...');
 
-  if (!PRIZE_POOL_ADDRESS || PRIZE_POOL_ADDRESS === '0x0000000000000000000000000000000000000000') {
+  if (!isContractMode()) {
     console.log('📝 Demo mode: New game started (no contract)');
     return;
   }
 
-  try {
-    const { publicClient, walletClient } = getClients();
+  const { publicClient } = getAdminClients();
 
-    const hash = await walletClient.writeContract({
-      address: PRIZE_POOL_ADDRESS,
-      abi: PRIZE_POOL_ABI,
-      functionName: 'startGame',
-      args: []
-    });
+  // The contract takes the game duration in seconds (the next game is created with the default config)
+  const hash = await getPrizePool().startGame(BigInt(Math.round(DEFAULT_GAME_CONFIG.durationMs / 1000)));
 
-    await publicClient.waitForTransactionReceipt({ hash });
-    console.log('✅ New game started');
-  } catch (error) {
-    console.error('❌ Failed to start new game:', error);
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') {
+    throw new Error(`startGame transaction ${hash} reverted`);
   }
+  console.log('✅ New game started');
 }
 
-// Check and finalize expired games
+// Check and finalize expired games, resuming any finalization left unfinished
 async function checkAndFinalizeExpiredGames(): Promise<void> {
   console.log('🔍 Checking for expired games...');
   
   try {
-    const expiredGames = await db.getExpiredGames();
-    
-    if (expiredGames.length === 0) {
+    // Finish payouts from earlier runs before finalizing more games
+    await retryOpenPayouts();
+
+    if (isContractMode()) {
+      await syncCurrentContractGame().catch(error => console.error('❌ Could not mirror PrizePool entries:', error));
+    }
+
+    const unfinished = await repo.listUnfinishedFinalizationJobs();
+    const expiredGames = await repo.getExpiredGames();
+
+    const gameIds = [...new Set([...unfinished.map(j => j.gameId), ...expiredGames.map(g => g.gameId)])];
+
+    if (gameIds.length === 0) {
       console.log('   No expired games to finalize');
       return;
     }
 
-    for (const game of expiredGames) {
-      console.log(`\n🎮 Finalizing game #${game.gameId}...`);
-      
-      // Get entries for this game
-      const entries = await db.getAllEntriesForGame(game.gameId);
-      
-      if (entries.length === 0) {
-        console.log(`   No entries for game #${game.gameId}, skipping`);
-        continue;
-      }
+    for (const gameId of gameIds) {
+      console.log(`\n🎮 Finalizing game #${gameId}...`);
 
-      // Judge entries with AI
-      console.log(`   🤖 AI judging ${entries.length} entries...`);
-      const submissions: SimpleArtSubmission[] = entries.map(e => ({
-        id: e.id.toString(),
-        imageUrl: e.imageUrl,
-        title: e.title,
-        artist: e.playerAddress
-      }));
-
-      const scores = await judgeArtworks(submissions);
-      
-      // Find winner (highest total score)
-      let winnerIndex = 0;
-      let highestScore = 0;
-      
-      scores.forEach((score, index) => {
-        const total = score.creativity + score.technique + score.theme;
-        if (total > highestScore) {
-          highestScore = total;
-          winnerIndex = index;
-        }
-        
-        // Update entry scores in database
-        db.updateEntryScores(
-          game.gameId,
-          entries[index].playerAddress,
-          score.creativity,
-          score.technique,
-          score.theme,
-          score.reasoning
-        );
-      });
-
-      const winner = entries[winnerIndex];
-      const winnerScore = scores[winnerIndex];
-
-      // Calculate prize distribution
-      const totalPrize = parseFloat(game.prizePool);
-      const winnerPrize = (totalPrize * 0.9).toFixed(2);  // 90% to winner
-      const platformFee = (totalPrize * 0.1).toFixed(2);  // 10% to AsterPay
-
-      console.log(`   🏆 Winner: "${winner.title}" by ${winner.playerAddress}`);
-      console.log(`   📊 Score: ${highestScore}/300`);
-      console.log(`   💰 Prize: $${winnerPrize} USDC (winner) + $${platformFee} (platform fee)`);
-
-      // Finalize in database
-      await db.finalizeGame(
-        game.gameId,
-        winner.playerAddress,
-        winner.title,
-        highestScore,
-        winner.imageUrl
-      );
-
-      console.log(`   ✅ Game #${game.gameId} finalized!`);
-      
-      // TODO: Actually transfer USDC to winner and platform wallet
-      // For now, log the intended transfers
-      console.log(`   📤 [Pending] Transfer $${winnerPrize} USDC to ${winner.playerAddress}`);
-      console.log(`   📤 [Pending] Transfer $${platformFee} USDC to ${ASTERPAY_WALLET}`);
-      
-      // Create next game
-      const nextGameId = await db.createNextGame();
-      console.log(`   🆕 Next game #${nextGameId} ready!`);
+      const result = await runFinalization(gameId, finalizationSteps());
+      if (!result.success) {
+        console.log(`   ⏭️ Game #${gameId} will be retried on the next check`);
+      }
     }
   } catch (error) {
     console.error('❌ Error checking expired games:', error);
   }
 }
 
+// Run the scheduled check only on the replica holding the cron leader lease
+async function runScheduledCheck(): Promise<void> {
+  if (!(await repo.acquireLock(CRON_LEADER_LOCK, INSTANCE_ID, CRON_LEADER_TTL_MS))) {
+    const leader = (await repo.listLocks()).find(l => l.name === CRON_LEADER_LOCK);
+    console.log(`⏸️ Skipping check: ${leader?.holder ?? 'another instance'} is the cron leader`);
+    return;
+  }
+
+  await checkAndFinalizeExpiredGames();
+}
+
 // Schedule game finalization checks (runs every 5 minutes)
 export function startCronScheduler(): void {
   console.log('⏰ Starting cron scheduler...');
@@ -411,22 +754,152 @@ export function startCronScheduler(): void {
     console.log('🔄 CHECKING EXPIRED GAMES - ' + new Date().toISOString());
     console.log('═══════════════════════════════════════');
 
-    await checkAndFinalizeExpiredGames();
+    await runScheduledCheck().catch(error => console.error('❌ Scheduled check failed:', error));
 
     console.log('═══════════════════════════════════════\n');
   });
 
   console.log('✅ Cron scheduled: Check every 5 minutes for expired games');
+
+  // Reconcile entries, payments, payouts and balances every hour
+  cron.schedule('30 * * * *', async () => {
+    await runReconciliation().catch(error => console.error('❌ Reconciliation failed:', error));
+  });
+  console.log('✅ Cron scheduled: Reconciliation every hour');
   
   // Run initial check on startup
   setTimeout(async () => {
     console.log('🚀 Initial check for expired games...');
-    await checkAndFinalizeExpiredGames();
+    await runScheduledCheck().catch(error => console.error('❌ Scheduled check failed:', error));
   }, 5000);
 }
 
+// ============ Chain indexer ============
+
+let chainIndexer: ChainIndexer | null = null;
+
+// Addresses whose USDC transfers are indexed: fee recipients, the prize pool and the payout wallet
+function watchedWallets(): `0x${string}`[] {
+  const wallets = [ASTERPAY_WALLET, PLATFORM_WALLET, PRIZE_POOL_ADDRESS].filter(
+    (address): address is `0x${string}` => !!address && isAddress(address, { strict: false })
+  );
+  if (ADMIN_PRIVATE_KEY) {
+    wallets.push(privateKeyToAccount(ADMIN_PRIVATE_KEY).address);
+  }
+  return [...new Set(wallets.map(address => address.toLowerCase() as `0x${string}`))];
+}
+
+/**
+ * Index the chain up to the head, on the replica holding the indexer lease.
+ * Returns null when another replica is indexing or the indexer is disabled.
+ */
+export async function runChainIndexer(): Promise<ChainIndexRun | null> {
+  const indexer = chainIndexer;
+  if (!indexer) {
+    return null;
+  }
+
+  const locked = await withLock(repo, CHAIN_INDEXER_LOCK, CHAIN_INDEXER_TTL_MS, async () => {
+    let run = await indexer.poll();
+    let events = run.events;
+    let rolledBack = run.rolledBack;
+    while (!run.caughtUp) {
+      run = await indexer.poll();
+      events += run.events;
+      rolledBack += run.rolledBack;
+    }
+    return { ...run, events, rolledBack };
+  });
+
+  if (!locked.acquired) {
+    return null;
+  }
+  if (locked.result.events > 0 || locked.result.rolledBack > 0) {
+    console.log(`🔗 Indexed through block ${locked.result.indexedThrough}: ${locked.result.events} new events, ${locked.result.rolledBack} rolled back`);
+  }
+  return locked.result;
+}
+
+// Follow PrizePool events and USDC transfers of the arena wallets (CHAIN_INDEXER=true)
+export function startChainIndexer(): void {
+  if (process.env.CHAIN_INDEXER !== 'true') {
+    return;
+  }
+
+  const publicClient = createPublicClient({ chain: CHAIN, transport: http() });
+  const startBlock = CHAIN_INDEXER_START_BLOCK;
+  const source = new ViemChainSource(publicClient, {
+    prizePool: isContractMode() ? PRIZE_POOL_ADDRESS : null,
+    usdc: USDC_ADDRESS,
+    wallets: watchedWallets()
+  });
+
+  chainIndexer = new ChainIndexer(repo, source, {
+    name: CHAIN_INDEXER_NAME,
+    confirmations: CHAIN_CONFIRMATIONS,
+    startBlock: startBlock ? parseInt(startBlock) : null,
+    batchSize: CHAIN_INDEXER_BATCH_BLOCKS
+  });
+
+  // Skip a tick while the previous poll is still catching up
+  let polling = false;
+  setInterval(() => {
+    if (polling) return;
+    polling = true;
+    runChainIndexer()
+      .catch(error => console.error('❌ Chain indexer poll failed:', error instanceof Error ? error.message : error))
+      .finally(() => { polling = false; });
+  }, CHAIN_INDEXER_INTERVAL_MS);
+
+  console.log(`✅ Chain indexer: every ${CHAIN_INDEXER_INTERVAL_MS / 1000}s, ${CHAIN_CONFIRMATIONS} confirmations`);
+}
+
+// ============ Reconciliation ============
+
+function createReconciler(): Reconciler {
+  const publicClient = createPublicClient({ chain: CHAIN, transport: http() });
+  const contractMode = isContractMode();
+  const prizePool = contractMode ? new PrizePoolContract(PRIZE_POOL_ADDRESS, publicClient) : null;
+
+  return new Reconciler(repo, new ViemReconciliationChain(publicClient, USDC_ADDRESS, prizePool), {
+    gameWindow: RECONCILIATION_GAMES,
+    contractMode,
+    livePayouts: payoutService.senderName === 'chain',
+    wallets: {
+      prizePool: contractMode ? PRIZE_POOL_ADDRESS : null,
+      payout: ADMIN_PRIVATE_KEY ? privateKeyToAccount(ADMIN_PRIVATE_KEY).address : null,
+      feeRecipient: getAddress(ASTERPAY_WALLET.toLowerCase())
+    },
+    // Indexed transfers are only complete from a known start block
+    indexer: process.env.CHAIN_INDEXER === 'true' && CHAIN_INDEXER_START_BLOCK
+      ? { name: CHAIN_INDEXER_NAME, fromBlock: parseInt(CHAIN_INDEXER_START_BLOCK) }
+      : null
+  }, createReconciliationAlert(RECONCILIATION_ALERT_WEBHOOK));
+}
+
+/**
+ * Compare recorded entries, payments, payouts and balances and store a report.
+ * Returns null when another replica is running a reconciliation.
+ */
+export async function runReconciliation(): Promise<ReconciliationReport | null> {
+  const locked = await withLock(repo, RECONCILIATION_LOCK, RECONCILIATION_TTL_MS, () => createReconciler().run());
+  if (!locked.acquired) {
+    console.log(`⏭️ Reconciliation is already running (${locked.holder ?? 'unknown holder'})`);
+    return null;
+  }
+
+  const report = locked.result;
+  const errors = report.discrepancies.filter(d => d.severity === 'error').length;
+  if (report.status === 'failed') {
+    console.error(`❌ Reconciliation #${report.id} failed: ${report.error}`);
+  } else {
+    console.log(`${errors > 0 ? '🚩' : '✅'} Reconciliation #${report.id}: ${report.games.length} games, ${errors} errors, ${report.discrepancies.length - errors} warnings`);
+  }
+  return report;
+}
+
 // Manual trigger for testing
-export async function manualFinalize(): Promise<any> {
+export async function manualFinalize(): Promise<FinalizeResponse> {
   console.log('🔧 Manual finalization triggered');
   return await finalizeCurrentGame();
 }
@@ -0,0 +1,115 @@
+import { formatUnits, parseUnits } from 'viem';
+import { z } from 'zod';
+
+// Currencies entry fees can be charged in, with their token decimals
+export const CURRENCIES = { USDC: 6 } as const;
+export type Currency = keyof typeof CURRENCIES;
+
+export const BPS_DENOMINATOR = 10000;
+
+/**
+ * Entry and payout terms of a game. Fixed once the game has its first entry,
+ * since every entry must pay the same fee into the same split.
+ */
+export interface GameConfig {
+  /** Entry fee as a decimal amount, e.g. "0.05" */
+  entryFee: string;
+  currency: Currency;
+  /** Platform share of the prize pool; the winner gets the rest */
+  platformFeeBps: number;
+  /** How long the game runs from its first entry */
+  durationMs: number;
+  /** Null: no limit */
+  maxEntries: number | null;
+}
+
+/** Terms of games created before configs were stored */
+export const LEGACY_GAME_CONFIG: GameConfig = {
+  entryFee: '0.05',
+  currency: 'USDC',
+  platformFeeBps: 1000,
+  durationMs: 60 * 60 * 1000,
+  maxEntries: null
+};
+
+/** Admin changes to a game's config (validated against the currency's decimals) */
+export const GameConfigSchema = z.object({
+  entryFee: z.string().regex(/^\d+(\.\d{1,6})?$/, 'Entry fee must be a decimal amount with at most 6 decimals')
+    // Malformed fees are reported by the regex above
+    .refine(fee => !/^\d+(\.\d{1,6})?$/.test(fee) || parseUnits(fee, CURRENCIES.USDC) > BigInt(0), 'Entry fee must be positive')
+    .optional(),
+  currency: z.enum(Object.keys(CURRENCIES) as [Currency, ...Currency[]]).optional(),
+  platformFeeBps: z.number().int().min(0).max(BPS_DENOMINATOR).optional(),
+  durationMs: z.number().int().min(60 * 1000).max(30 * 24 * 60 * 60 * 1000).optional(),
+  maxEntries: z.number().int().positive().nullable().optional()
+});
+
+export type GameConfigUpdate = z.infer<typeof GameConfigSchema>;
+
+// Environment variable behind each configurable field of DEFAULT_GAME_CONFIG
+const GAME_CONFIG_ENV: Record<Exclude<keyof GameConfig, 'currency'>, string> = {
+  entryFee: 'GAME_ENTRY_FEE',
+  platformFeeBps: 'GAME_PLATFORM_FEE_BPS',
+  durationMs: 'GAME_DURATION_MS',
+  maxEntries: 'GAME_MAX_ENTRIES'
+};
+
+// Integer environment value; anything else becomes NaN so validation reports it
+function envInteger(name: string): number | undefined {
+  const value = process.env[name]?.trim();
+  if (!value) return undefined;
+  return /^-?\d+$/.test(value) ? Number(value) : NaN;
+}
+
+/**
+ * Terms of new games from GAME_ENTRY_FEE, GAME_PLATFORM_FEE_BPS,
+ * GAME_DURATION_MS and GAME_MAX_ENTRIES, held to the same rules as admin
+ * changes. Throws at startup naming every invalid variable.
+ */
+export function loadDefaultGameConfig(): GameConfig {
+  const config: GameConfig = {
+    entryFee: process.env.GAME_ENTRY_FEE?.trim() || LEGACY_GAME_CONFIG.entryFee,
+    currency: 'USDC',
+    platformFeeBps: envInteger('GAME_PLATFORM_FEE_BPS') ?? LEGACY_GAME_CONFIG.platformFeeBps,
+    durationMs: envInteger('GAME_DURATION_MS') ?? LEGACY_GAME_CONFIG.durationMs,
+    maxEntries: envInteger('GAME_MAX_ENTRIES') ?? null
+  };
+
+  const parsed = GameConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => {
+      const field = issue.path[0] as keyof typeof GAME_CONFIG_ENV;
+      const message = issue.code === 'invalid_type' ? 'Expected an integer' : issue.message;
+      return `${GAME_CONFIG_ENV[field]}=${process.env[GAME_CONFIG_ENV[field]]}: ${message}`;
+    });
+    throw new Error(`Invalid game config in the environment: ${problems.join('; ')}`);
+  }
+  return config;
+}
+
+/** Terms of new games */
+export const DEFAULT_GAME_CONFIG: GameConfig = loadDefaultGameConfig();
+
+/** Entry fee in token base units */
+export function entryFeeUnits(config: GameConfig): bigint {
+  return parseUnits(config.entryFee, CURRENCIES[config.currency]);
+}
+
+/** Format token base units as a decimal amount of the game's currency */
+export function formatAmount(amount: bigint, config: GameConfig): string {
+  return formatUnits(amount, CURRENCIES[config.currency]);
+}
+
+/**
+ * Split a prize pool (base units) into the winner prize and the platform fee,
+ * rounding the fee down as the PrizePool contract does
+ */
+export function splitPrizePool(total: bigint, config: GameConfig): { winner: bigint; platform: bigint } {
+  const platform = (total * BigInt(config.platformFeeBps)) / BigInt(BPS_DENOMINATOR);
+  return { winner: total - platform, platform };
+}
+
+/** Whether a game with this config can take another entry */
+export function acceptsEntries(config: GameConfig, entryCount: number): boolean {
+  return config.maxEntries === null || entryCount < config.maxEntries;
+}
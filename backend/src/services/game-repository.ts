@@ -0,0 +1,529 @@
+import { PostgresGameRepository } from './database';
+import { InMemoryGameRepository } from './memory-repository';
+import type { JudgingMode } from './ai-judge';
+import type { EnsembleResult, PanelInvocation } from './judge-ensemble';
+import { acceptsEntries, type GameConfig } from './game-config';
+import type { CriterionScores, Rubric } from './rubric';
+import type { TieBreakReport, TieBreakSeed } from './tie-break';
+import type { PaymentIntent } from './x402-payment';
+
+export interface GameRecord {
+  gameId: number;
+  startTime: number;
+  endTime: number;
+  prizePool: string;
+  entryCount: number;
+  finalized: boolean;
+  started: boolean;
+  judgingMode: JudgingMode;
+  /** What entries should depict (null: open theme) */
+  theme: string | null;
+  rubric: Rubric;
+  /** Entry fee, fee split, duration and entry limit */
+  config: GameConfig;
+  /** Seed of the random tie-break step, stored the first time a tie reaches it */
+  tieBreakSeed: TieBreakSeed | null;
+  winnerAddress?: string;
+  winnerTitle?: string;
+  winnerScore?: number;
+  winnerImageUrl?: string;
+}
+
+/** Per-game settings an admin can change before the game is judged (the config only before its first entry) */
+export type GameSettingsUpdate = Partial<Pick<GameRecord, 'judgingMode' | 'theme' | 'rubric' | 'config'>>;
+
+export interface EntryRecord {
+  id: number;
+  gameId: number;
+  imageUrl: string;
+  title: string;
+  playerAddress: string;
+  submittedAt: number;
+  /** Score per criterion of the game's rubric */
+  criterionScores?: CriterionScores;
+  scoreTotal?: number;
+  reasoning?: string;
+  isWinner: boolean;
+}
+
+export interface ExpiredGame {
+  gameId: number;
+  entryCount: number;
+  prizePool: string;
+}
+
+/** Log index marking that a whole transaction paid one entry (legacy rows, x402 settlements) */
+export const WHOLE_TRANSACTION_LOG_INDEX = -1;
+
+/** A specific transfer log that paid an entry fee */
+export interface PaymentRef {
+  txHash: string;
+  logIndex: number;
+  amount?: string;
+  from?: string;
+  to?: string;
+  blockNumber?: number;
+}
+
+export interface ConsumedPaymentRecord {
+  txHash: string;
+  /** -1 for legacy entries where only the transaction hash is known */
+  logIndex: number;
+  gameId: number;
+  entryId: number | null;
+  playerAddress: string;
+  amount: string | null;
+  payerAddress: string | null;
+  recipientAddress: string | null;
+  blockNumber: number | null;
+  consumedAt: number;
+}
+
+/**
+ * Thrown when a payment that already funded an entry is used again
+ */
+export class PaymentAlreadyConsumedError extends Error {
+  constructor(public readonly consumed: ConsumedPaymentRecord) {
+    super(`Payment ${consumed.txHash} (log ${consumed.logIndex}) already used for game #${consumed.gameId}`);
+    this.name = 'PaymentAlreadyConsumedError';
+  }
+}
+
+/** Why a game turned an entry away */
+export type EntryRejection = 'finalized' | 'already-entered' | 'pending' | 'full';
+
+/**
+ * Thrown when a game cannot take a player's entry, or hold a slot for it
+ */
+export class EntryRejectedError extends Error {
+  constructor(public readonly reason: EntryRejection, message: string) {
+    super(message);
+    this.name = 'EntryRejectedError';
+  }
+}
+
+/**
+ * Why a game cannot take a player's entry (null: it can). `held` counts the
+ * live entry slots other players hold; `holding` whether this player holds one
+ * (only an error when asking for a new hold).
+ */
+export function entryRejection(
+  game: Pick<GameRecord, 'gameId' | 'finalized' | 'entryCount' | 'config'>,
+  player: { entered: boolean; holding?: boolean },
+  held: number
+): EntryRejectedError | null {
+  if (game.finalized) {
+    return new EntryRejectedError('finalized', `Game #${game.gameId} is finalized`);
+  }
+  if (player.entered) {
+    return new EntryRejectedError('already-entered', 'Already entered this game');
+  }
+  if (player.holding) {
+    return new EntryRejectedError('pending', 'An entry payment from this wallet is already settling');
+  }
+  if (!acceptsEntries(game.config, game.entryCount + held)) {
+    return new EntryRejectedError('full', `Game is full (${game.config.maxEntries} entries)`);
+  }
+  return null;
+}
+
+export type PayoutKind = 'winner' | 'platform';
+
+/**
+ * pending -> sent -> confirmed. Failed transfers are retried until they run
+ * out of attempts and are flagged for manual review.
+ */
+export type PayoutStatus = 'pending' | 'sending' | 'sent' | 'confirmed' | 'failed' | 'flagged';
+
+export interface PayoutRecord {
+  id: number;
+  gameId: number;
+  kind: PayoutKind;
+  recipientAddress: string;
+  amount: string;
+  txHash: string | null;
+  /** Admin wallet nonce of the signed transfer */
+  nonce: number | null;
+  /** Signed transfer, kept until it is confirmed so it can be broadcast again */
+  signedTx: string | null;
+  status: PayoutStatus;
+  attempts: number;
+  lastError: string | null;
+  blockNumber: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PayoutUpdate = Partial<Pick<PayoutRecord, 'status' | 'txHash' | 'nonce' | 'signedTx' | 'attempts' | 'lastError' | 'blockNumber'>>;
+
+/**
+ * Finalization steps, in order. Each step is persisted before the next one
+ * runs, so a restarted process resumes where it stopped.
+ */
+export const FINALIZATION_STATES = ['judging', 'scored', 'finalized', 'paid', 'next_game_created'] as const;
+export type FinalizationState = typeof FINALIZATION_STATES[number];
+
+export interface FinalizationJob {
+  gameId: number;
+  state: FinalizationState;
+  winnerEntryId: number | null;
+  contractTxHash: string | null;
+  nextGameId: number | null;
+  attempts: number;
+  lastError: string | null;
+  /** Why the judging needs admin review before payout (null: no review needed) */
+  reviewReason: string | null;
+  reviewedAt: number | null;
+  /** How the winner was settled among tied entries (null for games scored before it was recorded) */
+  tieBreak: TieBreakReport | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type FinalizationJobUpdate = Partial<Pick<FinalizationJob, 'contractTxHash' | 'attempts' | 'lastError' | 'reviewedAt'>>;
+
+/** Scores a judging run gave one entry */
+export interface EntryScore {
+  entryId: number;
+  /** Score per criterion of the game's rubric */
+  criteria: CriterionScores;
+  /** Rubric-weighted total */
+  total: number;
+  reasoning: string;
+}
+
+/** Scores one judge of the panel gave one entry */
+export interface PanelScore extends EntryScore {
+  judge: string;
+}
+
+/** Everything a judging run decided, stored in one step */
+export interface JudgingRecord {
+  /** Aggregated scores, one per entry */
+  scores: EntryScore[];
+  winnerEntryId: number;
+  /** Each judge's own scores */
+  panelScores: PanelScore[];
+  reviewReason: string | null;
+  tieBreak: TieBreakReport;
+}
+
+/** What a judging run was started by */
+export type JudgingTrigger = 'finalization' | 'rejudge';
+
+/** Aggregated outcome of a successful judging run */
+export type JudgingRunResult = Pick<
+  EnsembleResult,
+  'scores' | 'ranking' | 'winnerId' | 'winnerScore' | 'strategy' | 'failedJudges' | 'spread' | 'flags' | 'reviewReason'
+>;
+
+/** Audit record of one judging run: every provider call and what came of it */
+export interface JudgingRun {
+  id: number;
+  gameId: number;
+  trigger: JudgingTrigger;
+  mode: JudgingMode;
+  /** Panel description, e.g. "mock (mock-image-hash)" */
+  judges: string;
+  /** estimateCost() of the panel for this game, in USD */
+  estimatedCost: number;
+  success: boolean;
+  error: string | null;
+  /** Null when the run failed */
+  result: JudgingRunResult | null;
+  invocations: PanelInvocation[];
+  startedAt: number;
+  finishedAt: number;
+}
+
+export type NewJudgingRun = Omit<JudgingRun, 'id'>;
+
+/** A contract or token event seen by the chain indexer */
+export interface ChainEvent {
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  /** Contract that emitted the event */
+  address: string;
+  /** e.g. "EntrySubmitted" or "Transfer" */
+  eventName: string;
+  /** Decoded arguments, integers as decimal strings */
+  args: Record<string, string | boolean>;
+}
+
+export interface ChainEventRecord extends ChainEvent {
+  id: number;
+  indexer: string;
+  /** At least the confirmation depth below the chain head; never rolled back */
+  confirmed: boolean;
+  indexedAt: number;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+/** How far a chain indexer has got */
+export interface ChainCursor {
+  indexer: string;
+  /** Last block indexed */
+  blockNumber: number;
+  blockHash: string;
+  /** Events up to this block are confirmed */
+  confirmedBlockNumber: number;
+  updatedAt: number;
+}
+
+/** Events of a block range, stored together with the cursor move */
+export interface ChainIndexBatch {
+  events: ChainEvent[];
+  /** Unconfirmed blocks of the range, kept to detect reorgs */
+  blocks: IndexedBlock[];
+  /** Last block of the range (the new cursor) */
+  head: IndexedBlock;
+  /** Confirm events and forget block hashes up to this block */
+  confirmedThrough: number;
+}
+
+/** ok: every total agrees; discrepancies: at least one error was found; failed: the run did not complete */
+export type ReconciliationStatus = 'ok' | 'discrepancies' | 'failed';
+
+/** Something that does not add up between entries, payments, payouts and the chain */
+export interface Discrepancy {
+  /** Null for checks that are not about one game, e.g. a wallet balance */
+  gameId: number | null;
+  /** e.g. "prize_pool_mismatch" */
+  check: string;
+  severity: 'warning' | 'error';
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+/** Money totals of one game, amounts in USDC */
+export interface GameReconciliation {
+  gameId: number;
+  finalized: boolean;
+  entries: number;
+  payments: number;
+  /** Sum of the verified payment amounts */
+  paymentTotal: string;
+  /** games.prize_pool */
+  recordedPrizePool: string;
+  /** The PrizePool contract's prize pool (contract mode only) */
+  contractPrizePool: string | null;
+  payoutTotal: string;
+}
+
+/** USDC held by a wallet or the contract */
+export interface BalanceCheck {
+  label: string;
+  address: string;
+  balance: string;
+  /** What the balance must cover (null: reported only) */
+  expected: string | null;
+}
+
+export interface ReconciliationReport {
+  id: number;
+  status: ReconciliationStatus;
+  games: GameReconciliation[];
+  balances: BalanceCheck[];
+  discrepancies: Discrepancy[];
+  error: string | null;
+  startedAt: number;
+  finishedAt: number;
+}
+
+export type NewReconciliationReport = Omit<ReconciliationReport, 'id'>;
+
+/** A lease held by one backend instance until it is released or expires */
+export interface JobLock {
+  name: string;
+  holder: string;
+  acquiredAt: number;
+  expiresAt: number;
+}
+
+export interface ArenaStats {
+  totalGames: number;
+  totalEntries: number;
+  totalPrizeDistributed: string;
+  uniquePlayers: number;
+}
+
+/**
+ * Storage for games and entries.
+ *
+ * Both implementations (Postgres and in-memory) must behave identically:
+ * addresses are stored lowercase, a game is created lazily and only starts
+ * its timer on the first entry, and entry lists use the same ordering.
+ */
+export interface GameRepository {
+  readonly kind: 'postgres' | 'memory';
+
+  init(): Promise<void>;
+
+  // Games
+  findGame(gameId: number): Promise<GameRecord | null>;
+  /** New games are created with DEFAULT_GAME_CONFIG */
+  getOrCreateGame(gameId: number): Promise<GameRecord>;
+  /** Start the game's timer (durationMs defaults to the game's config) */
+  startGameTimer(gameId: number, durationMs?: number): Promise<{ startTime: number; endTime: number; updated: boolean }>;
+  getExpiredGames(): Promise<ExpiredGame[]>;
+  createNextGame(): Promise<number>;
+  getLatestGameId(): Promise<number>;
+  updateGameSettings(gameId: number, changes: GameSettingsUpdate): Promise<void>;
+  /** Store the game's tie-break seed unless it has one already; returns the stored seed */
+  saveTieBreakSeed(gameId: number, seed: TieBreakSeed): Promise<TieBreakSeed>;
+  /** Mark the game finalized with this winning entry (matched by entry ID) */
+  finalizeGame(gameId: number, winner: EntryRecord): Promise<void>;
+
+  // Entries
+  /**
+   * Add an entry, consume its payment and add the game's entry fee to its
+   * prize pool and entry count, in one step. The player's entry slot hold, if
+   * any, is used up.
+   * Throws EntryRejectedError if the game cannot take the entry (checked in
+   * the same step, before the payment) and PaymentAlreadyConsumedError if the
+   * payment funded another entry.
+   */
+  addEntry(
+    gameId: number,
+    imageUrl: string,
+    title: string,
+    playerAddress: string,
+    payment: PaymentRef
+  ): Promise<{ id: number }>;
+  /** Entries in submission order, newest first */
+  getEntriesForGame(gameId: number): Promise<EntryRecord[]>;
+  /** Entries ranked by total score (unscored last), then oldest first */
+  getAllEntriesForGame(gameId: number): Promise<EntryRecord[]>;
+  hasPlayerEntered(gameId: number, playerAddress: string): Promise<boolean>;
+  /**
+   * Hold an entry slot for the player for ttlMs, so the game cannot fill up
+   * while their payment settles. Throws EntryRejectedError if the game
+   * cannot take their entry or they hold a slot already.
+   */
+  reserveEntry(gameId: number, playerAddress: string, ttlMs: number): Promise<void>;
+  releaseEntryReservation(gameId: number, playerAddress: string): Promise<void>;
+
+  // Payments
+  findConsumedPayment(txHash: string, logIndex: number): Promise<ConsumedPaymentRecord | null>;
+  listConsumedPayments(filter?: { txHash?: string; gameId?: number; limit?: number }): Promise<ConsumedPaymentRecord[]>;
+
+  // Payment intents
+  savePaymentIntent(intent: PaymentIntent): Promise<void>;
+  findPaymentIntent(intentId: string): Promise<PaymentIntent | null>;
+  /** Latest pending, unexpired intent for this game and wallet */
+  findOpenPaymentIntent(gameId: number, playerAddress: string): Promise<PaymentIntent | null>;
+  /** Pending -> paid; returns false if the intent was not pending or has expired */
+  markPaymentIntentPaid(intentId: string, txHash: string, entryId: number): Promise<boolean>;
+  markPaymentIntentExpired(intentId: string): Promise<void>;
+
+  // Payouts
+  /** Record a payout; returns the existing one if the game already has a payout of this kind */
+  createPayout(gameId: number, kind: PayoutKind, recipientAddress: string, amount: string): Promise<PayoutRecord>;
+  updatePayout(payoutId: number, changes: PayoutUpdate): Promise<void>;
+  getPayoutsForGame(gameId: number): Promise<PayoutRecord[]>;
+  listPayouts(filter?: { gameId?: number; status?: PayoutStatus; limit?: number }): Promise<PayoutRecord[]>;
+
+  // Finalization jobs
+  /** Start the finalization job of a game, or return the existing one */
+  getOrCreateFinalizationJob(gameId: number): Promise<FinalizationJob>;
+  findFinalizationJob(gameId: number): Promise<FinalizationJob | null>;
+  /** Jobs that have not reached next_game_created, oldest game first */
+  listUnfinishedFinalizationJobs(): Promise<FinalizationJob[]>;
+  /**
+   * Store every entry's scores, each judge's scores and the winner, moving
+   * judging -> scored in one step. With `from` = 'scored' a re-judged result
+   * replaces the stored one and clears any earlier approval.
+   * Returns false (and stores nothing) if the job was not in `from`.
+   */
+  saveJudgingResult(gameId: number, result: JudgingRecord, from?: 'judging' | 'scored'): Promise<boolean>;
+  /** Per-judge scores of a game, by entry then judge */
+  getPanelScores(gameId: number): Promise<PanelScore[]>;
+  /** Append a judging run to the audit log (runs are never changed or removed) */
+  saveJudgingRun(run: NewJudgingRun): Promise<JudgingRun>;
+  /** A game's judging runs, oldest first */
+  getJudgingRuns(gameId: number): Promise<JudgingRun[]>;
+  /** Move a job to its next state; returns false if it was not in `from` */
+  advanceFinalizationJob(
+    gameId: number,
+    from: FinalizationState,
+    to: FinalizationState,
+    changes?: { nextGameId?: number }
+  ): Promise<boolean>;
+  updateFinalizationJob(gameId: number, changes: FinalizationJobUpdate): Promise<void>;
+
+  // Locks
+  /**
+   * Take or renew a lease. Succeeds if the lock is free, expired or already
+   * held by `holder`; the lease then runs for ttlMs from now.
+   */
+  acquireLock(name: string, holder: string, ttlMs: number): Promise<boolean>;
+  /** Release a lease held by `holder` (no-op otherwise) */
+  releaseLock(name: string, holder: string): Promise<void>;
+  /** Unexpired leases */
+  listLocks(): Promise<JobLock[]>;
+
+  // Chain index
+  getChainCursor(indexer: string): Promise<ChainCursor | null>;
+  /** Unconfirmed blocks the indexer has processed, oldest first */
+  getIndexedBlocks(indexer: string): Promise<IndexedBlock[]>;
+  /** Store a batch of events, confirm older ones and move the cursor to the batch head, in one step */
+  saveChainBatch(indexer: string, batch: ChainIndexBatch): Promise<void>;
+  /**
+   * Reorg: drop the unconfirmed events and blocks above `block` and move the
+   * cursor back to it. Returns how many events were dropped.
+   */
+  rollbackChainIndex(indexer: string, block: IndexedBlock): Promise<number>;
+  /** Indexed events, newest first */
+  listChainEvents(
+    filter?: { indexer?: string; eventName?: string; txHash?: string; confirmed?: boolean; limit?: number }
+  ): Promise<ChainEventRecord[]>;
+
+  // Reconciliation
+  saveReconciliationReport(report: NewReconciliationReport): Promise<ReconciliationReport>;
+  /** Reports, newest first */
+  listReconciliationReports(limit?: number): Promise<ReconciliationReport[]>;
+
+  // History
+  getPastGames(limit?: number): Promise<GameRecord[]>;
+  getStats(): Promise<ArenaStats>;
+}
+
+/**
+ * Get the game currently accepting entries.
+ * If the latest game has been finalized, the next one is created.
+ */
+export async function getActiveGame(repo: GameRepository): Promise<GameRecord> {
+  const latestGameId = await repo.getLatestGameId();
+  const game = await repo.getOrCreateGame(latestGameId);
+
+  if (game.finalized) {
+    const nextGameId = await repo.createNextGame();
+    return repo.getOrCreateGame(nextGameId);
+  }
+
+  return game;
+}
+
+/**
+ * Select the storage backend once at startup.
+ * DATABASE_URL selects Postgres; otherwise games live in memory.
+ */
+export async function createGameRepository(): Promise<GameRepository> {
+  let repo: GameRepository;
+
+  if (process.env.DATABASE_URL) {
+    repo = new PostgresGameRepository(process.env.DATABASE_URL);
+  } else {
+    repo = new InMemoryGameRepository();
+  }
+
+  await repo.init();
+  return repo;
+}
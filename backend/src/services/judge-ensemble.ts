@@ -0,0 +1,268 @@
+import AIJudgeService, {
+  compareStanding,
+  type ArtSubmission,
+  type JudgingMode,
+  type JudgeFailure,
+  type JudgeInvocation,
+  type JudgeOptions,
+  type JudgeResult,
+  type JudgeScore
+} from './ai-judge';
+import { createImageSource, type ImageSource } from './judge-images';
+import { createJudgeProvider } from './judge-providers';
+import { DEFAULT_RUBRIC, weightedTotal, type Rubric } from './rubric';
+
+export const AGGREGATION_STRATEGIES = ['mean', 'median', 'borda'] as const;
+export type AggregationStrategy = typeof AGGREGATION_STRATEGIES[number];
+
+// Standard deviation of an entry's total (out of 30) across judges above which
+// the game is held for admin review before payout
+export const DEFAULT_SPREAD_THRESHOLD = 4;
+
+export interface PanelJudge {
+  name: string;
+  service: AIJudgeService;
+}
+
+/** A provider call made by one judge of the panel */
+export type PanelInvocation = JudgeInvocation & { judge: string };
+
+export interface EnsembleResult extends JudgeResult {
+  strategy: AggregationStrategy;
+  /** Each successful judge's own scores, ranking and standing */
+  panel: Array<{ judge: string; scores: Record<string, JudgeScore>; ranking: string[]; standing: Record<string, number[]> }>;
+  failedJudges: Array<{ judge: string; error: string }>;
+  /** Standard deviation of each submission's total across judges */
+  spread: Record<string, number>;
+  /** Why an admin should review the result before payout (null: no review needed) */
+  reviewReason: string | null;
+  invocations: PanelInvocation[];
+}
+
+export interface EnsembleFailure extends JudgeFailure {
+  invocations: PanelInvocation[];
+}
+
+// ============ Aggregation ============
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function standardDeviation(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - avg) ** 2)));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Borda count: in each judge's standings an entry gets one point per entry ranked strictly below it
+ */
+function bordaPoints(ids: string[], panel: EnsembleResult['panel']): Record<string, number> {
+  const points: Record<string, number> = Object.fromEntries(ids.map(id => [id, 0]));
+
+  for (const { standing } of panel) {
+    for (const id of ids) {
+      points[id] += ids.filter(other => compareStanding(standing[id], standing[other]) < 0).length;
+    }
+  }
+
+  return points;
+}
+
+/**
+ * A submission's place in one judge's standings: how many submissions that judge
+ * ranked strictly higher (tied submissions share a place)
+ */
+function place(id: string, standing: Record<string, number[]>): number {
+  return Object.keys(standing).filter(other => compareStanding(standing[other], standing[id]) < 0).length;
+}
+
+/**
+ * Combine the panel's scores into one score per submission, a standing and a
+ * ranking (best first; tied standings keep submission order).
+ * In the tournament modes a judge's ranking is not simply by total, so mean and
+ * median combine the judges' places instead of their totals.
+ */
+export function aggregatePanel(
+  ids: string[],
+  panel: EnsembleResult['panel'],
+  strategy: AggregationStrategy,
+  mode: JudgingMode = 'scores',
+  rubric: Rubric = DEFAULT_RUBRIC
+): { scores: Record<string, JudgeScore>; ranking: string[]; standing: Record<string, number[]> } {
+  const combine = strategy === 'median' ? median : mean;
+  const scores: Record<string, JudgeScore> = {};
+
+  for (const id of ids) {
+    const judged = panel.map(p => p.scores[id]);
+    const criteria = Object.fromEntries(rubric.criteria.map(c => [c.key, combine(judged.map(s => s.criteria[c.key]))]));
+
+    scores[id] = {
+      submissionId: id,
+      criteria: Object.fromEntries(Object.entries(criteria).map(([key, value]) => [key, round2(value)])),
+      total: weightedTotal(criteria, rubric),
+      feedback: [...new Set(judged.map(s => s.feedback).filter(Boolean))].join(' | ')
+    };
+  }
+
+  let rank = (id: string) => scores[id].total;
+  if (strategy === 'borda') {
+    const points = bordaPoints(ids, panel);
+    rank = id => points[id];
+  } else if (mode !== 'scores') {
+    const places = Object.fromEntries(ids.map(id => [id, -combine(panel.map(p => place(id, p.standing)))]));
+    rank = id => places[id];
+  }
+
+  // Higher rank value first; equal values keep submission order
+  const standing = Object.fromEntries(ids.map(id => [id, [rank(id)]]));
+  const ranking = [...ids].sort((a, b) => compareStanding(standing[a], standing[b]));
+  return { scores, ranking, standing };
+}
+
+// ============ Ensemble ============
+
+/**
+ * Runs several independent judges over the same submissions and aggregates
+ * their scores. Judging fails unless a majority of the panel succeeds; games
+ * where judges disagree strongly (or some failed, or an entry looks like a
+ * prompt injection) are marked for review.
+ */
+export class JudgeEnsemble {
+  constructor(
+    private judges: PanelJudge[],
+    readonly strategy: AggregationStrategy = 'mean',
+    private spreadThreshold: number = DEFAULT_SPREAD_THRESHOLD
+  ) {
+    if (judges.length === 0) {
+      throw new Error('A judge panel needs at least one judge');
+    }
+  }
+
+  get description(): string {
+    const names = this.judges.map(j => j.name).join(', ');
+    return this.judges.length === 1 ? names : `${this.judges.length} judges, ${this.strategy}: ${names}`;
+  }
+
+  /**
+   * Estimated cost of judging with the whole panel (USD)
+   */
+  estimateCost(submissionCount: number, mode: JudgingMode = 'scores'): number {
+    return this.judges.reduce((sum, judge) => sum + judge.service.estimateCost(submissionCount, mode), 0);
+  }
+
+  async judgeSubmissions(
+    submissions: ArtSubmission[],
+    options: JudgeOptions = {}
+  ): Promise<EnsembleResult | EnsembleFailure> {
+    const results = await Promise.all(
+      this.judges.map(async judge => ({
+        judge: judge.name,
+        result: await judge.service.judgeSubmissions(submissions, options)
+      }))
+    );
+
+    const panel: EnsembleResult['panel'] = [];
+    const failedJudges: EnsembleResult['failedJudges'] = [];
+    const flags: EnsembleResult['flags'] = {};
+    const invocations: PanelInvocation[] = [];
+    for (const { judge, result } of results) {
+      invocations.push(...result.invocations.map(invocation => ({ judge, ...invocation })));
+      if (result.success) {
+        panel.push({ judge, scores: result.scores, ranking: result.ranking, standing: result.standing });
+        for (const [id, reasons] of Object.entries(result.flags)) {
+          flags[id] = [...new Set([...(flags[id] ?? []), ...reasons])];
+        }
+      } else {
+        failedJudges.push({ judge, error: result.error });
+      }
+    }
+
+    if (panel.length * 2 <= this.judges.length) {
+      const errors = failedJudges.map(f => `${f.judge}: ${f.error}`).join('; ');
+      return {
+        success: false,
+        error: `Only ${panel.length} of ${this.judges.length} judges returned scores (${errors})`,
+        invocations,
+        judgedAt: Date.now()
+      };
+    }
+
+    const ids = submissions.map(s => s.id);
+    const { scores, ranking, standing } = aggregatePanel(ids, panel, this.strategy, options.mode, options.rubric);
+
+    const spread: Record<string, number> = {};
+    for (const id of ids) {
+      spread[id] = round2(standardDeviation(panel.map(p => p.scores[id].total)));
+    }
+
+    const reasons: string[] = [];
+    const contested = ids.filter(id => spread[id] > this.spreadThreshold);
+    if (contested.length > 0) {
+      reasons.push(`judges disagree on ${contested.map(id => `${id} (±${spread[id]})`).join(', ')}`);
+    }
+    if (failedJudges.length > 0) {
+      reasons.push(`${failedJudges.length} of ${this.judges.length} judges failed`);
+    }
+    if (Object.keys(flags).length > 0) {
+      reasons.push(`possible prompt injection in ${Object.entries(flags).map(([id, why]) => `${id} (${why.join(', ')})`).join(', ')}`);
+    }
+
+    return {
+      success: true,
+      scores,
+      ranking,
+      standing,
+      winnerId: ranking[0],
+      winnerScore: scores[ranking[0]].total,
+      flags,
+      invocations,
+      judgedAt: Date.now(),
+      strategy: this.strategy,
+      panel,
+      failedJudges,
+      spread,
+      reviewReason: reasons.length > 0 ? reasons.join('; ') : null
+    };
+  }
+}
+
+/**
+ * Build the judge panel from JUDGE_ENSEMBLE, a comma-separated list of
+ * provider specs (e.g. "anthropic,openai:gpt-4o,mock:7"). Without it the panel
+ * is the single judge selected by JUDGE_PROVIDER.
+ * JUDGE_AGGREGATION picks mean, median or borda; JUDGE_SPREAD_THRESHOLD the review threshold.
+ */
+export function createJudgeEnsemble(): JudgeEnsemble {
+  const specs = (process.env.JUDGE_ENSEMBLE || '').split(',').map(s => s.trim()).filter(Boolean);
+  const images = createImageSource();
+
+  const judges: PanelJudge[] = specs.length === 0
+    ? [createPanelJudge(undefined, 0, images)]
+    : specs.map((spec, i) => createPanelJudge(spec, i, images));
+
+  const strategy = (process.env.JUDGE_AGGREGATION || 'mean') as AggregationStrategy;
+  if (!AGGREGATION_STRATEGIES.includes(strategy)) {
+    throw new Error(`Unknown JUDGE_AGGREGATION "${strategy}" (expected ${AGGREGATION_STRATEGIES.join(', ')})`);
+  }
+
+  const threshold = parseFloat(process.env.JUDGE_SPREAD_THRESHOLD || '') || DEFAULT_SPREAD_THRESHOLD;
+  return new JudgeEnsemble(judges, strategy, threshold);
+}
+
+function createPanelJudge(spec: string | undefined, index: number, images: ImageSource): PanelJudge {
+  const provider = createJudgeProvider(spec);
+  // The first judge sees submissions in entry order, the others in a shuffled order
+  const service = new AIJudgeService(provider, images, index > 0 ? `panel-${index}` : undefined);
+  return { name: `#${index + 1} ${service.providerName}`, service };
+}
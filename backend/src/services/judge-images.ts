@@ -0,0 +1,388 @@
+import { lookup as dnsLookup } from 'dns';
+import { readFile } from 'fs/promises';
+import type { IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import path from 'path';
+import type { Readable } from 'stream';
+import { inflateSync } from 'zlib';
+
+// Image types the judge model accepts
+export type JudgeImageType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+// Per-image limit of the Anthropic API
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Batch limits: images per request and total image payload per request
+export const MAX_IMAGES_PER_BATCH = 20;
+export const MAX_BATCH_BYTES = 20 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 3;
+
+// Loopback, private, link-local, shared, reserved and multicast ranges image downloads may not reach
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface JudgeImage {
+  mediaType: JudgeImageType;
+  /** Base64-encoded image bytes */
+  data: string;
+  bytes: number;
+  /** Text found in the image's metadata (stripped from the data above) */
+  metadataText: string[];
+}
+
+export type ImageLoadResult =
+  | { ok: true; image: JudgeImage }
+  | { ok: false; error: string };
+
+/**
+ * Where submission images are read from
+ */
+export interface ImageSource {
+  readonly name: string;
+  read(url: string): Promise<Buffer>;
+}
+
+// ============ Sources ============
+
+/**
+ * Whether an IP address is on the public internet (not loopback, private,
+ * link-local or reserved). IPv4-mapped IPv6 addresses are checked as IPv4.
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return isPublicAddress(mapped[1]);
+  }
+  const mappedHex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPublicAddress(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// DNS lookup that fails for hosts resolving to a non-public address, checked when connecting
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '', 0);
+    }
+
+    const blocked = addresses.find(a => !isPublicAddress(a.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`Image host ${hostname} does not resolve to a public address`), '', 0);
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Read a stream into memory, failing as soon as it passes `maxBytes`
+ */
+export async function readLimited(stream: Readable, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+
+  for await (const chunk of stream) {
+    bytes += chunk.length;
+    if (bytes > maxBytes) {
+      stream.destroy();
+      throw new Error(`Image too large (more than ${maxBytes} bytes)`);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Downloads images over HTTPS from public hosts only, refusing anything larger
+ * than the limit. Redirects are followed by hand so every hop is checked again.
+ */
+export class HttpImageSource implements ImageSource {
+  readonly name = 'http';
+
+  async read(url: string): Promise<Buffer> {
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let target = new URL(url);
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const response = await this.get(target, signal);
+      const status = response.statusCode ?? 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        target = new URL(response.headers.location, target);
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new Error(`HTTP ${status}`);
+      }
+
+      const declared = parseInt(response.headers['content-length'] || '0');
+      if (declared > MAX_IMAGE_BYTES) {
+        response.destroy();
+        throw new Error(`Image too large (${declared} bytes)`);
+      }
+
+      return readLimited(response, MAX_IMAGE_BYTES);
+    }
+
+    throw new Error(`Too many redirects (max ${MAX_REDIRECTS})`);
+  }
+
+  private get(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+    if (url.protocol !== 'https:') {
+      throw new Error(`Unsupported image URL scheme ${url.protocol} (https required)`);
+    }
+
+    // Addresses given literally never reach the lookup
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host) && !isPublicAddress(host)) {
+      throw new Error(`Image host ${host} is not a public address`);
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = httpsRequest(url, { lookup: publicLookup, signal }, resolve);
+      request.on('error', reject);
+      request.end();
+    });
+  }
+}
+
+/**
+ * Reads images from a local directory by the URL's file name (for tests and offline demos)
+ */
+export class FixtureImageSource implements ImageSource {
+  readonly name: string;
+
+  constructor(private directory: string) {
+    this.name = `fixtures:${directory}`;
+  }
+
+  async read(url: string): Promise<Buffer> {
+    const fileName = path.basename(new URL(url).pathname);
+    return readFile(path.join(this.directory, fileName));
+  }
+}
+
+/**
+ * Select image source: JUDGE_IMAGE_FIXTURES (a directory) or HTTP
+ */
+export function createImageSource(): ImageSource {
+  const fixtures = process.env.JUDGE_IMAGE_FIXTURES;
+  return fixtures ? new FixtureImageSource(path.resolve(fixtures)) : new HttpImageSource();
+}
+
+// ============ Loading ============
+
+/**
+ * Detect the image type from its magic bytes (Content-Type headers are not trusted)
+ */
+export function detectImageType(bytes: Buffer): JudgeImageType | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (bytes.length >= 8 && bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (bytes.length >= 6 && ['GIF87a', 'GIF89a'].includes(bytes.subarray(0, 6).toString('ascii'))) {
+    return 'image/gif';
+  }
+  if (bytes.length >= 12 && bytes.subarray(0, 4).toString('ascii') === 'RIFF' && bytes.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * Fetch and validate one submission image
+ */
+export async function loadJudgeImage(source: ImageSource, url: string): Promise<ImageLoadResult> {
+  let bytes: Buffer;
+  try {
+    bytes = await source.read(url);
+  } catch (error) {
+    return { ok: false, error: `Could not load image: ${error instanceof Error ? error.message : 'unknown error'}` };
+  }
+
+  if (bytes.length > MAX_IMAGE_BYTES) {
+    return { ok: false, error: `Image too large (${bytes.length} bytes, max ${MAX_IMAGE_BYTES})` };
+  }
+
+  const mediaType = detectImageType(bytes);
+  if (!mediaType) {
+    return { ok: false, error: 'Unsupported image type (expected JPEG, PNG, GIF or WebP)' };
+  }
+
+  const stripped = stripImageMetadata(bytes, mediaType);
+  return {
+    ok: true,
+    image: {
+      mediaType,
+      data: stripped.bytes.toString('base64'),
+      bytes: stripped.bytes.length,
+      metadataText: stripped.text
+    }
+  };
+}
+
+// ============ Metadata ============
+
+const PNG_TEXT_CHUNKS = ['tEXt', 'zTXt', 'iTXt', 'eXIf'];
+const JPEG_COMMENT = 0xfe;
+const JPEG_APP1 = 0xe1;
+const JPEG_START_OF_SCAN = 0xda;
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+// Readable runs in binary metadata such as EXIF
+function printableRuns(bytes: Buffer): string[] {
+  return bytes.toString('latin1').match(/[\x20-\x7e]{8,}/g) ?? [];
+}
+
+function pngChunkText(type: string, data: Buffer): string[] {
+  const keywordEnd = data.indexOf(0);
+  if (type === 'eXIf' || keywordEnd < 0) {
+    return printableRuns(data);
+  }
+
+  const keyword = data.subarray(0, keywordEnd).toString('latin1');
+  try {
+    if (type === 'tEXt') {
+      return [`${keyword}: ${data.subarray(keywordEnd + 1).toString('latin1')}`];
+    }
+    if (type === 'zTXt') {
+      return [`${keyword}: ${inflateSync(data.subarray(keywordEnd + 2)).toString('latin1')}`];
+    }
+    // iTXt: compression flag and method, then language tag and translated keyword
+    const compressed = data[keywordEnd + 1] === 1;
+    const languageEnd = data.indexOf(0, keywordEnd + 3);
+    const translatedEnd = data.indexOf(0, languageEnd + 1);
+    const text = data.subarray(translatedEnd + 1);
+    return [`${keyword}: ${(compressed ? inflateSync(text) : text).toString('utf8')}`];
+  } catch {
+    return printableRuns(data);
+  }
+}
+
+function stripPngText(bytes: Buffer): { bytes: Buffer; text: string[] } {
+  const kept: Buffer[] = [bytes.subarray(0, 8)];
+  const text: string[] = [];
+
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = bytes.readUInt32BE(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+
+    const type = bytes.subarray(offset + 4, offset + 8).toString('latin1');
+    if (PNG_TEXT_CHUNKS.includes(type)) {
+      text.push(...pngChunkText(type, bytes.subarray(offset + 8, offset + 8 + length)));
+    } else {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  // Keep anything after the last complete chunk untouched
+  kept.push(bytes.subarray(offset));
+  return { bytes: Buffer.concat(kept), text };
+}
+
+function stripJpegText(bytes: Buffer): { bytes: Buffer; text: string[] } {
+  const kept: Buffer[] = [bytes.subarray(0, 2)];
+  const text: string[] = [];
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === JPEG_START_OF_SCAN) break;
+
+    const end = offset + 2 + bytes.readUInt16BE(offset + 2);
+    if (end > bytes.length) break;
+
+    const payload = bytes.subarray(offset + 4, end);
+    if (marker === JPEG_COMMENT) {
+      text.push(payload.toString('utf8'));
+    } else if (marker === JPEG_APP1) {
+      const isXmp = payload.subarray(0, XMP_HEADER.length).toString('latin1') === XMP_HEADER;
+      text.push(...(isXmp ? [payload.subarray(XMP_HEADER.length).toString('utf8')] : printableRuns(payload)));
+    } else {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  // Image data from the start of scan onwards is kept as is
+  kept.push(bytes.subarray(offset));
+  return { bytes: Buffer.concat(kept), text };
+}
+
+/**
+ * Remove text-bearing metadata (PNG text chunks, JPEG comments, EXIF and XMP)
+ * so it never reaches the judge, returning the text for injection checks.
+ * GIF and WebP images are passed through unchanged.
+ */
+export function stripImageMetadata(bytes: Buffer, mediaType: JudgeImageType): { bytes: Buffer; text: string[] } {
+  if (mediaType === 'image/png') {
+    return stripPngText(bytes);
+  }
+  if (mediaType === 'image/jpeg') {
+    return stripJpegText(bytes);
+  }
+  return { bytes, text: [] };
+}
+
+/**
+ * Split items into batches that stay under the per-request image count and size limits
+ */
+export function batchByImageSize<T>(
+  items: T[],
+  sizeOf: (item: T) => number,
+  maxItems: number = MAX_IMAGES_PER_BATCH
+): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentBytes = 0;
+
+  for (const item of items) {
+    const size = sizeOf(item);
+    if (current.length > 0 && (current.length >= Math.min(maxItems, MAX_IMAGES_PER_BATCH) || currentBytes + size > MAX_BATCH_BYTES)) {
+      batches.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(item);
+    currentBytes += size;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
@@ -0,0 +1,197 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import type { JudgeImage } from './judge-images';
+
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-20241022';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const MAX_OUTPUT_TOKENS = 2000;
+
+export type JudgePromptPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; image: JudgeImage };
+
+/**
+ * One judging request: the prompt plus the submissions it covers
+ */
+export interface JudgeRequest {
+  system: string;
+  parts: JudgePromptPart[];
+  /** Submissions in this request (for providers that do not read the prompt) */
+  submissions: Array<{ id: string; imageUrl: string; image: JudgeImage | null }>;
+  /** Rubric criterion keys each submission is scored on */
+  criteria: string[];
+}
+
+/**
+ * Model backend that scores a batch of submissions.
+ * Returns the raw text reply, which must contain the JSON scores object.
+ */
+export interface JudgeProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: JudgeRequest): Promise<string>;
+}
+
+// ============ Providers ============
+
+/**
+ * Anthropic Messages API with image content blocks
+ */
+export class AnthropicJudgeProvider implements JudgeProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey: string, readonly model: string = DEFAULT_ANTHROPIC_MODEL) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async complete(request: JudgeRequest): Promise<string> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      system: request.system,
+      messages: [{
+        role: 'user',
+        content: request.parts.map((part): Anthropic.TextBlockParam | Anthropic.ImageBlockParam =>
+          part.type === 'text'
+            ? { type: 'text', text: part.text }
+            : { type: 'image', source: { type: 'base64', media_type: part.image.mediaType, data: part.image.data } }
+        )
+      }]
+    });
+
+    const textContent = response.content.find(c => c.type === 'text');
+    if (!textContent || textContent.type !== 'text') {
+      throw new Error('No text response from AI judge');
+    }
+    return textContent.text;
+  }
+}
+
+/**
+ * Any OpenAI-compatible chat completions endpoint (OpenAI, OpenRouter, vLLM, Ollama...)
+ * with images sent as data URLs
+ */
+export class OpenAICompatibleJudgeProvider implements JudgeProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private apiKey: string,
+    readonly model: string = DEFAULT_OPENAI_MODEL,
+    private baseUrl: string = DEFAULT_OPENAI_BASE_URL
+  ) {}
+
+  async complete(request: JudgeRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        messages: [
+          { role: 'system', content: request.system },
+          {
+            role: 'user',
+            content: request.parts.map(part =>
+              part.type === 'text'
+                ? { type: 'text', text: part.text }
+                : { type: 'image_url', image_url: { url: `data:${part.image.mediaType};base64,${part.image.data}` } }
+            )
+          }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Judge endpoint returned HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    const data = await response.json() as { choices?: Array<{ message?: { content?: string | null } }> };
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error('No text response from AI judge');
+    }
+    return text;
+  }
+}
+
+/**
+ * Deterministic offline judge. Scores are derived from a hash of each image
+ * (so the same artwork always scores the same), or from a seed and the
+ * submission ID when a seed is set. Falls back to the image URL when an
+ * image could not be loaded.
+ */
+export class MockJudgeProvider implements JudgeProvider {
+  readonly name = 'mock';
+  readonly model: string;
+
+  constructor(private seed?: string) {
+    this.model = seed ? `mock-seed:${seed}` : 'mock-image-hash';
+  }
+
+  async complete(request: JudgeRequest): Promise<string> {
+    const scores = request.submissions.map(s => {
+      const source = this.seed
+        ? `${this.seed}:${s.id}`
+        : s.image?.data ?? s.imageUrl;
+      const digest = createHash('sha256').update(source).digest();
+
+      return {
+        submissionId: s.id,
+        ...Object.fromEntries(request.criteria.map((key, i) => [key, 1 + (digest[i % digest.length] % 10)])),
+        feedback: `Mock judge (${this.seed ? 'seeded' : 'image hash'} ${digest.toString('hex').slice(0, 8)})`
+      };
+    });
+
+    return JSON.stringify({ scores });
+  }
+}
+
+/**
+ * Select judge provider from JUDGE_PROVIDER ("anthropic", "openai" or "mock").
+ * Outside production it defaults to anthropic when ANTHROPIC_API_KEY is set,
+ * otherwise the mock judge. Production requires an explicit choice: mock scores
+ * can be ground by resubmitting altered images, and they decide real payouts.
+ * JUDGE_MODEL overrides the model; JUDGE_MOCK_SEED switches the mock from image hashes to a seed.
+ *
+ * A spec like "openai:gpt-4o" or "mock:42" selects a provider directly, with
+ * the part after the colon as the model (or the mock's seed).
+ */
+export function createJudgeProvider(spec?: string): JudgeProvider {
+  const [specProvider, ...rest] = spec ? spec.split(':') : [];
+  const option = rest.join(':') || undefined;
+
+  let provider = specProvider || process.env.JUDGE_PROVIDER;
+  if (!provider) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JUDGE_PROVIDER must be set in production');
+    }
+    provider = process.env.ANTHROPIC_API_KEY ? 'anthropic' : 'mock';
+  }
+  const model = spec ? option : process.env.JUDGE_MODEL || undefined;
+
+  switch (provider) {
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new Error('The anthropic judge requires ANTHROPIC_API_KEY');
+      }
+      return new AnthropicJudgeProvider(process.env.ANTHROPIC_API_KEY, model);
+
+    case 'openai':
+      return new OpenAICompatibleJudgeProvider(
+        process.env.OPENAI_API_KEY || '',
+        model,
+        process.env.OPENAI_BASE_URL || undefined
+      );
+
+    case 'mock':
+      return new MockJudgeProvider(spec ? option : process.env.JUDGE_MOCK_SEED || undefined);
+
+    default:
+      throw new Error(`Unknown judge provider "${provider}"`);
+  }
+}
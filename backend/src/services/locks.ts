@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import type { GameRepository } from './game-repository';
+
+// Identifies this process as a lock holder (Railway sets RAILWAY_REPLICA_ID per replica)
+export const INSTANCE_ID = process.env.INSTANCE_ID
+  || process.env.RAILWAY_REPLICA_ID
+  || `${hostname()}:${process.pid}`;
+
+// Only the leader runs scheduled checks; the lease survives two missed 5-minute ticks
+export const CRON_LEADER_LOCK = 'cron:leader';
+export const CRON_LEADER_TTL_MS = 15 * 60 * 1000;
+
+// Only one replica follows the chain at a time; held while the indexer catches up
+export const CHAIN_INDEXER_LOCK = 'chain-indexer';
+export const CHAIN_INDEXER_TTL_MS = 2 * 60 * 1000;
+
+// One reconciliation run at a time across replicas
+export const RECONCILIATION_LOCK = 'reconciliation';
+export const RECONCILIATION_TTL_MS = 5 * 60 * 1000;
+
+// Per-game lease, renewed while finalization or payouts for the game run
+export const GAME_LOCK_TTL_MS = 2 * 60 * 1000;
+
+export function gameLockName(gameId: number): string {
+  return `game:${gameId}`;
+}
+
+export type LockedResult<T> =
+  | { acquired: true; result: T }
+  | { acquired: false; holder: string | null };
+
+/**
+ * Run fn while holding a lease, renewing it until fn settles.
+ * If anyone else holds the lock, fn is not run and the holder is returned.
+ * Each call holds the lease under its own token, so a second call from this
+ * process is turned away too rather than sharing the lease.
+ */
+export async function withLock<T>(
+  repo: GameRepository,
+  name: string,
+  ttlMs: number,
+  fn: () => Promise<T>
+): Promise<LockedResult<T>> {
+  const holder = `${INSTANCE_ID}:${randomUUID()}`;
+  if (!(await repo.acquireLock(name, holder, ttlMs))) {
+    const lock = (await repo.listLocks()).find(l => l.name === name);
+    return { acquired: false, holder: lock?.holder ?? null };
+  }
+
+  const heartbeat = setInterval(() => {
+    repo.acquireLock(name, holder, ttlMs).then(renewed => {
+      if (!renewed) {
+        console.error(`⚠️ Lost lock ${name} to another holder`);
+      }
+    }).catch(error => console.error(`⚠️ Could not renew lock ${name}:`, error));
+  }, ttlMs / 3);
+
+  try {
+    return { acquired: true, result: await fn() };
+  } finally {
+    clearInterval(heartbeat);
+    await repo.releaseLock(name, holder).catch(error =>
+      console.error(`⚠️ Could not release lock ${name}:`, error)
+    );
+  }
+}
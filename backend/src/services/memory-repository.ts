@@ -0,0 +1,699 @@
+import {
+  entryRejection,
+  PaymentAlreadyConsumedError,
+  WHOLE_TRANSACTION_LOG_INDEX,
+  type ArenaStats,
+  type ChainCursor,
+  type ChainEventRecord,
+  type ChainIndexBatch,
+  type ConsumedPaymentRecord,
+  type EntryRecord,
+  type ExpiredGame,
+  type GameRecord,
+  type GameSettingsUpdate,
+  type FinalizationJob,
+  type FinalizationJobUpdate,
+  type FinalizationState,
+  type GameRepository,
+  type IndexedBlock,
+  type JobLock,
+  type JudgingRecord,
+  type JudgingRun,
+  type NewJudgingRun,
+  type NewReconciliationReport,
+  type PanelScore,
+  type PaymentRef,
+  type PayoutKind,
+  type PayoutRecord,
+  type PayoutStatus,
+  type PayoutUpdate,
+  type ReconciliationReport
+} from './game-repository';
+import { DEFAULT_RUBRIC } from './rubric';
+import { DEFAULT_GAME_CONFIG } from './game-config';
+import type { TieBreakSeed } from './tie-break';
+import type { PaymentIntent } from './x402-payment';
+
+// Mirrors DECIMAL(20, 6) formatting used by the Postgres store
+function formatAmount(amount: number): string {
+  return amount.toFixed(6);
+}
+
+/**
+ * In-memory game storage (data is lost on restart).
+ * Matches PostgresGameRepository semantics so routes behave the same
+ * whichever backend is selected.
+ */
+export class InMemoryGameRepository implements GameRepository {
+  readonly kind = 'memory' as const;
+
+  private games = new Map<number, GameRecord>();
+  private entries: EntryRecord[] = [];
+  private nextEntryId = 1;
+  private consumedPayments: ConsumedPaymentRecord[] = [];
+  private entryReservations: Array<{ gameId: number; playerAddress: string; expiresAt: number }> = [];
+  private paymentIntents = new Map<string, PaymentIntent>();
+  private payouts: PayoutRecord[] = [];
+  private nextPayoutId = 1;
+  private finalizationJobs = new Map<number, FinalizationJob>();
+  private panelScores: Array<PanelScore & { gameId: number }> = [];
+  private judgingRuns: JudgingRun[] = [];
+  private locks = new Map<string, JobLock>();
+  private chainCursors = new Map<string, ChainCursor>();
+  private chainBlocks: Array<IndexedBlock & { indexer: string }> = [];
+  private chainEvents: ChainEventRecord[] = [];
+  private nextChainEventId = 1;
+  private reconciliationReports: ReconciliationReport[] = [];
+
+  async init(): Promise<void> {
+    console.log('⚠️ Using in-memory storage (data will be lost on restart)');
+  }
+
+  // ============ Games ============
+
+  async findGame(gameId: number): Promise<GameRecord | null> {
+    const game = this.games.get(gameId);
+    return game ? { ...game } : null;
+  }
+
+  async getOrCreateGame(gameId: number): Promise<GameRecord> {
+    if (!this.games.has(gameId)) {
+      // Create new game (not started yet - waits for first entry)
+      this.games.set(gameId, {
+        gameId,
+        startTime: Date.now(),
+        endTime: 0,
+        prizePool: formatAmount(0),
+        entryCount: 0,
+        finalized: false,
+        started: false,
+        judgingMode: 'scores',
+        theme: null,
+        rubric: DEFAULT_RUBRIC,
+        config: { ...DEFAULT_GAME_CONFIG },
+        tieBreakSeed: null
+      });
+    }
+
+    return { ...this.games.get(gameId)! };
+  }
+
+  async startGameTimer(
+    gameId: number,
+    durationMs?: number
+  ): Promise<{ startTime: number; endTime: number; updated: boolean }> {
+    const now = Date.now();
+    const game = this.games.get(gameId);
+    const endTime = now + (durationMs ?? game?.config.durationMs ?? DEFAULT_GAME_CONFIG.durationMs);
+
+    if (!game) {
+      return { startTime: now, endTime, updated: false };
+    }
+
+    if (game.started) {
+      console.log(`⚠️ Game #${gameId} already started, current endTime: ${game.endTime}`);
+      return { startTime: game.startTime, endTime: game.endTime, updated: false };
+    }
+
+    game.startTime = now;
+    game.endTime = endTime;
+    game.started = true;
+    console.log(`🎮 Game #${gameId} started! Ends at ${new Date(endTime).toISOString()}`);
+    return { startTime: now, endTime, updated: true };
+  }
+
+  async getExpiredGames(): Promise<ExpiredGame[]> {
+    const now = Date.now();
+
+    return [...this.games.values()]
+      .filter(g => !g.finalized && g.started && g.endTime > 0 && g.endTime < now && g.entryCount > 0)
+      .map(g => ({
+        gameId: g.gameId,
+        entryCount: g.entryCount,
+        prizePool: g.prizePool
+      }));
+  }
+
+  async createNextGame(): Promise<number> {
+    const nextGameId = Math.max(0, ...this.games.keys()) + 1;
+    await this.getOrCreateGame(nextGameId);
+
+    console.log(`🆕 New game #${nextGameId} created (waiting for first entry)`);
+    return nextGameId;
+  }
+
+  async getLatestGameId(): Promise<number> {
+    return this.games.size > 0 ? Math.max(...this.games.keys()) : 1;
+  }
+
+  async updateGameSettings(gameId: number, changes: GameSettingsUpdate): Promise<void> {
+    const game = this.games.get(gameId);
+    if (!game) return;
+
+    Object.assign(game, Object.fromEntries(Object.entries(changes).filter(([, v]) => v !== undefined)));
+  }
+
+  async saveTieBreakSeed(gameId: number, seed: TieBreakSeed): Promise<TieBreakSeed> {
+    const game = this.games.get(gameId);
+    if (!game) {
+      throw new Error(`Game #${gameId} not found`);
+    }
+
+    game.tieBreakSeed ??= { ...seed };
+    return { ...game.tieBreakSeed };
+  }
+
+  async finalizeGame(gameId: number, winner: EntryRecord): Promise<void> {
+    const game = this.games.get(gameId);
+    if (game) {
+      game.finalized = true;
+      game.winnerAddress = winner.playerAddress;
+      game.winnerTitle = winner.title;
+      game.winnerScore = winner.scoreTotal ?? 0;
+      game.winnerImageUrl = winner.imageUrl;
+    }
+
+    // Mark winner in entries
+    const entry = this.entries.find(e => e.gameId === gameId && e.id === winner.id);
+    if (entry) {
+      entry.isWinner = true;
+    }
+  }
+
+  // ============ Entries ============
+
+  async addEntry(
+    gameId: number,
+    imageUrl: string,
+    title: string,
+    playerAddress: string,
+    payment: PaymentRef
+  ): Promise<{ id: number }> {
+    // No awaits until the entry is stored, so the checks and the insert are one step
+    const game = this.checkEntryAllowed(gameId, playerAddress);
+
+    // Same constraint as UNIQUE(tx_hash, log_index)
+    const consumed = this.findConsumed(payment.txHash, payment.logIndex);
+    if (consumed) {
+      throw new PaymentAlreadyConsumedError({ ...consumed });
+    }
+
+    const entry: EntryRecord = {
+      id: this.nextEntryId++,
+      gameId,
+      imageUrl,
+      title,
+      playerAddress: playerAddress.toLowerCase(),
+      submittedAt: Date.now(),
+      isWinner: false
+    };
+    this.entries.push(entry);
+
+    this.consumedPayments.push({
+      txHash: payment.txHash.toLowerCase(),
+      logIndex: payment.logIndex,
+      gameId,
+      entryId: entry.id,
+      playerAddress: entry.playerAddress,
+      amount: payment.amount ?? null,
+      payerAddress: payment.from?.toLowerCase() ?? null,
+      recipientAddress: payment.to?.toLowerCase() ?? null,
+      blockNumber: payment.blockNumber ?? null,
+      consumedAt: entry.submittedAt
+    });
+
+    game.prizePool = formatAmount(parseFloat(game.prizePool) + parseFloat(game.config.entryFee));
+    game.entryCount += 1;
+
+    this.entryReservations = this.entryReservations.filter(
+      r => !(r.gameId === gameId && r.playerAddress === entry.playerAddress)
+    );
+
+    return { id: entry.id };
+  }
+
+  // Same checks the Postgres repository makes under the game row lock; throws EntryRejectedError
+  private checkEntryAllowed(gameId: number, playerAddress: string, newHold = false): GameRecord {
+    const game = this.games.get(gameId);
+    if (!game) {
+      throw new Error(`Game #${gameId} not found`);
+    }
+
+    const address = playerAddress.toLowerCase();
+    const now = Date.now();
+    const live = this.entryReservations.filter(r => r.gameId === gameId && r.expiresAt >= now);
+    const entered = this.entries.some(e => e.gameId === gameId && e.playerAddress === address);
+    const holding = live.some(r => r.playerAddress === address);
+    const held = live.filter(r => r.playerAddress !== address).length;
+
+    const rejection = entryRejection(game, { entered, holding: newHold && holding }, held);
+    if (rejection) {
+      throw rejection;
+    }
+    return game;
+  }
+
+  async reserveEntry(gameId: number, playerAddress: string, ttlMs: number): Promise<void> {
+    this.checkEntryAllowed(gameId, playerAddress, true);
+
+    const address = playerAddress.toLowerCase();
+    this.entryReservations = this.entryReservations.filter(r => !(r.gameId === gameId && r.playerAddress === address));
+    this.entryReservations.push({ gameId, playerAddress: address, expiresAt: Date.now() + ttlMs });
+  }
+
+  async releaseEntryReservation(gameId: number, playerAddress: string): Promise<void> {
+    const address = playerAddress.toLowerCase();
+    this.entryReservations = this.entryReservations.filter(r => !(r.gameId === gameId && r.playerAddress === address));
+  }
+
+  async getEntriesForGame(gameId: number): Promise<EntryRecord[]> {
+    return this.entries
+      .filter(e => e.gameId === gameId)
+      .sort((a, b) => b.submittedAt - a.submittedAt || b.id - a.id)
+      .map(e => ({ ...e }));
+  }
+
+  async getAllEntriesForGame(gameId: number): Promise<EntryRecord[]> {
+    return this.entries
+      .filter(e => e.gameId === gameId)
+      .sort((a, b) =>
+        (b.scoreTotal ?? -Infinity) - (a.scoreTotal ?? -Infinity) ||
+        a.submittedAt - b.submittedAt ||
+        a.id - b.id
+      )
+      .map(e => ({ ...e }));
+  }
+
+  async hasPlayerEntered(gameId: number, playerAddress: string): Promise<boolean> {
+    const address = playerAddress.toLowerCase();
+    return this.entries.some(e => e.gameId === gameId && e.playerAddress === address);
+  }
+
+  // ============ Payments ============
+
+  async findConsumedPayment(txHash: string, logIndex: number): Promise<ConsumedPaymentRecord | null> {
+    const consumed = this.findConsumed(txHash, logIndex);
+    return consumed ? { ...consumed } : null;
+  }
+
+  private findConsumed(txHash: string, logIndex: number): ConsumedPaymentRecord | undefined {
+    const hash = txHash.toLowerCase();
+    return this.consumedPayments.find(
+      p => p.txHash === hash && (p.logIndex === logIndex || p.logIndex === WHOLE_TRANSACTION_LOG_INDEX)
+    );
+  }
+
+  async listConsumedPayments(
+    filter: { txHash?: string; gameId?: number; limit?: number } = {}
+  ): Promise<ConsumedPaymentRecord[]> {
+    return this.consumedPayments
+      .filter(p => !filter.txHash || p.txHash === filter.txHash.toLowerCase())
+      .filter(p => filter.gameId === undefined || p.gameId === filter.gameId)
+      .sort((a, b) => b.consumedAt - a.consumedAt)
+      .slice(0, filter.limit ?? 100)
+      .map(p => ({ ...p }));
+  }
+
+  // ============ Payment intents ============
+
+  async savePaymentIntent(intent: PaymentIntent): Promise<void> {
+    this.paymentIntents.set(intent.id, {
+      ...intent,
+      metadata: { ...intent.metadata, playerAddress: intent.metadata.playerAddress.toLowerCase() }
+    });
+  }
+
+  async findPaymentIntent(intentId: string): Promise<PaymentIntent | null> {
+    const intent = this.paymentIntents.get(intentId);
+    return intent ? { ...intent, metadata: { ...intent.metadata } } : null;
+  }
+
+  async findOpenPaymentIntent(gameId: number, playerAddress: string): Promise<PaymentIntent | null> {
+    const address = playerAddress.toLowerCase();
+    const now = Date.now();
+    const open = [...this.paymentIntents.values()]
+      .filter(i =>
+        i.metadata.gameId === gameId &&
+        i.metadata.playerAddress === address &&
+        i.status === 'pending' &&
+        i.expiresAt >= now
+      )
+      .sort((a, b) => b.createdAt - a.createdAt)[0];
+
+    return open ? this.findPaymentIntent(open.id) : null;
+  }
+
+  async markPaymentIntentPaid(intentId: string, txHash: string, entryId: number): Promise<boolean> {
+    const intent = this.paymentIntents.get(intentId);
+    if (!intent || intent.status !== 'pending' || intent.expiresAt < Date.now()) {
+      return false;
+    }
+
+    intent.status = 'paid';
+    intent.paidTxHash = txHash.toLowerCase();
+    intent.paidAt = Date.now();
+    intent.entryId = entryId;
+    return true;
+  }
+
+  async markPaymentIntentExpired(intentId: string): Promise<void> {
+    const intent = this.paymentIntents.get(intentId);
+    if (intent && intent.status === 'pending') {
+      intent.status = 'expired';
+    }
+  }
+
+  // ============ Payouts ============
+
+  async createPayout(gameId: number, kind: PayoutKind, recipientAddress: string, amount: string): Promise<PayoutRecord> {
+    // Same constraint as UNIQUE(game_id, kind)
+    let payout = this.payouts.find(p => p.gameId === gameId && p.kind === kind);
+    if (!payout) {
+      const now = Date.now();
+      payout = {
+        id: this.nextPayoutId++,
+        gameId,
+        kind,
+        recipientAddress: recipientAddress.toLowerCase(),
+        amount: parseFloat(amount).toString(),
+        txHash: null,
+        nonce: null,
+        signedTx: null,
+        status: 'pending',
+        attempts: 0,
+        lastError: null,
+        blockNumber: null,
+        createdAt: now,
+        updatedAt: now
+      };
+      this.payouts.push(payout);
+    }
+
+    return { ...payout };
+  }
+
+  async updatePayout(payoutId: number, changes: PayoutUpdate): Promise<void> {
+    const payout = this.payouts.find(p => p.id === payoutId);
+    if (!payout) return;
+
+    if (changes.status !== undefined) payout.status = changes.status;
+    if (changes.txHash !== undefined) payout.txHash = changes.txHash?.toLowerCase() ?? null;
+    if (changes.nonce !== undefined) payout.nonce = changes.nonce;
+    if (changes.signedTx !== undefined) payout.signedTx = changes.signedTx;
+    if (changes.attempts !== undefined) payout.attempts = changes.attempts;
+    if (changes.lastError !== undefined) payout.lastError = changes.lastError;
+    if (changes.blockNumber !== undefined) payout.blockNumber = changes.blockNumber;
+    payout.updatedAt = Date.now();
+  }
+
+  async getPayoutsForGame(gameId: number): Promise<PayoutRecord[]> {
+    return this.payouts
+      .filter(p => p.gameId === gameId)
+      .map(p => ({ ...p }));
+  }
+
+  async listPayouts(
+    filter: { gameId?: number; status?: PayoutStatus; limit?: number } = {}
+  ): Promise<PayoutRecord[]> {
+    return this.payouts
+      .filter(p => filter.gameId === undefined || p.gameId === filter.gameId)
+      .filter(p => !filter.status || p.status === filter.status)
+      .sort((a, b) => b.createdAt - a.createdAt || b.id - a.id)
+      .slice(0, filter.limit ?? 100)
+      .map(p => ({ ...p }));
+  }
+
+  // ============ Finalization jobs ============
+
+  async getOrCreateFinalizationJob(gameId: number): Promise<FinalizationJob> {
+    if (!this.finalizationJobs.has(gameId)) {
+      const now = Date.now();
+      this.finalizationJobs.set(gameId, {
+        gameId,
+        state: 'judging',
+        winnerEntryId: null,
+        contractTxHash: null,
+        nextGameId: null,
+        attempts: 0,
+        lastError: null,
+        reviewReason: null,
+        reviewedAt: null,
+        tieBreak: null,
+        createdAt: now,
+        updatedAt: now
+      });
+    }
+
+    return { ...this.finalizationJobs.get(gameId)! };
+  }
+
+  async findFinalizationJob(gameId: number): Promise<FinalizationJob | null> {
+    const job = this.finalizationJobs.get(gameId);
+    return job ? { ...job } : null;
+  }
+
+  async listUnfinishedFinalizationJobs(): Promise<FinalizationJob[]> {
+    return [...this.finalizationJobs.values()]
+      .filter(j => j.state !== 'next_game_created')
+      .sort((a, b) => a.gameId - b.gameId)
+      .map(j => ({ ...j }));
+  }
+
+  async saveJudgingResult(
+    gameId: number,
+    result: JudgingRecord,
+    from: 'judging' | 'scored' = 'judging'
+  ): Promise<boolean> {
+    const job = this.finalizationJobs.get(gameId);
+    if (job?.state !== from) {
+      return false;
+    }
+
+    for (const score of result.scores) {
+      const entry = this.entries.find(e => e.id === score.entryId && e.gameId === gameId);
+      if (!entry) continue;
+
+      entry.criterionScores = { ...score.criteria };
+      entry.scoreTotal = score.total;
+      entry.reasoning = score.reasoning;
+    }
+
+    // A re-judged panel replaces the previous one entirely
+    this.panelScores = this.panelScores.filter(p => p.gameId !== gameId);
+    for (const score of result.panelScores) {
+      this.panelScores.push({ ...score, gameId });
+    }
+
+    job.state = 'scored';
+    job.winnerEntryId = result.winnerEntryId;
+    job.reviewReason = result.reviewReason;
+    job.reviewedAt = null;
+    job.tieBreak = result.tieBreak;
+    job.lastError = null;
+    job.updatedAt = Date.now();
+    return true;
+  }
+
+  async getPanelScores(gameId: number): Promise<PanelScore[]> {
+    return this.panelScores
+      .filter(p => p.gameId === gameId)
+      .sort((a, b) => a.entryId - b.entryId || a.judge.localeCompare(b.judge))
+      .map(({ gameId: _gameId, ...score }) => score);
+  }
+
+  async saveJudgingRun(run: NewJudgingRun): Promise<JudgingRun> {
+    const saved = { ...run, id: this.judgingRuns.length + 1 };
+    this.judgingRuns.push(saved);
+    return { ...saved };
+  }
+
+  async getJudgingRuns(gameId: number): Promise<JudgingRun[]> {
+    return this.judgingRuns.filter(r => r.gameId === gameId).map(r => ({ ...r }));
+  }
+
+  async advanceFinalizationJob(
+    gameId: number,
+    from: FinalizationState,
+    to: FinalizationState,
+    changes: { nextGameId?: number } = {}
+  ): Promise<boolean> {
+    const job = this.finalizationJobs.get(gameId);
+    if (job?.state !== from) {
+      return false;
+    }
+
+    job.state = to;
+    job.nextGameId = changes.nextGameId ?? job.nextGameId;
+    job.lastError = null;
+    job.updatedAt = Date.now();
+    return true;
+  }
+
+  async updateFinalizationJob(gameId: number, changes: FinalizationJobUpdate): Promise<void> {
+    const job = this.finalizationJobs.get(gameId);
+    if (!job) return;
+
+    Object.assign(job, Object.fromEntries(Object.entries(changes).filter(([, v]) => v !== undefined)));
+    job.updatedAt = Date.now();
+  }
+
+  // ============ Locks ============
+
+  async acquireLock(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const lock = this.locks.get(name);
+
+    if (lock && lock.holder !== holder && lock.expiresAt >= now) {
+      return false;
+    }
+
+    this.locks.set(name, {
+      name,
+      holder,
+      acquiredAt: lock?.holder === holder ? lock.acquiredAt : now,
+      expiresAt: now + ttlMs
+    });
+    return true;
+  }
+
+  async releaseLock(name: string, holder: string): Promise<void> {
+    if (this.locks.get(name)?.holder === holder) {
+      this.locks.delete(name);
+    }
+  }
+
+  async listLocks(): Promise<JobLock[]> {
+    const now = Date.now();
+    return [...this.locks.values()]
+      .filter(l => l.expiresAt >= now)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(l => ({ ...l }));
+  }
+
+  // ============ Chain index ============
+
+  async getChainCursor(indexer: string): Promise<ChainCursor | null> {
+    const cursor = this.chainCursors.get(indexer);
+    return cursor ? { ...cursor } : null;
+  }
+
+  async getIndexedBlocks(indexer: string): Promise<IndexedBlock[]> {
+    return this.chainBlocks
+      .filter(b => b.indexer === indexer)
+      .sort((a, b) => a.number - b.number)
+      .map(b => ({ number: b.number, hash: b.hash }));
+  }
+
+  async saveChainBatch(indexer: string, batch: ChainIndexBatch): Promise<void> {
+    const now = Date.now();
+
+    for (const event of batch.events) {
+      const exists = this.chainEvents.some(
+        e => e.indexer === indexer && e.txHash === event.txHash && e.logIndex === event.logIndex
+      );
+      if (exists) continue;
+
+      this.chainEvents.push({
+        ...event,
+        args: { ...event.args },
+        address: event.address.toLowerCase(),
+        id: this.nextChainEventId++,
+        indexer,
+        confirmed: event.blockNumber <= batch.confirmedThrough,
+        indexedAt: now
+      });
+    }
+
+    for (const event of this.chainEvents) {
+      if (event.indexer === indexer && event.blockNumber <= batch.confirmedThrough) {
+        event.confirmed = true;
+      }
+    }
+
+    this.chainBlocks = this.chainBlocks.filter(
+      b => b.indexer !== indexer ||
+        (b.number > batch.confirmedThrough && !batch.blocks.some(n => n.number === b.number))
+    );
+    this.chainBlocks.push(...batch.blocks.map(b => ({ indexer, number: b.number, hash: b.hash })));
+
+    const previous = this.chainCursors.get(indexer);
+    this.chainCursors.set(indexer, {
+      indexer,
+      blockNumber: batch.head.number,
+      blockHash: batch.head.hash,
+      confirmedBlockNumber: Math.max(previous?.confirmedBlockNumber ?? batch.confirmedThrough, batch.confirmedThrough),
+      updatedAt: now
+    });
+  }
+
+  async rollbackChainIndex(indexer: string, block: IndexedBlock): Promise<number> {
+    const before = this.chainEvents.length;
+    this.chainEvents = this.chainEvents.filter(
+      e => e.indexer !== indexer || e.confirmed || e.blockNumber <= block.number
+    );
+    this.chainBlocks = this.chainBlocks.filter(b => b.indexer !== indexer || b.number <= block.number);
+
+    const cursor = this.chainCursors.get(indexer);
+    if (cursor) {
+      this.chainCursors.set(indexer, {
+        ...cursor,
+        blockNumber: block.number,
+        blockHash: block.hash,
+        updatedAt: Date.now()
+      });
+    }
+    return before - this.chainEvents.length;
+  }
+
+  async listChainEvents(
+    filter: { indexer?: string; eventName?: string; txHash?: string; confirmed?: boolean; limit?: number } = {}
+  ): Promise<ChainEventRecord[]> {
+    return this.chainEvents
+      .filter(e => !filter.indexer || e.indexer === filter.indexer)
+      .filter(e => !filter.eventName || e.eventName === filter.eventName)
+      .filter(e => !filter.txHash || e.txHash === filter.txHash)
+      .filter(e => filter.confirmed === undefined || e.confirmed === filter.confirmed)
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)
+      .slice(0, filter.limit ?? 100)
+      .map(e => ({ ...e, args: { ...e.args } }));
+  }
+
+  // ============ Reconciliation ============
+
+  async saveReconciliationReport(report: NewReconciliationReport): Promise<ReconciliationReport> {
+    const saved = { ...report, id: this.reconciliationReports.length + 1 };
+    this.reconciliationReports.push(saved);
+    return { ...saved };
+  }
+
+  async listReconciliationReports(limit: number = 20): Promise<ReconciliationReport[]> {
+    return [...this.reconciliationReports]
+      .sort((a, b) => b.startedAt - a.startedAt || b.id - a.id)
+      .slice(0, limit)
+      .map(r => ({ ...r }));
+  }
+
+  // ============ History ============
+
+  async getPastGames(limit: number = 10): Promise<GameRecord[]> {
+    return [...this.games.values()]
+      .filter(g => g.finalized)
+      .sort((a, b) => b.gameId - a.gameId)
+      .slice(0, limit)
+      .map(g => ({ ...g }));
+  }
+
+  async getStats(): Promise<ArenaStats> {
+    const finalized = [...this.games.values()].filter(g => g.finalized);
+    const totalPrize = finalized.reduce((sum, g) => sum + parseFloat(g.prizePool), 0);
+
+    return {
+      totalGames: finalized.length,
+      totalEntries: this.entries.length,
+      totalPrizeDistributed: formatAmount(totalPrize),
+      uniquePlayers: new Set(this.entries.map(e => e.playerAddress)).size
+    };
+  }
+}
+
+export default InMemoryGameRepository;
@@ -0,0 +1,153 @@
+import type { Pool, PoolClient } from 'pg';
+import { MIGRATIONS } from '../migrations';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: Array<{ version: number; name: string; appliedAt: number }>;
+  pending: Array<{ version: number; name: string }>;
+}
+
+// Advisory lock key so only one process migrates at a time
+const MIGRATION_LOCK_KEY = 4020_0001;
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce((max, m) => Math.max(max, m.version), 0);
+
+function sortedMigrations(): Migration[] {
+  return [...MIGRATIONS].sort((a, b) => a.version - b.version);
+}
+
+async function ensureMigrationsTable(client: Pool | PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+async function getAppliedMigrations(client: Pool | PoolClient): Promise<MigrationStatus['applied']> {
+  const result = await client.query(
+    'SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC'
+  );
+
+  return result.rows.map(row => ({
+    version: row.version,
+    name: row.name,
+    appliedAt: new Date(row.applied_at).getTime()
+  }));
+}
+
+// Run fn while holding the migration lock
+async function withMigrationLock<T>(pool: Pool, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    await ensureMigrationsTable(client);
+    return await fn(client);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => {});
+    client.release();
+  }
+}
+
+async function runInTransaction(client: PoolClient, sql: string, bookkeeping: () => Promise<unknown>): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await client.query(sql);
+    await bookkeeping();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Refuse to run against a database migrated by newer code
+ */
+export function assertSchemaSupported(currentVersion: number): void {
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema is at version ${currentVersion} but this build only knows up to ${LATEST_SCHEMA_VERSION}. ` +
+      'Deploy a newer backend or roll back the database.'
+    );
+  }
+}
+
+export async function getMigrationStatus(pool: Pool): Promise<MigrationStatus> {
+  await ensureMigrationsTable(pool);
+  const applied = await getAppliedMigrations(pool);
+  const appliedVersions = new Set(applied.map(m => m.version));
+
+  return {
+    currentVersion: applied.reduce((max, m) => Math.max(max, m.version), 0),
+    latestVersion: LATEST_SCHEMA_VERSION,
+    applied,
+    pending: sortedMigrations()
+      .filter(m => !appliedVersions.has(m.version))
+      .map(m => ({ version: m.version, name: m.name }))
+  };
+}
+
+/**
+ * Apply pending migrations up to targetVersion (default: latest)
+ * Returns the versions that were applied.
+ */
+export async function migrateUp(pool: Pool, targetVersion: number = LATEST_SCHEMA_VERSION): Promise<number[]> {
+  return withMigrationLock(pool, async (client) => {
+    const applied = await getAppliedMigrations(client);
+    const appliedVersions = new Set(applied.map(m => m.version));
+    assertSchemaSupported(applied.reduce((max, m) => Math.max(max, m.version), 0));
+
+    const pending = sortedMigrations().filter(
+      m => !appliedVersions.has(m.version) && m.version <= targetVersion
+    );
+
+    for (const migration of pending) {
+      console.log(`⬆️  Applying migration ${migration.version}_${migration.name}`);
+      await runInTransaction(client, migration.up, () =>
+        client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        )
+      );
+    }
+
+    return pending.map(m => m.version);
+  });
+}
+
+/**
+ * Roll back the most recent `steps` migrations
+ * Returns the versions that were rolled back.
+ */
+export async function migrateDown(pool: Pool, steps: number = 1): Promise<number[]> {
+  return withMigrationLock(pool, async (client) => {
+    const applied = await getAppliedMigrations(client);
+    const known = new Map(MIGRATIONS.map(m => [m.version, m]));
+    const toRollBack = applied.slice(-steps).reverse();
+
+    for (const { version, name } of toRollBack) {
+      const migration = known.get(version);
+      if (!migration) {
+        throw new Error(`Cannot roll back unknown migration ${version}_${name}`);
+      }
+
+      console.log(`⬇️  Rolling back migration ${version}_${name}`);
+      await runInTransaction(client, migration.down, () =>
+        client.query('DELETE FROM schema_migrations WHERE version = $1', [version])
+      );
+    }
+
+    return toRollBack.map(m => m.version);
+  });
+}
@@ -0,0 +1,386 @@
+import {
+  encodeFunctionData,
+  formatUnits,
+  hexToString,
+  keccak256,
+  parseUnits,
+  toHex,
+  WaitForTransactionReceiptTimeoutError
+} from 'viem';
+import type { AdminClients } from './game-automation';
+import { splitPrizePool, type GameConfig } from './game-config';
+import type { GameRepository, PayoutRecord, PayoutUpdate } from './game-repository';
+
+// Attempts before a failing payout is flagged for manual review
+export const MAX_PAYOUT_ATTEMPTS = 3;
+
+// How long to wait for a payout transaction before checking again on the next run
+const CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+const USDC_TRANSFER_ABI = [
+  {
+    name: 'transfer',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ],
+    outputs: [{ name: '', type: 'bool' }]
+  }
+] as const;
+
+export interface PayoutConfirmation {
+  success: boolean;
+  blockNumber: number;
+  /** Why an unsuccessful transfer will never land */
+  error?: string;
+}
+
+/**
+ * A signed transfer that has not been broadcast yet
+ */
+export interface SignedPayout {
+  txHash: `0x${string}`;
+  nonce: number;
+  signedTx: `0x${string}`;
+}
+
+/**
+ * Sends USDC payouts. Transfers are signed first and broadcast separately,
+ * so the caller can record a transfer before it can land.
+ */
+export interface PayoutSender {
+  readonly name: string;
+  /** Sign a transfer without broadcasting it */
+  sign(to: `0x${string}`, amount: bigint): Promise<SignedPayout>;
+  /** Broadcast a signed transfer; broadcasting the same one again is harmless */
+  broadcast(payout: SignedPayout): Promise<void>;
+  /**
+   * Wait for a broadcast transfer; null while it may still land. Unsuccessful
+   * once it reverted or its nonce was used by another transaction.
+   */
+  confirm(payout: SignedPayout): Promise<PayoutConfirmation | null>;
+}
+
+// ============ Senders ============
+
+/**
+ * Sends real USDC transfers from the admin wallet
+ */
+export class ChainPayoutSender implements PayoutSender {
+  readonly name = 'chain';
+
+  constructor(
+    private clients: AdminClients,
+    private usdcAddress: `0x${string}`
+  ) {}
+
+  async sign(to: `0x${string}`, amount: bigint): Promise<SignedPayout> {
+    const { publicClient, walletClient, account } = this.clients;
+    if (account.type !== 'local') {
+      throw new Error('Payouts need a local admin account to sign transfers');
+    }
+
+    // Simulate first so a transfer that would revert costs no gas
+    await publicClient.simulateContract({
+      account,
+      address: this.usdcAddress,
+      abi: USDC_TRANSFER_ABI,
+      functionName: 'transfer',
+      args: [to, amount]
+    });
+
+    const request = await walletClient.prepareTransactionRequest({
+      account,
+      type: 'eip1559',
+      to: this.usdcAddress,
+      data: encodeFunctionData({ abi: USDC_TRANSFER_ABI, functionName: 'transfer', args: [to, amount] })
+    });
+    const signedTx = await account.signTransaction({
+      type: 'eip1559',
+      chainId: request.chainId,
+      nonce: request.nonce,
+      to: request.to,
+      data: request.data,
+      gas: request.gas,
+      maxFeePerGas: request.maxFeePerGas,
+      maxPriorityFeePerGas: request.maxPriorityFeePerGas
+    });
+
+    return { txHash: keccak256(signedTx), nonce: request.nonce, signedTx };
+  }
+
+  async broadcast(payout: SignedPayout): Promise<void> {
+    try {
+      await this.clients.publicClient.sendRawTransaction({ serializedTransaction: payout.signedTx });
+    } catch (error) {
+      // Already in the mempool or mined: confirm() tells which
+      if (error instanceof Error && /already known|nonce too low/i.test(error.message)) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async confirm(payout: SignedPayout): Promise<PayoutConfirmation | null> {
+    const { publicClient, account } = this.clients;
+    try {
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: payout.txHash,
+        timeout: CONFIRMATION_TIMEOUT_MS
+      });
+      return { success: receipt.status === 'success', blockNumber: Number(receipt.blockNumber) };
+    } catch (error) {
+      if (!(error instanceof WaitForTransactionReceiptTimeoutError)) {
+        throw error;
+      }
+    }
+
+    // Not mined yet. Once the wallet has used the nonce for something else it never will be.
+    const used = await publicClient.getTransactionCount({ address: account.address, blockTag: 'latest' });
+    if (used <= payout.nonce) {
+      return null;
+    }
+    const receipt = await publicClient.getTransactionReceipt({ hash: payout.txHash }).catch(() => null);
+    if (receipt) {
+      return { success: receipt.status === 'success', blockNumber: Number(receipt.blockNumber) };
+    }
+    return {
+      success: false,
+      blockNumber: Number(await publicClient.getBlockNumber()),
+      error: `Transfer ${payout.txHash} was replaced: nonce ${payout.nonce} is used by another transaction`
+    };
+  }
+}
+
+/**
+ * Dry-run stand-in for a local chain: records transfers in memory,
+ * returns pseudo transaction hashes and confirms them in the next "block".
+ */
+export class LocalPayoutSender implements PayoutSender {
+  readonly name = 'dry-run';
+  private blockNumber = 0;
+  private nonce = 0;
+  private transfers = new Map<string, { blockNumber: number }>();
+
+  async sign(to: `0x${string}`, amount: bigint): Promise<SignedPayout> {
+    const nonce = this.nonce++;
+    const signedTx = toHex(`payout:${to.toLowerCase()}:${amount}:${nonce}`);
+    return { txHash: keccak256(signedTx), nonce, signedTx };
+  }
+
+  async broadcast(payout: SignedPayout): Promise<void> {
+    if (this.transfers.has(payout.txHash)) {
+      return;
+    }
+    this.transfers.set(payout.txHash, { blockNumber: ++this.blockNumber });
+
+    const [, to, amount] = hexToString(payout.signedTx).split(':');
+    console.log(`   🧪 [Dry run] Transfer $${formatUnits(BigInt(amount), 6)} USDC to ${to} (${payout.txHash})`);
+  }
+
+  async confirm(payout: SignedPayout): Promise<PayoutConfirmation | null> {
+    const transfer = this.transfers.get(payout.txHash);
+    return transfer
+      ? { success: true, blockNumber: transfer.blockNumber }
+      : { success: false, blockNumber: this.blockNumber, error: `Transfer ${payout.txHash} is unknown to the dry run` };
+  }
+}
+
+/**
+ * Select payout sender from PAYOUT_MODE ("live" or "dry-run"). Outside
+ * production it defaults to a dry run; production must choose explicitly.
+ */
+export function createPayoutSender(
+  getClients: () => AdminClients,
+  usdcAddress: `0x${string}`
+): PayoutSender {
+  const production = process.env.NODE_ENV === 'production';
+  const mode = process.env.PAYOUT_MODE || (production ? undefined : 'dry-run');
+
+  if (mode === 'live') {
+    if (!process.env.ADMIN_PRIVATE_KEY) {
+      throw new Error('PAYOUT_MODE=live requires ADMIN_PRIVATE_KEY');
+    }
+    return new ChainPayoutSender(getClients(), usdcAddress);
+  }
+
+  if (mode === 'dry-run') {
+    return new LocalPayoutSender();
+  }
+
+  throw new Error(mode
+    ? `Unknown PAYOUT_MODE "${mode}" (expected "live" or "dry-run")`
+    : 'PAYOUT_MODE must be set in production ("live" or "dry-run")');
+}
+
+// ============ Payout execution ============
+
+/**
+ * Pays out finalized games: winner prize plus platform fee.
+ * Every transfer is signed and recorded ("sending") before it is broadcast,
+ * so re-running after a crash or a failed broadcast sends that same
+ * transaction again; a new one is signed only once the recorded one can no
+ * longer land.
+ */
+export class PayoutService {
+  constructor(
+    private repo: GameRepository,
+    private sender: PayoutSender,
+    private platformWallet: string
+  ) {}
+
+  get senderName(): string {
+    return this.sender.name;
+  }
+
+  /**
+   * Record and execute the payouts for a finalized game, split by the game's
+   * platform fee (safe to call again)
+   */
+  async payGame(gameId: number, winnerAddress: string, prizePool: string, config: GameConfig): Promise<PayoutRecord[]> {
+    const { winner, platform } = splitPrizePool(parseUnits(prizePool, 6), config);
+
+    const payouts = [
+      await this.repo.createPayout(gameId, 'winner', winnerAddress, formatUnits(winner, 6)),
+      await this.repo.createPayout(gameId, 'platform', this.platformWallet, formatUnits(platform, 6))
+    ];
+
+    const results: PayoutRecord[] = [];
+    for (const payout of payouts) {
+      results.push(await this.execute(payout));
+    }
+    return results;
+  }
+
+  /**
+   * Games with payouts that still need sending or confirming
+   */
+  async gamesWithOpenPayouts(): Promise<number[]> {
+    const open = await this.listOpenPayouts();
+    return [...new Set(open.map(p => p.gameId))].sort((a, b) => a - b);
+  }
+
+  /**
+   * Retry a game's failed payouts and confirm ones left in flight (e.g. by a restart)
+   */
+  async retryPayouts(gameId: number): Promise<PayoutRecord[]> {
+    const open = (await this.listOpenPayouts()).filter(p => p.gameId === gameId);
+
+    const results: PayoutRecord[] = [];
+    for (const payout of open) {
+      results.push(await this.execute(payout));
+    }
+    return results;
+  }
+
+  private async listOpenPayouts(): Promise<PayoutRecord[]> {
+    return [
+      ...(await this.repo.listPayouts({ status: 'sending' })),
+      ...(await this.repo.listPayouts({ status: 'sent' })),
+      ...(await this.repo.listPayouts({ status: 'pending' })),
+      ...(await this.repo.listPayouts({ status: 'failed' }))
+    ];
+  }
+
+  private async execute(payout: PayoutRecord): Promise<PayoutRecord> {
+    if (payout.status === 'confirmed' || payout.status === 'flagged') {
+      return payout;
+    }
+
+    // Signed but maybe not broadcast: broadcast that transaction again, never a new one
+    if (payout.status === 'sending' && payout.signedTx) {
+      return this.broadcast(payout, payout.attempts + 1);
+    }
+
+    // Already broadcast: only confirm, never resend (it may still land)
+    if (payout.status === 'sent' && payout.txHash) {
+      return this.confirm(payout);
+    }
+
+    const amount = parseUnits(payout.amount, 6);
+    if (amount === BigInt(0)) {
+      return this.update(payout, { status: 'confirmed', lastError: null });
+    }
+
+    const attempts = payout.attempts + 1;
+    let signed: SignedPayout;
+    try {
+      signed = await this.sender.sign(payout.recipientAddress as `0x${string}`, amount);
+    } catch (error) {
+      return this.fail(payout, attempts, error instanceof Error ? error.message : 'Signing failed');
+    }
+
+    const sending = await this.update(payout, { status: 'sending', ...signed, attempts, lastError: null });
+    return this.broadcast(sending, attempts);
+  }
+
+  private async broadcast(payout: PayoutRecord, attempts: number): Promise<PayoutRecord> {
+    try {
+      await this.sender.broadcast(signedPayout(payout));
+    } catch (error) {
+      // It may have reached the network anyway, so it stays "sending"
+      const lastError = error instanceof Error ? error.message : 'Broadcast failed';
+      if (attempts >= MAX_PAYOUT_ATTEMPTS) {
+        console.error(`   🚩 Payout #${payout.id} flagged after ${attempts} broadcasts of ${payout.txHash}: ${lastError}`);
+        return this.update(payout, { status: 'flagged', attempts, lastError });
+      }
+      console.error(`   ❌ Broadcast of payout #${payout.id} failed (attempt ${attempts}/${MAX_PAYOUT_ATTEMPTS}): ${lastError}`);
+      return this.update(payout, { attempts, lastError });
+    }
+
+    console.log(`   📤 Payout #${payout.id} (${payout.kind}) sent: $${payout.amount} USDC to ${payout.recipientAddress} (${payout.txHash})`);
+    const sent = await this.update(payout, { status: 'sent', attempts, lastError: null });
+    return this.confirm(sent);
+  }
+
+  private async confirm(payout: PayoutRecord): Promise<PayoutRecord> {
+    let confirmation: PayoutConfirmation | null;
+    try {
+      confirmation = await this.sender.confirm(signedPayout(payout));
+    } catch (error) {
+      console.error(`   ⚠️ Could not check payout #${payout.id} (${payout.txHash}):`, error);
+      return payout;
+    }
+
+    if (!confirmation) {
+      console.log(`   ⏳ Payout #${payout.id} still unconfirmed (${payout.txHash})`);
+      return payout;
+    }
+
+    if (!confirmation.success) {
+      return this.fail(payout, payout.attempts, confirmation.error ?? `Transfer ${payout.txHash} reverted`);
+    }
+
+    console.log(`   ✅ Payout #${payout.id} confirmed in block ${confirmation.blockNumber}`);
+    return this.update(payout, { status: 'confirmed', blockNumber: confirmation.blockNumber, signedTx: null });
+  }
+
+  private async fail(payout: PayoutRecord, attempts: number, lastError: string): Promise<PayoutRecord> {
+    const status = attempts >= MAX_PAYOUT_ATTEMPTS ? 'flagged' : 'failed';
+
+    if (status === 'flagged') {
+      console.error(`   🚩 Payout #${payout.id} flagged after ${attempts} attempts: ${lastError}`);
+    } else {
+      console.error(`   ❌ Payout #${payout.id} failed (attempt ${attempts}/${MAX_PAYOUT_ATTEMPTS}): ${lastError}`);
+    }
+
+    return this.update(payout, { status, attempts, lastError });
+  }
+
+  private async update(payout: PayoutRecord, changes: PayoutUpdate): Promise<PayoutRecord> {
+    await this.repo.updatePayout(payout.id, changes);
+    return { ...payout, ...changes, updatedAt: Date.now() };
+  }
+}
+
+function signedPayout(payout: PayoutRecord): SignedPayout {
+  return {
+    txHash: payout.txHash as `0x${string}`,
+    nonce: payout.nonce ?? 0,
+    signedTx: (payout.signedTx ?? '0x') as `0x${string}`
+  };
+}
+
+export default PayoutService;
@@ -0,0 +1,421 @@
+import { formatUnits, parseAbi, parseUnits, type Address, type Chain, type PublicClient, type Transport } from 'viem';
+import type { PrizePoolContract } from '../contracts/prize-pool';
+import { entryFeeUnits } from './game-config';
+import type {
+  BalanceCheck,
+  ConsumedPaymentRecord,
+  Discrepancy,
+  GameReconciliation,
+  GameRecord,
+  GameRepository,
+  PayoutRecord,
+  ReconciliationReport
+} from './game-repository';
+
+// Upper bound on payments read per game (entries are one per player)
+const MAX_PAYMENTS_PER_GAME = 10000;
+
+const USDC_BALANCE_ABI = parseAbi(['function balanceOf(address account) view returns (uint256)']);
+
+/**
+ * Chain reads used to check the database against the money on-chain
+ */
+export interface ReconciliationChain {
+  /** USDC balance in base units */
+  usdcBalance(address: Address): Promise<bigint>;
+  /** The PrizePool contract's record of a game; null outside contract mode */
+  contractGame(gameId: number): Promise<{ prizePool: bigint; entryCount: number; finalized: boolean } | null>;
+}
+
+export class ViemReconciliationChain<TChain extends Chain = Chain> implements ReconciliationChain {
+  constructor(
+    private publicClient: PublicClient<Transport, TChain>,
+    private usdcAddress: Address,
+    private prizePool: PrizePoolContract<TChain> | null
+  ) {}
+
+  usdcBalance(address: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.usdcAddress,
+      abi: USDC_BALANCE_ABI,
+      functionName: 'balanceOf',
+      args: [address]
+    });
+  }
+
+  async contractGame(gameId: number): Promise<{ prizePool: bigint; entryCount: number; finalized: boolean } | null> {
+    if (!this.prizePool) {
+      return null;
+    }
+    const game = await this.prizePool.getGame(BigInt(gameId));
+    return { prizePool: game.prizePool, entryCount: Number(game.entryCount), finalized: game.finalized };
+  }
+}
+
+export interface ReconcilerOptions {
+  /** How many games to check, counting back from the latest */
+  gameWindow: number;
+  /** Entries are paid through the PrizePool contract, which also pays the prizes */
+  contractMode: boolean;
+  /** Payouts are real transfers (not the dry-run sender) */
+  livePayouts: boolean;
+  wallets: { prizePool: Address | null; payout: Address | null; feeRecipient: Address };
+  /**
+   * Chain indexer whose confirmed events must contain every payment and payout,
+   * and the block it started from (null: indexer disabled or start unknown)
+   */
+  indexer: { name: string; fromBlock: number } | null;
+}
+
+/** Called with a saved report and the errors the previous report did not have */
+export type ReconciliationAlert = (report: ReconciliationReport, newErrors: Discrepancy[]) => Promise<void>;
+
+/**
+ * Log new reconciliation errors and, when a webhook is configured, post them
+ * there as well (Slack-compatible `text` plus the raw discrepancies)
+ */
+export function createReconciliationAlert(webhookUrl?: string): ReconciliationAlert {
+  return async (report, newErrors) => {
+    for (const d of newErrors) {
+      console.error(`   🚩 Reconciliation ${d.gameId ? `game #${d.gameId} ` : ''}${d.check}: ${d.message}`);
+    }
+
+    if (!webhookUrl) {
+      return;
+    }
+
+    const text = [
+      `🚩 Reconciliation report #${report.id}: ${newErrors.length} new discrepancies`,
+      ...newErrors.map(d => `• ${d.gameId ? `Game #${d.gameId} ` : ''}${d.check}: ${d.message}`)
+    ].join('\n');
+
+    try {
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, reportId: report.id, discrepancies: newErrors })
+      });
+      if (!response.ok) {
+        console.error(`   ⚠️ Reconciliation alert webhook returned ${response.status}`);
+      }
+    } catch (error) {
+      console.error('   ⚠️ Could not send reconciliation alert:', error instanceof Error ? error.message : error);
+    }
+  };
+}
+
+function usdc(amount: bigint): string {
+  return formatUnits(amount, 6);
+}
+
+function sum(amounts: bigint[]): bigint {
+  return amounts.reduce((total, amount) => total + amount, BigInt(0));
+}
+
+function discrepancyKey(d: Discrepancy): string {
+  return `${d.gameId ?? '-'}:${d.check}`;
+}
+
+/**
+ * Compares, per game, the recorded entries and prize pool with the verified
+ * payments, the payouts and the chain (contract state, indexed transfers and
+ * wallet balances). Every run is stored as a report; errors that were not in
+ * the previous report are alerted.
+ */
+export class Reconciler {
+  constructor(
+    private repo: GameRepository,
+    private chain: ReconciliationChain,
+    private options: ReconcilerOptions,
+    private alert: ReconciliationAlert
+  ) {}
+
+  async run(): Promise<ReconciliationReport> {
+    const startedAt = Date.now();
+    const [previous] = await this.repo.listReconciliationReports(1);
+    const discrepancies: Discrepancy[] = [];
+
+    let games: GameReconciliation[] = [];
+    let balances: BalanceCheck[] = [];
+    let error: string | null = null;
+    try {
+      games = await this.reconcileGames(discrepancies);
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Reconciliation failed';
+    }
+
+    // Balances are checked against the games above; an unreachable chain only skips them
+    if (!error) {
+      try {
+        balances = await this.checkBalances(games, discrepancies);
+      } catch (e) {
+        discrepancies.push({
+          gameId: null,
+          check: 'balances_unavailable',
+          severity: 'warning',
+          message: `Could not read balances: ${e instanceof Error ? e.message.split('\n')[0] : e}`
+        });
+      }
+    }
+
+    const report = await this.repo.saveReconciliationReport({
+      status: error ? 'failed' : discrepancies.some(d => d.severity === 'error') ? 'discrepancies' : 'ok',
+      games,
+      balances,
+      discrepancies,
+      error,
+      startedAt,
+      finishedAt: Date.now()
+    });
+
+    const known = new Set(previous?.discrepancies.map(discrepancyKey) ?? []);
+    const newErrors = discrepancies.filter(d => d.severity === 'error' && !known.has(discrepancyKey(d)));
+    if (newErrors.length > 0) {
+      await this.alert(report, newErrors);
+    }
+
+    return report;
+  }
+
+  private async reconcileGames(discrepancies: Discrepancy[]): Promise<GameReconciliation[]> {
+    const latestGameId = await this.repo.getLatestGameId();
+    const firstGameId = Math.max(1, latestGameId - this.options.gameWindow + 1);
+    const cursor = this.options.indexer ? await this.repo.getChainCursor(this.options.indexer.name) : null;
+
+    const results: GameReconciliation[] = [];
+    for (let gameId = firstGameId; gameId <= latestGameId; gameId++) {
+      const game = await this.repo.findGame(gameId);
+      if (game) {
+        results.push(await this.reconcileGame(game, cursor?.confirmedBlockNumber ?? null, discrepancies));
+      }
+    }
+    return results;
+  }
+
+  private async reconcileGame(
+    game: GameRecord,
+    confirmedBlock: number | null,
+    discrepancies: Discrepancy[]
+  ): Promise<GameReconciliation> {
+    const { gameId } = game;
+    const entryFee = entryFeeUnits(game.config);
+    const report = (check: string, severity: Discrepancy['severity'], message: string, expected?: bigint, actual?: bigint) => {
+      discrepancies.push({
+        gameId,
+        check,
+        severity,
+        message,
+        expected: expected === undefined ? undefined : usdc(expected),
+        actual: actual === undefined ? undefined : usdc(actual)
+      });
+    };
+
+    const entries = await this.repo.getAllEntriesForGame(gameId);
+    const payments = await this.repo.listConsumedPayments({ gameId, limit: MAX_PAYMENTS_PER_GAME });
+    const payouts = await this.repo.getPayoutsForGame(gameId);
+
+    // Entries against the payments that funded them
+    if (game.entryCount !== entries.length) {
+      discrepancies.push({
+        gameId,
+        check: 'entry_count_mismatch',
+        severity: 'error',
+        message: `Game records ${game.entryCount} entries but ${entries.length} are stored`,
+        expected: String(entries.length),
+        actual: String(game.entryCount)
+      });
+    }
+
+    for (const entry of entries.filter(e => !payments.some(p => p.entryId === e.id))) {
+      report('entry_without_payment', 'error', `Entry ${entry.id} of ${entry.playerAddress} has no recorded payment`);
+    }
+    for (const payment of payments.filter(p => !entries.some(e => e.id === p.entryId))) {
+      report('payment_without_entry', 'warning', `Payment ${payment.txHash} funds no stored entry`);
+    }
+
+    const known = payments.filter((p): p is ConsumedPaymentRecord & { amount: string } => p.amount !== null);
+    for (const payment of payments.filter(p => p.amount === null)) {
+      report('payment_amount_unknown', 'warning', `Payment ${payment.txHash} was recorded without an amount`);
+    }
+    for (const payment of known.filter(p => parseUnits(p.amount, 6) < entryFee)) {
+      report('payment_underpaid', 'error', `Payment ${payment.txHash} is below the entry fee`, entryFee, parseUnits(payment.amount, 6));
+    }
+
+    // Prize pool against the entries and the money received
+    const paymentTotal = sum(known.map(p => parseUnits(p.amount, 6)));
+    const recordedPrizePool = parseUnits(game.prizePool, 6);
+    const expectedPrizePool = entryFee * BigInt(entries.length);
+
+    if (recordedPrizePool !== expectedPrizePool) {
+      report('prize_pool_mismatch', 'error', `Prize pool does not match ${entries.length} entries at the entry fee`, expectedPrizePool, recordedPrizePool);
+    }
+    if (known.length === payments.length && paymentTotal < recordedPrizePool) {
+      report('payments_short', 'error', 'Verified payments do not cover the recorded prize pool', recordedPrizePool, paymentTotal);
+    }
+
+    // The contract's own record of the game
+    let contractPrizePool: bigint | null = null;
+    if (this.options.contractMode) {
+      const onChain = await this.chain.contractGame(gameId);
+      if (onChain) {
+        contractPrizePool = onChain.prizePool;
+        if (onChain.prizePool !== recordedPrizePool) {
+          report('contract_prize_pool_mismatch', 'error', 'PrizePool contract holds a different prize pool', onChain.prizePool, recordedPrizePool);
+        }
+        if (onChain.entryCount !== entries.length) {
+          discrepancies.push({
+            gameId,
+            check: 'contract_entry_count_mismatch',
+            severity: 'error',
+            message: `PrizePool contract has ${onChain.entryCount} entries, the database ${entries.length}`,
+            expected: String(onChain.entryCount),
+            actual: String(entries.length)
+          });
+        }
+        if (game.finalized && !onChain.finalized) {
+          report('contract_not_finalized', 'error', 'Game is finalized in the database but not on the PrizePool contract');
+        }
+      }
+    }
+
+    // Payouts of finalized games (the contract pays its own prizes)
+    const payoutTotal = sum(payouts.map(p => parseUnits(p.amount, 6)));
+    if (game.finalized && !this.options.contractMode) {
+      if (payouts.length === 0) {
+        report('payouts_missing', 'error', 'Finalized game has no payouts', recordedPrizePool, BigInt(0));
+      } else if (payoutTotal !== recordedPrizePool) {
+        report('payout_total_mismatch', 'error', 'Payouts do not add up to the prize pool', recordedPrizePool, payoutTotal);
+      }
+    }
+    for (const payout of payouts.filter(p => p.status === 'flagged')) {
+      report('payout_flagged', 'error', `Payout #${payout.id} (${payout.kind}) was flagged: ${payout.lastError ?? 'unknown error'}`);
+    }
+    for (const payout of payouts.filter(p => p.status === 'failed')) {
+      report('payout_failed', 'warning', `Payout #${payout.id} (${payout.kind}) failed and will be retried: ${payout.lastError ?? 'unknown error'}`);
+    }
+
+    // Transfers the chain indexer should have seen
+    if (this.options.indexer && confirmedBlock !== null) {
+      await this.checkIndexedTransfers(gameId, payments, payouts, confirmedBlock, discrepancies);
+    }
+
+    return {
+      gameId,
+      finalized: game.finalized,
+      entries: entries.length,
+      payments: payments.length,
+      paymentTotal: usdc(paymentTotal),
+      recordedPrizePool: usdc(recordedPrizePool),
+      contractPrizePool: contractPrizePool === null ? null : usdc(contractPrizePool),
+      payoutTotal: usdc(payoutTotal)
+    };
+  }
+
+  /**
+   * Every payment and live payout in a confirmed, indexed block must have its
+   * event in the index: a Transfer of the amount to the recipient, or the
+   * EntrySubmitted event of the player in contract mode
+   */
+  private async checkIndexedTransfers(
+    gameId: number,
+    payments: ConsumedPaymentRecord[],
+    payouts: PayoutRecord[],
+    confirmedBlock: number,
+    discrepancies: Discrepancy[]
+  ): Promise<void> {
+    const { name, fromBlock } = this.options.indexer!;
+    const indexed = (block: number | null): block is number => block !== null && block >= fromBlock && block <= confirmedBlock;
+
+    const hasTransfer = async (txHash: string, to: string | null, amount: string | null): Promise<boolean> => {
+      const events = await this.repo.listChainEvents({ indexer: name, txHash, confirmed: true });
+      return events.some(e =>
+        e.eventName === 'Transfer' &&
+        (to === null || String(e.args.to).toLowerCase() === to.toLowerCase()) &&
+        (amount === null || e.args.value === parseUnits(amount, 6).toString())
+      );
+    };
+
+    for (const payment of payments.filter(p => indexed(p.blockNumber))) {
+      const found = this.options.contractMode
+        ? (await this.repo.listChainEvents({ indexer: name, txHash: payment.txHash, eventName: 'EntrySubmitted', confirmed: true }))
+            .some(e => String(e.args.player).toLowerCase() === payment.playerAddress)
+        : await hasTransfer(payment.txHash, payment.recipientAddress, payment.amount);
+
+      if (!found) {
+        discrepancies.push({
+          gameId,
+          check: 'payment_not_on_chain',
+          severity: 'error',
+          message: `Payment ${payment.txHash} in block ${payment.blockNumber} has no matching confirmed event`
+        });
+      }
+    }
+
+    if (!this.options.livePayouts) {
+      return;
+    }
+    for (const payout of payouts.filter(p => p.status === 'confirmed' && p.txHash && indexed(p.blockNumber))) {
+      if (!(await hasTransfer(payout.txHash!, payout.recipientAddress, payout.amount))) {
+        discrepancies.push({
+          gameId,
+          check: 'payout_not_on_chain',
+          severity: 'error',
+          message: `Payout #${payout.id} (${payout.txHash}) has no matching confirmed Transfer`
+        });
+      }
+    }
+  }
+
+  /**
+   * The contract must hold the prize pools of the games it has not paid out;
+   * the payout wallet must cover the payouts still owed
+   */
+  private async checkBalances(games: GameReconciliation[], discrepancies: Discrepancy[]): Promise<BalanceCheck[]> {
+    const { wallets } = this.options;
+    const balances: BalanceCheck[] = [];
+    const check = (label: string, address: Address, balance: bigint, expected: bigint | null) => {
+      balances.push({ label, address, balance: usdc(balance), expected: expected === null ? null : usdc(expected) });
+    };
+
+    if (this.options.contractMode && wallets.prizePool) {
+      const held = sum(games.filter(g => !g.finalized).map(g => parseUnits(g.contractPrizePool ?? g.recordedPrizePool, 6)));
+      const balance = await this.chain.usdcBalance(wallets.prizePool);
+      check('prize pool contract', wallets.prizePool, balance, held);
+
+      if (balance < held) {
+        discrepancies.push({
+          gameId: null,
+          check: 'contract_balance_short',
+          severity: 'error',
+          message: 'PrizePool contract holds less USDC than the prize pools of unfinished games',
+          expected: usdc(held),
+          actual: usdc(balance)
+        });
+      }
+    }
+
+    if (!this.options.contractMode && this.options.livePayouts && wallets.payout) {
+      const owed = sum(
+        (await this.repo.listPayouts({ limit: MAX_PAYMENTS_PER_GAME }))
+          .filter(p => p.status === 'pending' || p.status === 'failed' || p.status === 'flagged')
+          .map(p => parseUnits(p.amount, 6))
+      );
+      const balance = await this.chain.usdcBalance(wallets.payout);
+      check('payout wallet', wallets.payout, balance, owed);
+
+      if (balance < owed) {
+        discrepancies.push({
+          gameId: null,
+          check: 'payout_wallet_short',
+          severity: 'error',
+          message: 'Payout wallet cannot cover the payouts still owed',
+          expected: usdc(owed),
+          actual: usdc(balance)
+        });
+      }
+    }
+
+    check('entry fee recipient', wallets.feeRecipient, await this.chain.usdcBalance(wallets.feeRecipient), null);
+    return balances;
+  }
+}
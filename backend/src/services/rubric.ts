@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+// Criterion keys name the scores in the judge's reply and in stored entry scores
+export const CRITERION_KEY_PATTERN = /^[a-z][a-z0-9_]{0,31}$/;
+// Keys the judge's reply uses for other fields
+const RESERVED_CRITERION_KEYS = ['total', 'feedback'];
+export const MAX_CRITERIA = 8;
+
+// Each criterion is scored 1-10; weighted totals are scaled to 0-30 whatever the number of criteria
+export const MAX_CRITERION_SCORE = 10;
+export const MAX_TOTAL_SCORE = 30;
+
+/** Score per criterion key */
+export type CriterionScores = Record<string, number>;
+
+export interface RubricCriterion {
+  key: string;
+  name: string;
+  weight: number;
+  description: string;
+}
+
+/**
+ * How a game's entries are scored: 1 to MAX_CRITERIA criteria with distinct keys
+ */
+export interface Rubric {
+  criteria: RubricCriterion[];
+}
+
+export const DEFAULT_RUBRIC: Rubric = {
+  criteria: [
+    {
+      key: 'creativity',
+      name: 'Creativity',
+      weight: 1,
+      description: 'Originality, uniqueness, innovative use of AI tools'
+    },
+    {
+      key: 'technique',
+      name: 'Technique',
+      weight: 1,
+      description: 'Quality of execution, proper use of composition, detail'
+    },
+    {
+      key: 'theme',
+      name: 'Theme',
+      weight: 1,
+      description: "How well the piece interprets the game's theme (without a theme: visual appeal, color harmony, emotional impact)"
+    }
+  ]
+};
+
+export const RubricSchema = z.object({
+  criteria: z.array(z.object({
+    key: z.string()
+      .regex(CRITERION_KEY_PATTERN, 'Criterion keys are lowercase letters, digits and underscores, starting with a letter')
+      .refine(key => !RESERVED_CRITERION_KEYS.includes(key), { message: `Criterion keys cannot be ${RESERVED_CRITERION_KEYS.join(' or ')}` }),
+    name: z.string().min(1).max(50),
+    weight: z.number().positive().max(10),
+    description: z.string().min(1).max(300)
+  })).min(1).max(MAX_CRITERIA)
+}).refine(
+  rubric => new Set(rubric.criteria.map(c => c.key)).size === rubric.criteria.length,
+  { message: 'Rubric criteria need distinct keys' }
+);
+
+/**
+ * Weighted total of one entry's criterion scores, scaled to 0-MAX_TOTAL_SCORE
+ * (three equally weighted criteria give the plain sum)
+ */
+export function weightedTotal(scores: CriterionScores, rubric: Rubric = DEFAULT_RUBRIC): number {
+  const weightSum = rubric.criteria.reduce((sum, c) => sum + c.weight, 0);
+  const weighted = rubric.criteria.reduce((sum, c) => sum + c.weight * scores[c.key], 0);
+  return Math.round((weighted / weightSum / MAX_CRITERION_SCORE) * MAX_TOTAL_SCORE * 100) / 100;
+}
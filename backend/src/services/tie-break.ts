@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import type { Block, Chain, PublicClient, Transport } from 'viem';
+import type { CriterionScores, Rubric } from './rubric';
+
+/**
+ * How a game's winner is chosen among entries the judges rank equally, in order.
+ * Published with every game result.
+ */
+export const TIE_BREAK_POLICY = [
+  "Judges' standing (score total, or tournament result)",
+  'Criterion scores in rubric priority order (highest weight first)',
+  'Earliest submission',
+  'Lowest sha256(seed + ":" + entry ID), seeded by the hash of the first block at or after the end of the game'
+];
+
+/**
+ * Randomness for the last tie-break step, stored on the game once used so
+ * re-judging cannot draw a different one
+ */
+export interface TieBreakSeed {
+  /** 'block': hash of the given block; 'configured': TIE_BREAK_SEED (offline only) */
+  source: 'block' | 'configured';
+  value: string;
+  blockNumber: string | null;
+}
+
+/** How a game's winner was settled, published with its result */
+export interface TieBreakReport {
+  policy: string[];
+  /** Entries tied for first on the judges' standing (empty: no tie) */
+  tiedEntryIds: number[];
+  /** The policy step that settled the winner */
+  decidedBy: string;
+  /** Set only when the random step was needed */
+  seed: TieBreakSeed | null;
+}
+
+export interface TieBreakCandidate {
+  entryId: number;
+  submittedAt: number;
+  scores: CriterionScores;
+}
+
+/**
+ * Criteria in tie-break priority: highest weight first, rubric order among equal weights
+ */
+export function criterionPriority(rubric: Rubric): Rubric['criteria'] {
+  return [...rubric.criteria].sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * First block at or after `timestampMs`: unknown while entries can still come
+ * in, and the same block for every later reader. Throws until the chain has
+ * reached that time.
+ */
+export async function firstBlockAtOrAfter<TChain extends Chain>(
+  publicClient: PublicClient<Transport, TChain>,
+  timestampMs: number
+): Promise<Block<bigint, false, 'latest'>> {
+  const target = BigInt(Math.ceil(timestampMs / 1000));
+  const latest = await publicClient.getBlock({ blockTag: 'latest' });
+  if (latest.timestamp < target) {
+    throw new Error(`The chain has not reached ${new Date(timestampMs).toISOString()} yet`);
+  }
+
+  const getBlock = (blockNumber: bigint) => publicClient.getBlock({ blockNumber });
+
+  // Step back exponentially to a block before the target, then bisect: block(low) < target <= block(high)
+  let high = latest;
+  let low: bigint;
+  for (let step = BigInt(1); ; step *= BigInt(2)) {
+    if (high.number === BigInt(0)) {
+      return high;
+    }
+    const candidate = await getBlock(latest.number > step ? latest.number - step : BigInt(0));
+    if (candidate.timestamp < target) {
+      low = candidate.number;
+      break;
+    }
+    high = candidate;
+  }
+
+  while (high.number - low > BigInt(1)) {
+    const middle = await getBlock((low + high.number) / BigInt(2));
+    if (middle.timestamp < target) {
+      low = middle.number;
+    } else {
+      high = middle;
+    }
+  }
+  return high;
+}
+
+/**
+ * Deterministic ticket of an entry for the random step (lowest wins)
+ */
+export function tieBreakTicket(seed: TieBreakSeed, entryId: number): string {
+  return createHash('sha256').update(`${seed.value}:${entryId}`).digest('hex');
+}
+
+/**
+ * Pick the winner among entries tied on the judges' standing by applying
+ * TIE_BREAK_POLICY. The seed is only fetched when the random step is reached.
+ */
+export async function breakTie(
+  tied: TieBreakCandidate[],
+  rubric: Rubric,
+  getSeed: () => Promise<TieBreakSeed>
+): Promise<{ winnerEntryId: number; report: TieBreakReport }> {
+  const report = (decidedBy: string, seed: TieBreakSeed | null = null): TieBreakReport => ({
+    policy: TIE_BREAK_POLICY,
+    tiedEntryIds: tied.length > 1 ? tied.map(c => c.entryId) : [],
+    decidedBy,
+    seed
+  });
+
+  if (tied.length === 1) {
+    return { winnerEntryId: tied[0].entryId, report: report('standing') };
+  }
+
+  let remaining = tied;
+  for (const criterion of criterionPriority(rubric)) {
+    const best = Math.max(...remaining.map(c => c.scores[criterion.key]));
+    remaining = remaining.filter(c => c.scores[criterion.key] === best);
+    if (remaining.length === 1) {
+      return { winnerEntryId: remaining[0].entryId, report: report(`criterion: ${criterion.name}`) };
+    }
+  }
+
+  const earliest = Math.min(...remaining.map(c => c.submittedAt));
+  remaining = remaining.filter(c => c.submittedAt === earliest);
+  if (remaining.length === 1) {
+    return { winnerEntryId: remaining[0].entryId, report: report('earliest submission') };
+  }
+
+  const seed = await getSeed();
+  const [winner] = [...remaining].sort((a, b) =>
+    tieBreakTicket(seed, a.entryId).localeCompare(tieBreakTicket(seed, b.entryId))
+  );
+  return { winnerEntryId: winner.entryId, report: report('random', seed) };
+}
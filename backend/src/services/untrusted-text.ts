@@ -0,0 +1,77 @@
+// Longest player-supplied text shown to the judge (entry titles allow 100 characters)
+export const MAX_UNTRUSTED_TEXT_LENGTH = 200;
+
+// Control characters, zero-width and bidi-override characters
+const HIDDEN_CHARACTERS = /[\p{Cc}\p{Cf}]/gu;
+
+/**
+ * Instruction-like phrases that have no business in an artwork title.
+ * Matched against the sanitized, lower-cased text.
+ */
+const INJECTION_PATTERNS: Array<{ reason: string; pattern: RegExp }> = [
+  {
+    reason: 'tries to override instructions',
+    pattern: /\b(ignore|disregard|forget|override|bypass)\b.{0,40}\b(instructions?|prompts?|rules|criteria|rubric|above|previous|prior)\b/
+  },
+  {
+    reason: 'addresses the judge',
+    pattern: /\b(you are (now )?(an? |the )?(judge|assistant|ai|model)|as an ai|dear (judge|ai|model)|(system|developer|assistant) (prompt|message|instructions?))\b/
+  },
+  {
+    reason: 'asks for a score',
+    pattern: /\b(score|rate|grade|give|award|mark)\b.{0,30}\b(10|ten|highest|max(imum)?|perfect|full marks)\b|\b10 ?\/ ?10\b/
+  },
+  {
+    reason: 'asks to win',
+    pattern: /\b(declare|pick|choose|select|make|crown)\b.{0,30}\b(winner|the best|first place)\b|\bmust win\b/
+  },
+  {
+    reason: 'imitates the judge reply or prompt markup',
+    pattern: /"?\b(submissionid|winnerid|creativity|technique|theme)\b"? ?: ?"?\d|<\/? ?[a-z_]+>|(^|\n) *#{1,6} |#{1,6} submission \d|\b(system|assistant|user) ?:/
+  }
+];
+
+/**
+ * Make player-supplied text safe to embed in a judge prompt: strip hidden
+ * characters, fold newlines and look-alike characters, drop the characters
+ * used to fence untrusted text, and cap the length.
+ */
+export function sanitizeUntrustedText(text: string, maxLength: number = MAX_UNTRUSTED_TEXT_LENGTH): string {
+  const cleaned = text
+    .normalize('NFKC')
+    .replace(/[\r\n\t]+/g, ' ')
+    .replace(HIDDEN_CHARACTERS, '')
+    .replace(/[<>`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return cleaned.length > maxLength ? `${cleaned.slice(0, maxLength - 1)}…` : cleaned;
+}
+
+/**
+ * Sanitize player-supplied text and wrap it in tags the judge is told to treat as data
+ */
+export function fenceUntrusted(tag: string, text: string): string {
+  return `<${tag}>${sanitizeUntrustedText(text)}</${tag}>`;
+}
+
+/**
+ * Reasons a piece of player-supplied text looks like a prompt injection (empty: looks clean)
+ */
+export function detectInjection(text: string): string[] {
+  const reasons: string[] = [];
+
+  if (text.normalize('NFKC').replace(/[\r\n\t]/g, '').match(HIDDEN_CHARACTERS)) {
+    reasons.push('contains hidden characters');
+  }
+
+  // Check the raw text for markup (sanitizing removes it) and the sanitized text for phrases
+  const candidates = [text.toLowerCase(), sanitizeUntrustedText(text, Infinity).toLowerCase()];
+  for (const { reason, pattern } of INJECTION_PATTERNS) {
+    if (candidates.some(candidate => pattern.test(candidate))) {
+      reasons.push(reason);
+    }
+  }
+
+  return reasons;
+}
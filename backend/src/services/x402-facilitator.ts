@@ -0,0 +1,457 @@
+import { isAddressEqual, keccak256, parseSignature, verifyTypedData } from 'viem';
+import { z } from 'zod';
+import type { AdminClients } from './game-automation';
+import type { PaymentVerification } from './x402-payment';
+
+// x402 protocol version spoken by this server
+export const X402_VERSION = 1;
+
+/**
+ * What the server accepts as payment (sent in the 402 response)
+ */
+export interface PaymentRequirements {
+  scheme: 'exact';
+  network: 'base' | 'base-sepolia';
+  maxAmountRequired: string;
+  resource: string;
+  description: string;
+  mimeType: string;
+  payTo: `0x${string}`;
+  maxTimeoutSeconds: number;
+  asset: `0x${string}`;
+  extra: {
+    name: string;
+    version: string;
+  };
+}
+
+/**
+ * EIP-3009 transferWithAuthorization parameters signed by the payer
+ */
+export interface TransferAuthorization {
+  from: `0x${string}`;
+  to: `0x${string}`;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: `0x${string}`;
+}
+
+/**
+ * Decoded X-PAYMENT header
+ */
+export interface PaymentPayload {
+  x402Version: number;
+  scheme: 'exact';
+  network: PaymentRequirements['network'];
+  payload: {
+    signature: `0x${string}`;
+    authorization: TransferAuthorization;
+  };
+}
+
+export interface VerifyResponse {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: `0x${string}`;
+}
+
+/**
+ * Settlement result (sent back base64-encoded in X-PAYMENT-RESPONSE)
+ */
+export interface SettleResponse {
+  success: boolean;
+  /**
+   * Submitted but not confirmed: the funds may already have moved in
+   * `transaction`, so the payment must be checked later rather than refused
+   */
+  pending?: boolean;
+  errorReason?: string;
+  transaction?: `0x${string}`;
+  network?: PaymentRequirements['network'];
+  payer?: `0x${string}`;
+}
+
+/**
+ * Verifies and settles x402 payments
+ */
+export interface Facilitator {
+  readonly name: string;
+  verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse>;
+  settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse>;
+}
+
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' }
+  ]
+} as const;
+
+// USDC (FiatTokenV2) EIP-3009 entry points used by the relay
+const USDC_AUTHORIZATION_ABI = [
+  {
+    name: 'transferWithAuthorization',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'validAfter', type: 'uint256' },
+      { name: 'validBefore', type: 'uint256' },
+      { name: 'nonce', type: 'bytes32' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' }
+    ],
+    outputs: []
+  },
+  {
+    name: 'authorizationState',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'authorizer', type: 'address' },
+      { name: 'nonce', type: 'bytes32' }
+    ],
+    outputs: [{ name: '', type: 'bool' }]
+  }
+] as const;
+
+const CHAIN_IDS: Record<PaymentRequirements['network'], number> = {
+  'base': 8453,
+  'base-sepolia': 84532
+};
+
+// ============ Header encoding ============
+
+const hexString = (bytes?: number) =>
+  z.string().regex(bytes ? new RegExp(`^0x[0-9a-fA-F]{${bytes * 2}}$`) : /^0x(?:[0-9a-fA-F]{2})+$/);
+const uint256String = z.string().regex(/^\d{1,78}$/, 'Expected a decimal integer');
+
+// Shape of a decoded X-PAYMENT header; the values are checked by verifyTransferAuthorization
+const PaymentPayloadSchema = z.object({
+  x402Version: z.number().int(),
+  scheme: z.literal('exact'),
+  network: z.string(),
+  payload: z.object({
+    signature: hexString(),
+    authorization: z.object({
+      from: hexString(20),
+      to: hexString(20),
+      value: uint256String,
+      validAfter: uint256String,
+      validBefore: uint256String,
+      nonce: hexString(32)
+    })
+  })
+});
+
+export function decodePaymentHeader(header: string): PaymentPayload {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+  } catch {
+    throw new Error('Malformed X-PAYMENT header: not base64-encoded JSON');
+  }
+
+  const parsed = PaymentPayloadSchema.safeParse(decoded);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Malformed X-PAYMENT header: ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  return parsed.data as PaymentPayload;
+}
+
+export function encodePaymentResponseHeader(response: SettleResponse): string {
+  return Buffer.from(JSON.stringify(response)).toString('base64');
+}
+
+// ============ Shared checks ============
+
+/**
+ * Check an authorization against the requirements and its EIP-712 signature
+ */
+export async function verifyTransferAuthorization(
+  payload: PaymentPayload,
+  requirements: PaymentRequirements,
+  now: number = Date.now()
+): Promise<VerifyResponse> {
+  const { authorization, signature } = payload.payload;
+  const payer = authorization.from;
+  const nowSeconds = BigInt(Math.floor(now / 1000));
+
+  if (payload.scheme !== requirements.scheme || payload.network !== requirements.network) {
+    return { isValid: false, invalidReason: 'unsupported_scheme_or_network', payer };
+  }
+
+  if (!isAddressEqual(authorization.to, requirements.payTo)) {
+    return { isValid: false, invalidReason: 'invalid_recipient', payer };
+  }
+
+  if (BigInt(authorization.value) < BigInt(requirements.maxAmountRequired)) {
+    return { isValid: false, invalidReason: 'insufficient_amount', payer };
+  }
+
+  if (BigInt(authorization.validAfter) > nowSeconds || BigInt(authorization.validBefore) <= nowSeconds) {
+    return { isValid: false, invalidReason: 'authorization_not_valid_now', payer };
+  }
+
+  const validSignature = await verifyTypedData({
+    address: payer,
+    domain: {
+      name: requirements.extra.name,
+      version: requirements.extra.version,
+      chainId: CHAIN_IDS[requirements.network],
+      verifyingContract: requirements.asset
+    },
+    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+    primaryType: 'TransferWithAuthorization',
+    message: {
+      from: authorization.from,
+      to: authorization.to,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: authorization.nonce
+    },
+    signature
+  }).catch(() => false);
+
+  if (!validSignature) {
+    return { isValid: false, invalidReason: 'invalid_signature', payer };
+  }
+
+  return { isValid: true, payer };
+}
+
+// ============ Facilitators ============
+
+/**
+ * Remote facilitator speaking the standard /verify and /settle API
+ */
+export class HttpFacilitator implements Facilitator {
+  readonly name: string;
+
+  constructor(private baseUrl: string) {
+    this.name = `http:${baseUrl}`;
+  }
+
+  async verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    return this.post<VerifyResponse>('/verify', payload, requirements);
+  }
+
+  async settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+    return this.post<SettleResponse>('/settle', payload, requirements);
+  }
+
+  private async post<T>(path: string, payload: PaymentPayload, requirements: PaymentRequirements): Promise<T> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        x402Version: X402_VERSION,
+        paymentPayload: payload,
+        paymentRequirements: requirements
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Facilitator ${path} failed: HTTP ${response.status}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
+
+/**
+ * Local stand-in facilitator for development and tests.
+ * Verifies signatures offline and "settles" without touching a chain,
+ * returning a deterministic pseudo transaction hash. Only used when
+ * X402_FACILITATOR=local is set explicitly.
+ */
+export class LocalFacilitator implements Facilitator {
+  readonly name = 'local';
+  private usedNonces = new Set<string>();
+
+  async verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    const result = await verifyTransferAuthorization(payload, requirements);
+    if (result.isValid && this.usedNonces.has(this.nonceKey(payload))) {
+      return { isValid: false, invalidReason: 'authorization_already_used', payer: result.payer };
+    }
+    return result;
+  }
+
+  async settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+    const verification = await this.verify(payload, requirements);
+    if (!verification.isValid) {
+      return { success: false, errorReason: verification.invalidReason, network: requirements.network };
+    }
+
+    this.usedNonces.add(this.nonceKey(payload));
+
+    return {
+      success: true,
+      transaction: keccak256(payload.payload.signature),
+      network: requirements.network,
+      payer: verification.payer
+    };
+  }
+
+  private nonceKey(payload: PaymentPayload): string {
+    return `${payload.payload.authorization.from.toLowerCase()}:${payload.payload.authorization.nonce}`;
+  }
+}
+
+/**
+ * Gasless settlement: the admin wallet submits the payer's signed
+ * transferWithAuthorization to USDC and pays the gas, so players only need USDC.
+ * Settlement is confirmed by checking the resulting Transfer log.
+ */
+export class RelayFacilitator implements Facilitator {
+  readonly name = 'relay';
+
+  constructor(
+    private clients: AdminClients,
+    private verifySettlement: (txHash: `0x${string}`, payer: string, amount: bigint) => Promise<PaymentVerification>
+  ) {}
+
+  async verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    const result = await verifyTransferAuthorization(payload, requirements);
+    if (!result.isValid) {
+      return result;
+    }
+
+    const { from, nonce } = payload.payload.authorization;
+    const used = await this.clients.publicClient.readContract({
+      address: requirements.asset,
+      abi: USDC_AUTHORIZATION_ABI,
+      functionName: 'authorizationState',
+      args: [from, nonce]
+    });
+
+    if (used) {
+      return { isValid: false, invalidReason: 'authorization_already_used', payer: from };
+    }
+
+    return result;
+  }
+
+  async settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+    const verification = await this.verify(payload, requirements);
+    if (!verification.isValid) {
+      return { success: false, errorReason: verification.invalidReason, network: requirements.network };
+    }
+
+    const { authorization, signature } = payload.payload;
+    const { publicClient, walletClient, account } = this.clients;
+
+    let hash: `0x${string}`;
+    try {
+      const { r, s, v, yParity } = parseSignature(signature);
+
+      // Simulate first so a bad or raced authorization costs no gas
+      const { request } = await publicClient.simulateContract({
+        account,
+        address: requirements.asset,
+        abi: USDC_AUTHORIZATION_ABI,
+        functionName: 'transferWithAuthorization',
+        args: [
+          authorization.from,
+          authorization.to,
+          BigInt(authorization.value),
+          BigInt(authorization.validAfter),
+          BigInt(authorization.validBefore),
+          authorization.nonce,
+          Number(v ?? BigInt(yParity + 27)),
+          r,
+          s
+        ]
+      });
+
+      hash = await walletClient.writeContract(request);
+    } catch (error) {
+      console.error('❌ Relay settlement failed:', error);
+      return {
+        success: false,
+        errorReason: error instanceof Error ? error.message : 'settlement_failed',
+        network: requirements.network
+      };
+    }
+    console.log(`⛽ Relayed transferWithAuthorization for ${authorization.from}: ${hash}`);
+
+    // The transfer may have happened from here on: only a revert proves it did not
+    const unconfirmed = (errorReason: string): SettleResponse => ({
+      success: false,
+      pending: true,
+      errorReason,
+      transaction: hash,
+      network: requirements.network,
+      payer: authorization.from
+    });
+
+    try {
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        return { success: false, errorReason: 'settlement_reverted', transaction: hash, network: requirements.network };
+      }
+
+      const settled = await this.verifySettlement(hash, authorization.from, BigInt(requirements.maxAmountRequired));
+      if (!settled.valid) {
+        console.error(`⚠️ Relayed settlement ${hash} did not verify: ${settled.error}`);
+        return unconfirmed(settled.error || 'settlement_unverified');
+      }
+    } catch (error) {
+      console.error(`⚠️ Could not confirm relayed settlement ${hash}:`, error);
+      return unconfirmed('settlement_unconfirmed');
+    }
+
+    return {
+      success: true,
+      transaction: hash,
+      network: requirements.network,
+      payer: authorization.from
+    };
+  }
+}
+
+/**
+ * Select facilitator from X402_FACILITATOR ("local", "relay" or a facilitator URL).
+ * Defaults to the admin-wallet relay when ADMIN_PRIVATE_KEY is set and the
+ * public facilitator otherwise. The local stand-in accepts payments that never
+ * reach a chain, so it must be asked for and is refused next to a real chain.
+ */
+export function createFacilitator(
+  getClients: () => AdminClients,
+  verifySettlement?: (txHash: `0x${string}`, payer: string, amount: bigint) => Promise<PaymentVerification>
+): Facilitator {
+  const setting = process.env.X402_FACILITATOR
+    || (process.env.ADMIN_PRIVATE_KEY ? 'relay' : 'https://x402.org/facilitator');
+
+  if (setting === 'local') {
+    const realChain = [
+      process.env.NODE_ENV === 'production' && 'NODE_ENV=production',
+      process.env.ADMIN_PRIVATE_KEY && 'ADMIN_PRIVATE_KEY',
+      process.env.PRIZE_POOL_ADDRESS && !/^0x0{40}$/.test(process.env.PRIZE_POOL_ADDRESS) && 'PRIZE_POOL_ADDRESS'
+    ].filter(Boolean);
+    if (realChain.length > 0) {
+      throw new Error(`X402_FACILITATOR=local settles nothing on-chain and cannot run with ${realChain.join(', ')}`);
+    }
+    return new LocalFacilitator();
+  }
+
+  if (setting === 'relay') {
+    if (!verifySettlement) {
+      throw new Error('Relay facilitator needs the payment service to verify settlements');
+    }
+    return new RelayFacilitator(getClients(), verifySettlement);
+  }
+
+  return new HttpFacilitator(setting);
+}
@@ -1,6 +1,16 @@
-import { createPublicClient, createWalletClient, http, parseUnits, formatUnits } from 'viem';
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  parseUnits,
+  formatUnits,
+  decodeEventLog,
+  isAddressEqual,
+  zeroAddress
+} from 'viem';
 import { base, baseSepolia } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
+import type { PaymentRequirements } from './x402-facilitator';
 
 // USDC addresses
 const USDC_ADDRESSES = {
@@ -8,33 +18,69 @@ const USDC_ADDRESSES = {
   baseSepolia: '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
 } as const;
 
+// EIP-712 domain of USDC (needed to sign transferWithAuthorization)
+const USDC_EIP712_DOMAINS = {
+  base: { name: 'USD Coin', version: '2' },
+  baseSepolia: { name: 'USDC', version: '2' }
+} as const;
+
 // AsterPay wallet for receiving entry fees (same as frontend)
 const ASTERPAY_WALLET = '0x3a649f923c7e74E5c22e766F8E0fA2CF7e627e71';
 
-// Entry fee: $0.05 = 50000 (6 decimals)
-const ENTRY_FEE = BigInt(50000);
+const TRANSFER_EVENT_ABI = [{
+  name: 'Transfer',
+  type: 'event',
+  inputs: [
+    { name: 'from', type: 'address', indexed: true },
+    { name: 'to', type: 'address', indexed: true },
+    { name: 'value', type: 'uint256', indexed: false }
+  ]
+}] as const;
+
+// How long a payment intent stays valid
+const PAYMENT_INTENT_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+export type PaymentIntentStatus = 'pending' | 'paid' | 'expired';
 
 export interface PaymentIntent {
   id: string;
   amount: string;
   recipientAddress: string;
   chainId: number;
-  status: 'pending' | 'paid' | 'expired';
+  status: PaymentIntentStatus;
   createdAt: number;
   expiresAt: number;
-  metadata?: {
+  metadata: {
     gameId: number;
     playerAddress: string;
   };
+  paidTxHash?: string;
+  paidAt?: number;
+  entryId?: number;
 }
 
+/**
+ * Result of verifying an entry fee transfer.
+ * On success, describes the decoded USDC Transfer log that paid the fee.
+ */
 export interface PaymentVerification {
   valid: boolean;
   txHash?: string;
+  logIndex?: number;
+  from?: `0x${string}`;
+  to?: `0x${string}`;
   amount?: bigint;
+  blockNumber?: bigint;
   error?: string;
 }
 
+interface DecodedTransfer {
+  logIndex: number;
+  from: `0x${string}`;
+  to: `0x${string}`;
+  amount: bigint;
+}
+
 export class X402PaymentService {
   private chain: typeof base | typeof baseSepolia;
   private usdcAddress: `0x${string}`;
@@ -56,49 +102,77 @@ export class X402PaymentService {
   }
 
   /**
-   * Create a payment intent for game entry
+   * Create a payment intent for game entry (amount: the game's entry fee in base units)
    */
-  createPaymentIntent(gameId: number, playerAddress: string): PaymentIntent {
+  createPaymentIntent(gameId: number, playerAddress: string, amount: bigint): PaymentIntent {
     const id = `pi_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
     
     return {
       id,
-      amount: formatUnits(ENTRY_FEE, 6), // $0.05
-      recipientAddress: this.prizePoolAddress,
+      amount: formatUnits(amount, 6),
+      recipientAddress: this.getAcceptedRecipients().at(-1)!,
       chainId: this.chain.id,
       status: 'pending',
       createdAt: Date.now(),
-      expiresAt: Date.now() + 15 * 60 * 1000, // 15 minutes
+      expiresAt: Date.now() + PAYMENT_INTENT_TTL_MS,
       metadata: {
         gameId,
-        playerAddress
+        playerAddress: playerAddress.toLowerCase()
       }
     };
   }
 
   /**
-   * Generate x402 response headers
+   * Effective status of an intent (pending intents past expiresAt are expired)
    */
-  generateX402Headers(paymentIntent: PaymentIntent): Record<string, string> {
+  getIntentStatus(paymentIntent: PaymentIntent, now: number = Date.now()): PaymentIntentStatus {
+    if (paymentIntent.status === 'pending' && now > paymentIntent.expiresAt) {
+      return 'expired';
+    }
+    return paymentIntent.status;
+  }
+
+  /**
+   * Machine-readable payment requirements for an HTTP 402 response
+   */
+  buildPaymentRequirements(
+    resource: string,
+    description: string,
+    amount: bigint
+  ): PaymentRequirements {
+    const isTestnet = this.chain.id === baseSepolia.id;
+
     return {
-      'X-Payment-Required': 'true',
-      'X-Payment-Amount': paymentIntent.amount,
-      'X-Payment-Currency': 'USDC',
-      'X-Payment-Chain': this.chain.name,
-      'X-Payment-Chain-Id': this.chain.id.toString(),
-      'X-Payment-Recipient': paymentIntent.recipientAddress,
-      'X-Payment-Token': this.usdcAddress,
-      'X-Payment-Intent-Id': paymentIntent.id,
-      'X-Payment-Expires': paymentIntent.expiresAt.toString()
+      scheme: 'exact',
+      network: isTestnet ? 'base-sepolia' : 'base',
+      maxAmountRequired: amount.toString(),
+      resource,
+      description,
+      mimeType: 'application/json',
+      payTo: this.getAcceptedRecipients().at(-1)!,
+      maxTimeoutSeconds: 60,
+      asset: this.usdcAddress,
+      extra: isTestnet ? USDC_EIP712_DOMAINS.baseSepolia : USDC_EIP712_DOMAINS.base
     };
   }
 
+  /**
+   * Addresses that may receive entry fees
+   * (prize pool last, so it is preferred for new intents when deployed)
+   */
+  getAcceptedRecipients(): `0x${string}`[] {
+    const recipients: `0x${string}`[] = [ASTERPAY_WALLET, this.prizePoolAddress];
+    return recipients.filter(address => !isAddressEqual(address, zeroAddress));
+  }
+
   /**
    * Verify payment on-chain
+   * The fee must be a USDC transfer from `payer` to an accepted recipient.
    */
   async verifyPayment(
     txHash: `0x${string}`,
-    expectedAmount: bigint = ENTRY_FEE
+    payer: string,
+    expectedAmount: bigint
   ): Promise<PaymentVerification> {
     try {
       const receipt = await this.publicClient.getTransactionReceipt({
@@ -109,35 +183,39 @@ export class X402PaymentService {
         return { valid: false, error: 'Transaction failed' };
       }
 
-      // Check for USDC Transfer event to AsterPay wallet
-      const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
-      
-      // Accept transfers to either AsterPay wallet or prize pool
-      const transferLog = receipt.logs.find((log: any) => 
-        log.address.toLowerCase() === this.usdcAddress.toLowerCase() &&
-        log.topics[0] === transferTopic &&
-        (log.topics[2]?.toLowerCase().includes(ASTERPAY_WALLET.slice(2).toLowerCase()) ||
-         log.topics[2]?.toLowerCase().includes(this.prizePoolAddress.slice(2).toLowerCase()))
+      const recipients = this.getAcceptedRecipients();
+
+      // USDC transfers to AsterPay wallet or prize pool
+      const transfers = this.decodeUsdcTransfers(receipt.logs).filter(t =>
+        recipients.some(r => isAddressEqual(r, t.to))
       );
 
-      if (!transferLog) {
+      if (transfers.length === 0) {
         return { valid: false, error: 'No transfer to AsterPay wallet found' };
       }
 
-      // Decode amount from log data
-      const amount = BigInt(transferLog.data);
-      
-      if (amount < expectedAmount) {
-        return { 
-          valid: false, 
-          error: `Insufficient amount: ${formatUnits(amount, 6)} < ${formatUnits(expectedAmount, 6)}`
+      const fromPayer = transfers.filter(t => isAddressEqual(t.from, payer as `0x${string}`));
+      if (fromPayer.length === 0) {
+        return { valid: false, error: 'Payment was not sent from the submitting wallet' };
+      }
+
+      const transfer = fromPayer.find(t => t.amount >= expectedAmount);
+      if (!transfer) {
+        const best = fromPayer.reduce((max, t) => (t.amount > max ? t.amount : max), BigInt(0));
+        return {
+          valid: false,
+          error: `Insufficient amount: ${formatUnits(best, 6)} < ${formatUnits(expectedAmount, 6)}`
         };
       }
 
       return {
         valid: true,
         txHash,
-        amount
+        logIndex: transfer.logIndex,
+        from: transfer.from,
+        to: transfer.to,
+        amount: transfer.amount,
+        blockNumber: receipt.blockNumber
       };
     } catch (error) {
       return {
@@ -147,6 +225,37 @@ export class X402PaymentService {
     }
   }
 
+  /**
+   * Decode USDC Transfer logs from a receipt
+   */
+  private decodeUsdcTransfers(logs: any[]): DecodedTransfer[] {
+    const transfers: DecodedTransfer[] = [];
+
+    for (const log of logs) {
+      if (!isAddressEqual(log.address, this.usdcAddress)) continue;
+
+      try {
+        const { eventName, args } = decodeEventLog({
+          abi: TRANSFER_EVENT_ABI,
+          data: log.data,
+          topics: log.topics
+        });
+        if (eventName !== 'Transfer') continue;
+
+        transfers.push({
+          logIndex: Number(log.logIndex),
+          from: args.from,
+          to: args.to,
+          amount: args.value
+        });
+      } catch {
+        // Not a Transfer event (e.g. Approval)
+      }
+    }
+
+    return transfers;
+  }
+
   /**
    * Get USDC balance for an address
    */
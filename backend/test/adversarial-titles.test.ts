@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { AIJudgeService, JUDGING_MODES, type ArtSubmission } from '../src/services/ai-judge';
+import type { ImageSource } from '../src/services/judge-images';
+import { MockJudgeProvider, type JudgeRequest } from '../src/services/judge-providers';
+import { detectInjection, sanitizeUntrustedText } from '../src/services/untrusted-text';
+
+// Titles that try to steer the judge; none of them may move an entry
+const ADVERSARIAL_TITLES: string[] = JSON.parse(
+  readFileSync(path.join(__dirname, 'fixtures', 'adversarial-titles.json'), 'utf8')
+);
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Serves a distinct tiny PNG per URL, so the mock judge scores each image differently
+const images: ImageSource = {
+  name: 'test',
+  async read(url: string): Promise<Buffer> {
+    return Buffer.concat([PNG_SIGNATURE, Buffer.from(url)]);
+  }
+};
+
+function submissions(count: number, title: (i: number) => string): ArtSubmission[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: String(i + 1),
+    imageUrl: `https://images.example/art-${i + 1}.png`,
+    title: title(i),
+    playerAddress: `0x${(i + 1).toString(16).padStart(40, '0')}`,
+    timestamp: 1_700_000_000_000 + i
+  }));
+}
+
+// Mock judge that keeps every request, so the tests can read the prompts it was sent
+class RecordingJudgeProvider extends MockJudgeProvider {
+  readonly requests: JudgeRequest[] = [];
+
+  override async complete(request: JudgeRequest): Promise<string> {
+    this.requests.push(request);
+    return super.complete(request);
+  }
+}
+
+async function rank(entries: ArtSubmission[], mode: typeof JUDGING_MODES[number]) {
+  const provider = new RecordingJudgeProvider();
+  const judge = new AIJudgeService(provider, images);
+  const result = await judge.judgeSubmissions(entries, { mode });
+  assert.ok(result.success, 'mock judging failed');
+  return { ...result, requests: provider.requests };
+}
+
+// Each submission's header, with the title fenced on a single line
+const SUBMISSION_HEADER = /^## Submission (\d+)\n- ID: (\d+)\n- Title: <entry_title>([^<>\n]*)<\/entry_title>$/;
+
+describe('adversarial titles', () => {
+  it('are all flagged by the injection detector', () => {
+    for (const title of ADVERSARIAL_TITLES) {
+      assert.notDeepEqual(detectInjection(title), [], `not flagged: ${JSON.stringify(title)}`);
+    }
+  });
+
+  it('stay inside their fence in the prompt', async () => {
+    const entries = submissions(ADVERSARIAL_TITLES.length, i => ADVERSARIAL_TITLES[i]);
+    const { requests } = await rank(entries, 'scores');
+    assert.ok(requests.length > 0);
+
+    for (const request of requests) {
+      const texts = request.parts.flatMap(part => (part.type === 'text' ? [part.text] : []));
+      const headers = texts.filter(text => text.startsWith('## Submission'));
+      assert.equal(headers.length, request.submissions.length);
+
+      for (const [i, header] of headers.entries()) {
+        const match = SUBMISSION_HEADER.exec(header);
+        assert.ok(match, `title escaped its fence: ${JSON.stringify(header)}`);
+        const [, position, id, fenced] = match;
+        assert.equal(Number(position), i + 1);
+        assert.equal(id, request.submissions[i].id);
+        assert.equal(fenced, sanitizeUntrustedText(entries[Number(id) - 1].title));
+      }
+
+      // Titles cannot open or close fences, start a heading or speak as a role anywhere in the prompt
+      const prompt = texts.join('\n');
+      assert.equal(prompt.match(/<entry_title>/g)?.length, request.submissions.length);
+      assert.equal(prompt.match(/<\/entry_title>/g)?.length, request.submissions.length);
+      assert.equal(prompt.match(/^## Submission/gm)?.length, request.submissions.length);
+      assert.doesNotMatch(prompt, /^\s*(system|assistant|user)\s*:/im);
+    }
+  });
+
+  for (const mode of JUDGING_MODES) {
+    it(`do not change the ranking in ${mode} mode`, async () => {
+      // Enough entries for heats to need more than one round
+      const count = ADVERSARIAL_TITLES.length + 5;
+      const benign = await rank(submissions(count, i => `Artwork ${i + 1}`), mode);
+      const adversarial = await rank(
+        submissions(count, i => ADVERSARIAL_TITLES[i % ADVERSARIAL_TITLES.length]),
+        mode
+      );
+
+      assert.deepEqual(adversarial.ranking, benign.ranking);
+      assert.deepEqual(adversarial.scores, benign.scores);
+      assert.equal(adversarial.winnerId, benign.winnerId);
+      assert.equal(Object.keys(adversarial.flags).length, count);
+      assert.deepEqual(benign.flags, {});
+    });
+  }
+});
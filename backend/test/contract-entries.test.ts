@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import type { Address } from 'viem';
+import type { PrizePoolContract, PrizePoolEntry, PrizePoolGame } from '../src/contracts/prize-pool';
+import { syncContractEntries } from '../src/services/contract-entries';
+import { InMemoryGameRepository } from '../src/services/memory-repository';
+
+const PLAYERS: Address[] = [
+  '0x1111111111111111111111111111111111111111',
+  '0x2222222222222222222222222222222222222222'
+];
+
+// PrizePool stand-in holding one started game (#1) with an entry per player
+function prizePool(endTime: number) {
+  const entries: PrizePoolEntry[] = PLAYERS.map((player, i) => ({
+    player,
+    imageUri: `https://images.example/art-${i + 1}.png`,
+    timestamp: BigInt(1_700_000_000 + i),
+    score: BigInt(0)
+  }));
+  const game: PrizePoolGame = {
+    prizePool: BigInt(100_000),
+    entryCount: BigInt(entries.length),
+    startTime: BigInt(1_700_000_000),
+    endTime: BigInt(Math.floor(endTime / 1000)),
+    winner: '0x0000000000000000000000000000000000000000',
+    finalized: false
+  };
+  const contract = {
+    address: '0x9999999999999999999999999999999999999999',
+    async currentGameId() { return BigInt(1); },
+    async entryFee() { return BigInt(50_000); },
+    async getGame(gameId: bigint) {
+      return gameId === BigInt(1) ? game : { ...game, startTime: BigInt(0), entryCount: BigInt(0) };
+    },
+    async getGameEntries(gameId: bigint) { return gameId === BigInt(1) ? entries : []; },
+    async getEntrySubmissions(gameId: bigint, fromBlock: bigint, player?: Address) {
+      return entries
+        .map((e, i) => ({
+          gameId,
+          player: e.player,
+          imageUri: e.imageUri,
+          transactionHash: `0x${(i + 1).toString(16).padStart(64, '0')}` as const,
+          logIndex: 0,
+          blockNumber: BigInt(10 + i)
+        }))
+        .filter(s => !player || s.player === player);
+    }
+  };
+  return contract as unknown as PrizePoolContract;
+}
+
+describe('contract entry mirroring', () => {
+  let repo: InMemoryGameRepository;
+
+  beforeEach(async () => {
+    repo = new InMemoryGameRepository();
+    await repo.init();
+  });
+
+  it('counts on-chain entries into the prize pool and starts the game', async () => {
+    const endTime = Date.now() + 60_000;
+    const mirrored = await syncContractEntries(repo, prizePool(endTime), 1, BigInt(0));
+
+    assert.deepEqual(mirrored.map(e => e.playerAddress), PLAYERS);
+    const game = (await repo.findGame(1))!;
+    assert.equal(game.entryCount, 2);
+    assert.equal(Number(game.prizePool), 0.1);
+    assert.equal(game.started, true);
+    assert.ok(Math.abs(game.endTime - endTime) < 1000, `end time ${game.endTime}, expected ${endTime}`);
+  });
+
+  it('does not count an entry twice', async () => {
+    const contract = prizePool(Date.now() + 60_000);
+    await syncContractEntries(repo, contract, 1, BigInt(0));
+    await syncContractEntries(repo, contract, 1, BigInt(0));
+
+    const game = (await repo.findGame(1))!;
+    assert.equal(game.entryCount, 2);
+    assert.equal(Number(game.prizePool), 0.1);
+  });
+
+  it('refuses a database game the contract does not have', async () => {
+    await assert.rejects(
+      syncContractEntries(repo, prizePool(Date.now()), 2, BigInt(0)),
+      /game IDs are out of step/
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { EntryRejectedError, PaymentAlreadyConsumedError, type PaymentRef } from '../src/services/game-repository';
+import { InMemoryGameRepository } from '../src/services/memory-repository';
+
+const PLAYERS = [
+  '0x1111111111111111111111111111111111111111',
+  '0x2222222222222222222222222222222222222222',
+  '0x3333333333333333333333333333333333333333'
+];
+
+function payment(n: number): PaymentRef {
+  return { txHash: `0x${n.toString(16).padStart(64, '0')}`, logIndex: 0, amount: '0.05' };
+}
+
+function rejected(reason: EntryRejectedError['reason']) {
+  return (error: unknown) => error instanceof EntryRejectedError && error.reason === reason;
+}
+
+describe('entry limits', () => {
+  let repo: InMemoryGameRepository;
+  let gameId: number;
+
+  beforeEach(async () => {
+    repo = new InMemoryGameRepository();
+    gameId = await repo.getLatestGameId();
+    const game = await repo.getOrCreateGame(gameId);
+    await repo.updateGameSettings(gameId, { config: { ...game.config, maxEntries: 2 } });
+  });
+
+  it('admit one of two concurrent entries for the last slot', async () => {
+    await repo.addEntry(gameId, 'https://images.example/1.png', 'One', PLAYERS[0], payment(1));
+
+    const results = await Promise.allSettled([
+      repo.addEntry(gameId, 'https://images.example/2.png', 'Two', PLAYERS[1], payment(2)),
+      repo.addEntry(gameId, 'https://images.example/3.png', 'Three', PLAYERS[2], payment(3))
+    ]);
+
+    assert.deepEqual(results.map(r => r.status).sort(), ['fulfilled', 'rejected']);
+    assert.ok(rejected('full')(results.find(r => r.status === 'rejected')!.reason));
+    const game = (await repo.findGame(gameId))!;
+    assert.equal(game.entryCount, 2);
+    assert.equal(Number(game.prizePool), 2 * Number(game.config.entryFee));
+  });
+
+  it('admit one of two concurrent entries from the same wallet', async () => {
+    const results = await Promise.allSettled([
+      repo.addEntry(gameId, 'https://images.example/1.png', 'One', PLAYERS[0], payment(1)),
+      repo.addEntry(gameId, 'https://images.example/2.png', 'Two', PLAYERS[0], payment(2))
+    ]);
+
+    assert.deepEqual(results.map(r => r.status).sort(), ['fulfilled', 'rejected']);
+    assert.ok(rejected('already-entered')(results.find(r => r.status === 'rejected')!.reason));
+    assert.equal((await repo.findGame(gameId))!.entryCount, 1);
+  });
+
+  it('keep a held slot for the player who holds it', async () => {
+    await repo.addEntry(gameId, 'https://images.example/1.png', 'One', PLAYERS[0], payment(1));
+    await repo.reserveEntry(gameId, PLAYERS[1], 60_000);
+
+    await assert.rejects(repo.reserveEntry(gameId, PLAYERS[2], 60_000), rejected('full'));
+    await assert.rejects(
+      repo.addEntry(gameId, 'https://images.example/3.png', 'Three', PLAYERS[2], payment(3)),
+      rejected('full')
+    );
+    await repo.addEntry(gameId, 'https://images.example/2.png', 'Two', PLAYERS[1], payment(2));
+    assert.equal((await repo.findGame(gameId))!.entryCount, 2);
+  });
+
+  it('hold one slot per wallet until it is released or expires', async () => {
+    await repo.reserveEntry(gameId, PLAYERS[0], 60_000);
+    await assert.rejects(repo.reserveEntry(gameId, PLAYERS[0], 60_000), rejected('pending'));
+
+    await repo.releaseEntryReservation(gameId, PLAYERS[0]);
+    await repo.reserveEntry(gameId, PLAYERS[0], -1);
+    await repo.reserveEntry(gameId, PLAYERS[1], 60_000);
+    await repo.reserveEntry(gameId, PLAYERS[2], 60_000);
+  });
+
+  it('check the entry rules before the payment', async () => {
+    await repo.addEntry(gameId, 'https://images.example/1.png', 'One', PLAYERS[0], payment(1));
+
+    await assert.rejects(
+      repo.addEntry(gameId, 'https://images.example/2.png', 'Two', PLAYERS[0], payment(1)),
+      rejected('already-entered')
+    );
+    await assert.rejects(
+      repo.addEntry(gameId, 'https://images.example/2.png', 'Two', PLAYERS[1], payment(1)),
+      error => error instanceof PaymentAlreadyConsumedError
+    );
+  });
+
+  it('turn entries away from a finalized game', async () => {
+    const { id } = await repo.addEntry(gameId, 'https://images.example/1.png', 'One', PLAYERS[0], payment(1));
+    const [winner] = (await repo.getAllEntriesForGame(gameId)).filter(e => e.id === id);
+    await repo.finalizeGame(gameId, winner);
+
+    await assert.rejects(repo.reserveEntry(gameId, PLAYERS[1], 60_000), rejected('finalized'));
+    await assert.rejects(
+      repo.addEntry(gameId, 'https://images.example/2.png', 'Two', PLAYERS[1], payment(2)),
+      rejected('finalized')
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { LEGACY_GAME_CONFIG, loadDefaultGameConfig } from '../src/services/game-config';
+
+const GAME_ENV = ['GAME_ENTRY_FEE', 'GAME_PLATFORM_FEE_BPS', 'GAME_DURATION_MS', 'GAME_MAX_ENTRIES'];
+const saved = Object.fromEntries(GAME_ENV.map(name => [name, process.env[name]]));
+
+function withEnv(env: Record<string, string>) {
+  for (const name of GAME_ENV) {
+    delete process.env[name];
+  }
+  Object.assign(process.env, env);
+}
+
+describe('default game config', () => {
+  afterEach(() => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it('falls back to the legacy terms', () => {
+    withEnv({});
+    assert.deepEqual(loadDefaultGameConfig(), LEGACY_GAME_CONFIG);
+  });
+
+  it('reads the environment', () => {
+    withEnv({ GAME_ENTRY_FEE: '1.25', GAME_PLATFORM_FEE_BPS: '500', GAME_DURATION_MS: '600000', GAME_MAX_ENTRIES: '10' });
+    assert.deepEqual(loadDefaultGameConfig(), {
+      entryFee: '1.25',
+      currency: 'USDC',
+      platformFeeBps: 500,
+      durationMs: 600000,
+      maxEntries: 10
+    });
+  });
+
+  it('refuses invalid values, naming the variable', () => {
+    const invalid: Array<[Record<string, string>, RegExp]> = [
+      [{ GAME_ENTRY_FEE: '0' }, /GAME_ENTRY_FEE=0: Entry fee must be positive/],
+      [{ GAME_ENTRY_FEE: '-1' }, /GAME_ENTRY_FEE=-1/],
+      [{ GAME_ENTRY_FEE: '0.0000001' }, /GAME_ENTRY_FEE/],
+      [{ GAME_PLATFORM_FEE_BPS: '10001' }, /GAME_PLATFORM_FEE_BPS=10001/],
+      [{ GAME_PLATFORM_FEE_BPS: '-5' }, /GAME_PLATFORM_FEE_BPS=-5/],
+      [{ GAME_DURATION_MS: '1h' }, /GAME_DURATION_MS=1h: Expected an integer/],
+      [{ GAME_DURATION_MS: '0' }, /GAME_DURATION_MS=0/],
+      [{ GAME_MAX_ENTRIES: '0' }, /GAME_MAX_ENTRIES=0/],
+      [{ GAME_MAX_ENTRIES: '2.5' }, /GAME_MAX_ENTRIES=2.5/]
+    ];
+    for (const [env, error] of invalid) {
+      withEnv(env);
+      assert.throws(() => loadDefaultGameConfig(), error);
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AIJudgeService, type ArtSubmission } from '../src/services/ai-judge';
+import { MAX_BATCH_BYTES, MAX_IMAGE_BYTES, type ImageSource } from '../src/services/judge-images';
+import { MockJudgeProvider } from '../src/services/judge-providers';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Distinct PNGs of the given size, one per URL
+function images(bytes: number): ImageSource {
+  return {
+    name: 'test',
+    async read(url: string): Promise<Buffer> {
+      const image = Buffer.alloc(bytes);
+      PNG_SIGNATURE.copy(image);
+      image.write(url, PNG_SIGNATURE.length);
+      return image;
+    }
+  };
+}
+
+function submissions(count: number): ArtSubmission[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: String(i + 1),
+    imageUrl: `https://images.example/art-${i + 1}.png`,
+    title: `Artwork ${i + 1}`,
+    playerAddress: `0x${(i + 1).toString(16).padStart(40, '0')}`,
+    timestamp: 1_700_000_000_000 + i
+  }));
+}
+
+describe('heats', () => {
+  it('judge the final in a single request when images fill batches before heats do', async () => {
+    // Four of the largest images fit a batch, fewer than HEAT_SIZE
+    const judge = new AIJudgeService(new MockJudgeProvider(), images(MAX_IMAGE_BYTES));
+    const result = await judge.judgeSubmissions(submissions(9), { mode: 'heats' });
+    assert.ok(result.success, 'judging failed');
+    assert.ok(result.invocations.every(i => i.submissionIds.length <= MAX_BATCH_BYTES / MAX_IMAGE_BYTES));
+
+    const final = result.invocations[result.invocations.length - 1];
+    const finalists = result.ranking.slice(0, final.submissionIds.length);
+    assert.deepEqual([...final.submissionIds].sort(), [...finalists].sort());
+    assert.equal(result.ranking.length, 9);
+    for (const id of result.ranking.slice(finalists.length)) {
+      assert.ok(result.standing[id][0] < result.standing[finalists[0]][0], `${id} should have gone out in a heat`);
+    }
+  });
+});
+
+describe('cost estimate', () => {
+  const judge = new AIJudgeService(new MockJudgeProvider(), images(100));
+
+  it('counts one request for a lone submission in every mode', () => {
+    assert.ok(judge.estimateCost(1, 'swiss') > 0);
+    assert.equal(judge.estimateCost(1, 'swiss'), judge.estimateCost(1, 'scores'));
+    assert.equal(judge.estimateCost(1, 'heats'), judge.estimateCost(1, 'scores'));
+  });
+
+  it('counts a field that fits one heat as a single final', () => {
+    assert.equal(judge.estimateCost(8, 'heats'), judge.estimateCost(8, 'scores'));
+    assert.ok(judge.estimateCost(9, 'heats') > judge.estimateCost(9, 'scores'));
+  });
+});
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { withLock } from '../src/services/locks';
+import { InMemoryGameRepository } from '../src/services/memory-repository';
+
+describe('withLock', () => {
+  it('does not let two calls from one process hold the same lock at once', async () => {
+    const repo = new InMemoryGameRepository();
+    let running = 0;
+    let mostRunning = 0;
+    let release!: () => void;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+
+    const critical = async (wait?: Promise<void>) => {
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await wait;
+      running--;
+      return 'done';
+    };
+
+    const first = withLock(repo, 'game:1', 60_000, () => critical(blocked));
+    const second = await withLock(repo, 'game:1', 60_000, () => critical());
+    assert.equal(second.acquired, false);
+
+    release();
+    assert.deepEqual(await first, { acquired: true, result: 'done' });
+
+    // Released by the call that held it, so the next call runs
+    assert.deepEqual(await withLock(repo, 'game:1', 60_000, () => critical()), { acquired: true, result: 'done' });
+    assert.equal(mostRunning, 1);
+    assert.deepEqual(await repo.listLocks(), []);
+  });
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import type { AdminClients } from '../src/services/game-automation';
+import { LEGACY_GAME_CONFIG } from '../src/services/game-config';
+import { InMemoryGameRepository } from '../src/services/memory-repository';
+import {
+  createPayoutSender,
+  LocalPayoutSender,
+  MAX_PAYOUT_ATTEMPTS,
+  PayoutService,
+  type SignedPayout
+} from '../src/services/payouts';
+
+const WINNER = '0x1111111111111111111111111111111111111111';
+const PLATFORM = '0x2222222222222222222222222222222222222222';
+const USDC = '0x3333333333333333333333333333333333333333';
+
+// Dry-run sender whose broadcasts fail, either before or after the transfer lands
+class FlakySender extends LocalPayoutSender {
+  signed = 0;
+  failures = 0;
+  landsBeforeFailing = false;
+
+  override async sign(to: `0x${string}`, amount: bigint): Promise<SignedPayout> {
+    this.signed++;
+    return super.sign(to, amount);
+  }
+
+  override async broadcast(payout: SignedPayout): Promise<void> {
+    if (this.landsBeforeFailing) {
+      await super.broadcast(payout);
+    }
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('socket hang up');
+    }
+    await super.broadcast(payout);
+  }
+}
+
+describe('payouts', () => {
+  let repo: InMemoryGameRepository;
+  let sender: FlakySender;
+  let service: PayoutService;
+  let gameId: number;
+
+  beforeEach(async () => {
+    repo = new InMemoryGameRepository();
+    sender = new FlakySender();
+    service = new PayoutService(repo, sender, PLATFORM);
+    gameId = await repo.getLatestGameId();
+  });
+
+  it('broadcast the signed transfer again after a broadcast that failed once it landed', async () => {
+    sender.failures = 2;
+    sender.landsBeforeFailing = true;
+
+    const [winner] = await service.payGame(gameId, WINNER, '1', LEGACY_GAME_CONFIG);
+    assert.equal(winner.status, 'sending');
+    assert.ok(winner.txHash && winner.signedTx);
+
+    const retried = await service.retryPayouts(gameId);
+    assert.deepEqual(retried.map(p => p.status), ['confirmed', 'confirmed']);
+    assert.equal(retried.find(p => p.kind === 'winner')!.txHash, winner.txHash);
+    assert.equal(sender.signed, 2, 'one transfer per payout');
+  });
+
+  it('broadcast a transfer signed before a crash instead of signing another', async () => {
+    sender.failures = 1;
+
+    const [winner] = await service.payGame(gameId, WINNER, '1', LEGACY_GAME_CONFIG);
+    assert.equal(winner.status, 'sending');
+
+    // A new service, as after a restart
+    const [resumed] = await new PayoutService(repo, sender, PLATFORM).retryPayouts(gameId);
+    assert.equal(resumed.status, 'confirmed');
+    assert.equal(resumed.txHash, winner.txHash);
+    assert.equal(sender.signed, 2);
+  });
+
+  it('flag a transfer that never broadcasts rather than signing a new one', async () => {
+    sender.failures = Infinity;
+
+    await service.payGame(gameId, WINNER, '1', LEGACY_GAME_CONFIG);
+    for (let i = 1; i < MAX_PAYOUT_ATTEMPTS; i++) {
+      await service.retryPayouts(gameId);
+    }
+
+    const payouts = await repo.getPayoutsForGame(gameId);
+    assert.deepEqual(payouts.map(p => p.status), ['flagged', 'flagged']);
+    assert.equal(sender.signed, 2);
+  });
+});
+
+describe('payout sender selection', () => {
+  const ENV = ['NODE_ENV', 'PAYOUT_MODE', 'ADMIN_PRIVATE_KEY'];
+  const saved = Object.fromEntries(ENV.map(name => [name, process.env[name]]));
+  const clients = () => ({ account: { type: 'local' } }) as unknown as AdminClients;
+
+  function withEnv(env: Record<string, string>) {
+    for (const name of ENV) {
+      delete process.env[name];
+    }
+    Object.assign(process.env, env);
+  }
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it('defaults to a dry run outside production', () => {
+    withEnv({});
+    assert.equal(createPayoutSender(clients, USDC).name, 'dry-run');
+  });
+
+  it('requires production to choose a mode and live payouts to have a key', () => {
+    withEnv({ NODE_ENV: 'production', ADMIN_PRIVATE_KEY: '0x01' });
+    assert.throws(() => createPayoutSender(clients, USDC), /PAYOUT_MODE must be set/);
+
+    withEnv({ NODE_ENV: 'production', PAYOUT_MODE: 'live' });
+    assert.throws(() => createPayoutSender(clients, USDC), /ADMIN_PRIVATE_KEY/);
+
+    withEnv({ NODE_ENV: 'production', PAYOUT_MODE: 'dry-run' });
+    assert.equal(createPayoutSender(clients, USDC).name, 'dry-run');
+
+    withEnv({ NODE_ENV: 'production', PAYOUT_MODE: 'live', ADMIN_PRIVATE_KEY: '0x01' });
+    assert.equal(createPayoutSender(clients, USDC).name, 'chain');
+  });
+});
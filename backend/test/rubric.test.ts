@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AIJudgeService, parseJudgeResponse, type ArtSubmission } from '../src/services/ai-judge';
+import type { ImageSource } from '../src/services/judge-images';
+import { MockJudgeProvider } from '../src/services/judge-providers';
+import { MAX_CRITERIA, MAX_TOTAL_SCORE, RubricSchema, weightedTotal, type Rubric } from '../src/services/rubric';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const images: ImageSource = {
+  name: 'test',
+  async read(url: string): Promise<Buffer> {
+    return Buffer.concat([PNG_SIGNATURE, Buffer.from(url)]);
+  }
+};
+
+const PHOTO_RUBRIC: Rubric = {
+  criteria: [
+    { key: 'composition', name: 'Composition', weight: 3, description: 'Framing and balance' },
+    { key: 'lighting', name: 'Lighting', weight: 1, description: 'Use of light and shadow' }
+  ]
+};
+
+function criterion(key: string, weight = 1) {
+  return { key, name: key, weight, description: `How good the ${key} is` };
+}
+
+describe('rubric', () => {
+  it('accepts any number of criteria up to the limit', () => {
+    assert.ok(RubricSchema.safeParse(PHOTO_RUBRIC).success);
+    assert.ok(RubricSchema.safeParse({ criteria: [criterion('mood')] }).success);
+    const most = Array.from({ length: MAX_CRITERIA }, (_, i) => criterion(`c${i}`));
+    assert.ok(RubricSchema.safeParse({ criteria: most }).success);
+  });
+
+  it('rejects missing, duplicate, reserved or malformed criteria and bad weights', () => {
+    const invalid = [
+      { criteria: [] },
+      { criteria: Array.from({ length: MAX_CRITERIA + 1 }, (_, i) => criterion(`c${i}`)) },
+      { criteria: [criterion('mood'), criterion('mood')] },
+      { criteria: [criterion('total')] },
+      { criteria: [criterion('feedback')] },
+      { criteria: [criterion('Mood')] },
+      { criteria: [criterion('2nd')] },
+      { criteria: [criterion('mood', 0)] },
+      { criteria: [criterion('mood', -1)] },
+      { criteria: [criterion('mood', 11)] }
+    ];
+    for (const rubric of invalid) {
+      assert.equal(RubricSchema.safeParse(rubric).success, false, JSON.stringify(rubric.criteria.map(c => [c.key, c.weight])));
+    }
+  });
+
+  it('scales weighted totals to the same range whatever the criteria', () => {
+    assert.equal(weightedTotal({ creativity: 8, technique: 7, theme: 9 }), 24);
+    assert.equal(weightedTotal({ composition: 10, lighting: 10 }, PHOTO_RUBRIC), MAX_TOTAL_SCORE);
+    assert.equal(weightedTotal({ composition: 10, lighting: 2 }, PHOTO_RUBRIC), 24);
+  });
+
+  it('has the judge score every criterion of the game', async () => {
+    const submissions: ArtSubmission[] = [1, 2, 3].map(i => ({
+      id: String(i),
+      imageUrl: `https://images.example/photo-${i}.png`,
+      title: `Photo ${i}`,
+      playerAddress: `0x${i.toString(16).padStart(40, '0')}`,
+      timestamp: 1_700_000_000_000 + i
+    }));
+
+    const judge = new AIJudgeService(new MockJudgeProvider(), images);
+    const result = await judge.judgeSubmissions(submissions, { rubric: PHOTO_RUBRIC });
+    assert.ok(result.success, 'mock judging failed');
+
+    for (const score of Object.values(result.scores)) {
+      assert.deepEqual(Object.keys(score.criteria), ['composition', 'lighting']);
+      assert.equal(score.total, weightedTotal(score.criteria, PHOTO_RUBRIC));
+    }
+  });
+
+  it('re-requests scores that miss one of the criteria', () => {
+    const reply = JSON.stringify({
+      scores: [
+        { submissionId: '1', composition: 7, lighting: 5, feedback: 'ok' },
+        { submissionId: '2', composition: 7, feedback: 'no lighting score' }
+      ]
+    });
+
+    const parsed = parseJudgeResponse(reply, ['1', '2'], PHOTO_RUBRIC);
+    assert.ok(parsed.success);
+    assert.deepEqual(parsed.scores.map(s => s.submissionId), ['1']);
+    assert.deepEqual(parsed.scores[0].criteria, { composition: 7, lighting: 5 });
+    assert.match(parsed.problems.join('; '), /lighting/);
+  });
+});
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import type { JudgeScore } from '../src/services/ai-judge';
+import { finalizeLatestGameWith, joinJudgeScores, setGameRepository } from '../src/services/game-automation';
+import type { EntryRecord } from '../src/services/game-repository';
+import type { EnsembleResult } from '../src/services/judge-ensemble';
+import { InMemoryGameRepository } from '../src/services/memory-repository';
+
+const PLAYERS = [
+  '0x1111111111111111111111111111111111111111',
+  '0x2222222222222222222222222222222222222222',
+  '0x3333333333333333333333333333333333333333'
+];
+
+function score(submissionId: string, creativity: number, technique: number, theme: number): JudgeScore {
+  return {
+    submissionId,
+    criteria: { creativity, technique, theme },
+    total: creativity + technique + theme,
+    feedback: `feedback for ${submissionId}`
+  };
+}
+
+// A panel of one judge that scored the given entries, best first
+function judged(scores: JudgeScore[]): EnsembleResult {
+  const byId = Object.fromEntries(scores.map(s => [s.submissionId, s]));
+  const ranking = [...scores].sort((a, b) => b.total - a.total).map(s => s.submissionId);
+  const standing = Object.fromEntries(scores.map(s => [s.submissionId, [s.total]]));
+  return {
+    success: true,
+    scores: byId,
+    ranking,
+    standing,
+    winnerId: ranking[0],
+    winnerScore: byId[ranking[0]].total,
+    flags: {},
+    invocations: [],
+    judgedAt: Date.now(),
+    strategy: 'mean',
+    panel: [{ judge: 'test', scores: byId, ranking, standing }],
+    failedJudges: [],
+    spread: Object.fromEntries(scores.map(s => [s.submissionId, 0])),
+    reviewReason: null
+  };
+}
+
+describe('judge scores', () => {
+  let repo: InMemoryGameRepository;
+  let entries: EntryRecord[];
+
+  beforeEach(async () => {
+    repo = new InMemoryGameRepository();
+    await repo.init();
+    setGameRepository(repo);
+
+    const gameId = await repo.getLatestGameId();
+    await repo.getOrCreateGame(gameId);
+    // The first two entries share a title and an image URL
+    const submitted = [
+      { title: 'Sunset', imageUrl: 'https://images.example/sunset.png' },
+      { title: 'Sunset', imageUrl: 'https://images.example/sunset.png' },
+      { title: 'Harbour', imageUrl: 'https://images.example/harbour.png' }
+    ];
+    for (const [i, { title, imageUrl }] of submitted.entries()) {
+      await repo.addEntry(gameId, imageUrl, title, PLAYERS[i], {
+        txHash: `0x${(i + 1).toString(16).padStart(64, '0')}`,
+        logIndex: 0,
+        amount: '0.05'
+      });
+    }
+    entries = await repo.getAllEntriesForGame(gameId);
+  });
+
+  it('are joined on entry IDs, not on ranking order', async () => {
+    const [first, second, third] = [...entries].sort((a, b) => a.id - b.id);
+    const game = (await repo.findGame(first.gameId))!;
+
+    const outcome = await joinJudgeScores(entries, judged([
+      score(String(first.id), 2, 3, 4),
+      score(String(second.id), 9, 8, 7),
+      score(String(third.id), 5, 5, 5)
+    ]), game);
+
+    assert.equal(outcome.winnerEntryId, second.id);
+    assert.deepEqual(
+      Object.fromEntries(outcome.scores.map(s => [s.entryId, s.total])),
+      { [first.id]: 9, [second.id]: 24, [third.id]: 15 }
+    );
+  });
+
+  it('land on the right entries when titles and image URLs collide', async () => {
+    const [first, second, third] = [...entries].sort((a, b) => a.id - b.id);
+    const scores = [score(String(first.id), 2, 3, 4), score(String(second.id), 9, 8, 7), score(String(third.id), 5, 5, 5)];
+
+    const result = await finalizeLatestGameWith((toJudge, game) => joinJudgeScores(toJudge, judged(scores), game));
+    assert.ok(result.success, result.error);
+    assert.equal(result.winner?.entryId, second.id);
+    assert.equal(result.winner?.address, PLAYERS[1]);
+
+    const stored = await repo.getAllEntriesForGame(first.gameId);
+    for (const expected of scores) {
+      const entry = stored.find(e => String(e.id) === expected.submissionId)!;
+      assert.deepEqual(
+        [entry.criterionScores, entry.scoreTotal, entry.reasoning],
+        [expected.criteria, expected.total, expected.feedback]
+      );
+    }
+
+    assert.deepEqual(stored.filter(e => e.isWinner).map(e => e.id), [second.id]);
+    const game = (await repo.findGame(first.gameId))!;
+    assert.equal(game.winnerAddress, PLAYERS[1]);
+    assert.equal(game.winnerScore, 24);
+  });
+
+  it('are rejected for unknown or missing entries', async () => {
+    const [first, second, third] = [...entries].sort((a, b) => a.id - b.id);
+    const game = (await repo.findGame(first.gameId))!;
+
+    await assert.rejects(
+      joinJudgeScores(entries, judged([
+        score(String(first.id), 2, 3, 4),
+        score(String(second.id), 9, 8, 7),
+        score(String(third.id), 5, 5, 5),
+        score('999', 10, 10, 10)
+      ]), game),
+      /unknown entries: 999/
+    );
+    await assert.rejects(
+      joinJudgeScores(entries, judged([score(String(first.id), 2, 3, 4), score(String(second.id), 9, 8, 7)]), game),
+      new RegExp(`no score for entry ${third.id}`)
+    );
+  });
+});
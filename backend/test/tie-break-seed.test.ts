@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Chain, PublicClient, Transport } from 'viem';
+import { InMemoryGameRepository } from '../src/services/memory-repository';
+import { firstBlockAtOrAfter } from '../src/services/tie-break';
+
+// Chain stand-in with irregular block times, counting block reads
+function chain(timestamps: number[]) {
+  let reads = 0;
+  const block = (n: number) => ({ number: BigInt(n), hash: `0x${n.toString(16).padStart(64, '0')}`, timestamp: BigInt(timestamps[n]) });
+  const client = {
+    async getBlock(args: { blockTag?: 'latest'; blockNumber?: bigint }) {
+      reads++;
+      return block(args.blockTag === 'latest' ? timestamps.length - 1 : Number(args.blockNumber));
+    }
+  };
+  return { client: client as unknown as PublicClient<Transport, Chain>, reads: () => reads };
+}
+
+describe('tie-break seed', () => {
+  const timestamps = Array.from({ length: 5000 }, (_, n) => 1_000_000 + n * 2 + (n % 7 === 0 ? 1 : 0));
+
+  it('is the first block at or after the end of the game', async () => {
+    for (const target of [1_000_000, 1_000_001, 1_003_333, 1_009_996, timestamps[4999]]) {
+      const { client, reads } = chain(timestamps);
+      const block = await firstBlockAtOrAfter(client, target * 1000);
+      const expected = timestamps.findIndex(t => t >= target);
+      assert.equal(block.number, BigInt(expected), `target ${target}`);
+      assert.ok(reads() < 40, `${reads()} block reads`);
+    }
+  });
+
+  it('rounds a game end within a second up', async () => {
+    const { client } = chain(timestamps);
+    const block = await firstBlockAtOrAfter(client, 1_000_002_500);
+    assert.equal(block.number, BigInt(2));
+  });
+
+  it('is not available before the chain reaches the end of the game', async () => {
+    const { client } = chain(timestamps);
+    await assert.rejects(firstBlockAtOrAfter(client, (timestamps[4999] + 1) * 1000), /has not reached/);
+  });
+
+  it('is stored once per game', async () => {
+    const repo = new InMemoryGameRepository();
+    await repo.getOrCreateGame(1);
+
+    const first = await repo.saveTieBreakSeed(1, { source: 'block', value: '0xaa', blockNumber: '10' });
+    const second = await repo.saveTieBreakSeed(1, { source: 'block', value: '0xbb', blockNumber: '11' });
+    assert.deepEqual(second, first);
+    assert.deepEqual((await repo.findGame(1))?.tieBreakSeed, first);
+  });
+});
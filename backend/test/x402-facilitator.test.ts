@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { AdminClients } from '../src/services/game-automation';
+import {
+  decodePaymentHeader,
+  RelayFacilitator,
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  type PaymentPayload,
+  type PaymentRequirements
+} from '../src/services/x402-facilitator';
+
+const payer = privateKeyToAccount(`0x${'11'.repeat(32)}`);
+
+const requirements: PaymentRequirements = {
+  scheme: 'exact',
+  network: 'base-sepolia',
+  maxAmountRequired: '50000',
+  resource: 'http://localhost/api/submit',
+  description: 'Entry',
+  mimeType: 'application/json',
+  payTo: '0x2222222222222222222222222222222222222222',
+  maxTimeoutSeconds: 60,
+  asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  extra: { name: 'USDC', version: '2' }
+};
+
+async function signedPayload(): Promise<PaymentPayload> {
+  const now = Math.floor(Date.now() / 1000);
+  const authorization = {
+    from: payer.address,
+    to: requirements.payTo,
+    value: requirements.maxAmountRequired,
+    validAfter: String(now - 60),
+    validBefore: String(now + 600),
+    nonce: `0x${'ab'.repeat(32)}` as const
+  };
+  const signature = await payer.signTypedData({
+    domain: { ...requirements.extra, chainId: 84532, verifyingContract: requirements.asset },
+    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+    primaryType: 'TransferWithAuthorization',
+    message: {
+      ...authorization,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore)
+    }
+  });
+  return { x402Version: 1, scheme: 'exact', network: 'base-sepolia', payload: { signature, authorization } };
+}
+
+function header(payload: unknown): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64');
+}
+
+describe('X-PAYMENT header', () => {
+  it('decodes a well-formed payload', async () => {
+    const payload = await signedPayload();
+    assert.deepEqual(decodePaymentHeader(header(payload)), payload);
+  });
+
+  it('rejects addresses and amounts that are not what they claim to be', async () => {
+    const payload = await signedPayload();
+    const malformed = [
+      'not base64 json',
+      { ...payload, scheme: 'upto' },
+      { ...payload, payload: { ...payload.payload, signature: 'abc' } },
+      ...[
+        { from: 'alice' },
+        { to: '0x1234' },
+        { value: '1e6' },
+        { value: '-1' },
+        { validBefore: 'tomorrow' },
+        { nonce: '0x01' }
+      ].map(change => ({
+        ...payload,
+        payload: { ...payload.payload, authorization: { ...payload.payload.authorization, ...change } }
+      }))
+    ];
+
+    for (const value of malformed) {
+      const encoded = typeof value === 'string' ? value : header(value);
+      assert.throws(() => decodePaymentHeader(encoded), /Malformed X-PAYMENT header/, JSON.stringify(value));
+    }
+  });
+});
+
+describe('relay settlement', () => {
+  const hash = `0x${'cd'.repeat(32)}` as const;
+
+  function relay(receipt: () => Promise<{ status: 'success' | 'reverted' }>) {
+    const clients = {
+      account: privateKeyToAccount(`0x${'22'.repeat(32)}`),
+      publicClient: {
+        async readContract() { return false; },
+        async simulateContract() { return { request: {} }; },
+        waitForTransactionReceipt: receipt
+      },
+      walletClient: {
+        async writeContract() { return hash; }
+      }
+    } as unknown as AdminClients;
+    return new RelayFacilitator(clients, async () => ({ valid: true }));
+  }
+
+  it('reports a submitted transfer it could not confirm as pending', async () => {
+    const facilitator = relay(async () => { throw new Error('RPC timeout'); });
+    const settlement = await facilitator.settle(await signedPayload(), requirements);
+
+    assert.equal(settlement.success, false);
+    assert.equal(settlement.pending, true);
+    assert.equal(settlement.transaction, hash);
+  });
+
+  it('fails a transfer only once it reverted', async () => {
+    const reverted = await relay(async () => ({ status: 'reverted' })).settle(await signedPayload(), requirements);
+    assert.equal(reverted.success, false);
+    assert.equal(reverted.pending, undefined);
+
+    const settled = await relay(async () => ({ status: 'success' })).settle(await signedPayload(), requirements);
+    assert.equal(settled.success, true);
+  });
+});
@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+/**
+ * Generate the TypeScript PrizePool client from the compiled Foundry artifact.
+ *
+ *   forge build && node script/generate-client.mjs     # regenerate and copy
+ *   node script/generate-client.mjs --check            # exit 1 if anything is stale
+ *
+ * Writes client/prize-pool-abi.ts from out/PrizePool.sol/PrizePool.json, then
+ * copies client/*.ts into every package that talks to the contract, so the
+ * backend, the frontend and the agent SDK share one ABI and one set of typed
+ * wrappers.
+ */
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { basename, dirname, join, relative, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const CONTRACTS_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const REPO_DIR = resolve(CONTRACTS_DIR, '..');
+const ARTIFACT = join(CONTRACTS_DIR, 'out', 'PrizePool.sol', 'PrizePool.json');
+const CLIENT_DIR = join(CONTRACTS_DIR, 'client');
+const ABI_FILE = join(CLIENT_DIR, 'prize-pool-abi.ts');
+
+// Packages that receive a copy of the client
+const TARGETS = [
+  join(REPO_DIR, 'backend', 'src', 'contracts'),
+  join(REPO_DIR, 'agent-sdk', 'contracts'),
+  join(REPO_DIR, 'frontend', 'lib', 'contracts')
+];
+
+const COPY_HEADER = '// Copied from contracts/client by contracts/script/generate-client.mjs. Do not edit.\n';
+
+// Same order solc uses (by type, then name), so regenerating only shows real changes
+const TYPE_ORDER = ['constructor', 'error', 'event', 'fallback', 'function', 'receive'];
+
+function abiModule(abi) {
+  const sorted = [...abi].sort((a, b) =>
+    TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) || (a.name ?? '').localeCompare(b.name ?? '')
+  );
+  return [
+    `// Generated from ${relative(REPO_DIR, ARTIFACT)} by contracts/script/generate-client.mjs. Do not edit.`,
+    '// Rebuild with `forge build` and rerun the script after changing PrizePool.sol.',
+    '',
+    `export const prizePoolAbi = ${JSON.stringify(sorted, null, 2)} as const;`,
+    ''
+  ].join('\n');
+}
+
+function readIfExists(path) {
+  return existsSync(path) ? readFileSync(path, 'utf8') : null;
+}
+
+function main() {
+  const check = process.argv.includes('--check');
+
+  if (!existsSync(ARTIFACT)) {
+    console.error(`❌ ${relative(REPO_DIR, ARTIFACT)} not found; run \`forge build\` in contracts/ first`);
+    process.exit(1);
+  }
+
+  const { abi } = JSON.parse(readFileSync(ARTIFACT, 'utf8'));
+  const outputs = new Map([[ABI_FILE, abiModule(abi)]]);
+
+  const clientFiles = new Set([basename(ABI_FILE), ...readdirSync(CLIENT_DIR).filter(f => f.endsWith('.ts'))]);
+  for (const file of clientFiles) {
+    const source = outputs.get(join(CLIENT_DIR, file)) ?? readFileSync(join(CLIENT_DIR, file), 'utf8');
+    for (const target of TARGETS) {
+      outputs.set(join(target, file), COPY_HEADER + source);
+    }
+  }
+
+  const stale = [...outputs].filter(([path, content]) => readIfExists(path) !== content).map(([path]) => path);
+
+  if (check) {
+    if (stale.length > 0) {
+      console.error('❌ PrizePool client is out of date; run `node script/generate-client.mjs`:');
+      stale.forEach(path => console.error(`   ${relative(REPO_DIR, path)}`));
+      process.exit(1);
+    }
+    console.log('✅ PrizePool client is up to date');
+    return;
+  }
+
+  for (const path of stale) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, outputs.get(path));
+    console.log(`📝 Wrote ${relative(REPO_DIR, path)}`);
+  }
+  console.log(`✅ PrizePool client generated (${abi.length} ABI items, ${stale.length} files changed)`);
+}
+
+main();
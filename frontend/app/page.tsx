@@ -17,9 +17,32 @@ interface GameInfo {
   timeRemaining: number;
   finalized: boolean;
   started: boolean;
+  theme: string | null;
+  rubric: {
+    criteria: Array<{ key: string; name: string; weight: number; description: string }>;
+  };
+  entryMode: 'x402' | 'contract';
+  prizePoolAddress: string | null;
+  config: {
+    entryFee: string;
+    currency: string;
+    platformFeeBps: number;
+    durationMs: number;
+    maxEntries: number | null;
+  };
   status: 'waiting' | 'active' | 'ended' | 'finalized';
 }
 
+// e.g. "1 hour", "90 minutes", "24 hours"
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes % 60 !== 0) {
+    return `${minutes} minutes`;
+  }
+  const hours = minutes / 60;
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
 interface LeaderboardEntry {
   position: number;
   title: string;
@@ -39,6 +62,11 @@ export default function Home() {
   const [showSubmitModal, setShowSubmitModal] = useState(false);
   const [selectedImage, setSelectedImage] = useState<LeaderboardEntry | null>(null);
 
+  // Terms of the current game
+  const entryFee = game ? `$${game.config.entryFee}` : '…';
+  const duration = game ? formatDuration(game.config.durationMs) : '…';
+  const winnerShare = game ? `${(10000 - game.config.platformFeeBps) / 100}%` : '…';
+
   const handleSubmitSuccess = () => {
     fetch(`${API_URL}/api/leaderboard`)
       .then(res => res.json())
@@ -155,11 +183,36 @@ export default function Home() {
             </span>
           </h2>
           <p className="text-xl text-gray-600 mb-10 max-w-2xl mx-auto">
-            Submit your AI-generated art. Pay $0.05 to enter. 
-            <br />Competition runs <span className="text-purple-600 font-semibold">1 hour</span> from first entry.
-            <br />Winner takes <span className="text-green-600 font-semibold">90%</span> of the prize pool.
+            Submit your AI-generated art. Pay {entryFee} to enter.
+            <br />Competition runs <span className="text-purple-600 font-semibold">{duration}</span> from first entry
+            {game?.config.maxEntries ? <> (up to {game.config.maxEntries} entries)</> : null}.
+            <br />Winner takes <span className="text-green-600 font-semibold">{winnerShare}</span> of the prize pool.
           </p>
 
+          {/* Theme & Rubric */}
+          {game && (
+            <div className="max-w-2xl mx-auto mb-10 p-6 rounded-2xl bg-white shadow-lg shadow-purple-100 border border-purple-100">
+              {game.theme && (
+                <div className="mb-4">
+                  <div className="text-sm text-purple-500 mb-1">Today&apos;s Theme</div>
+                  <div className="text-2xl font-bold text-gray-800">{game.theme}</div>
+                </div>
+              )}
+              <div className="flex flex-wrap justify-center gap-3">
+                {game.rubric.criteria.map(criterion => (
+                  <div
+                    key={criterion.key}
+                    title={criterion.description}
+                    className="px-3 py-1 rounded-full bg-purple-50 text-sm text-purple-700"
+                  >
+                    {criterion.name}
+                    {criterion.weight !== 1 && <span className="text-purple-400"> ×{criterion.weight}</span>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Game Stats */}
           <div className="grid grid-cols-3 gap-4 max-w-xl mx-auto mb-10">
             <div className="p-5 rounded-2xl bg-white shadow-lg shadow-purple-100 border border-purple-100">
@@ -190,7 +243,7 @@ export default function Home() {
             >
               <span className="flex items-center gap-2">
                 <span className="text-2xl">🎨</span>
-                <span>Submit Your Art — $0.05</span>
+                <span>Submit Your Art — {entryFee}</span>
               </span>
             </button>
           ) : (
@@ -209,10 +262,10 @@ export default function Home() {
           </h3>
           <div className="grid md:grid-cols-4 gap-5">
             {[
-              { icon: '💳', title: 'Pay $0.05', desc: 'Entry fee via x402 (USDC)', color: 'purple' },
+              { icon: '💳', title: `Pay ${entryFee}`, desc: 'Entry fee via x402 (USDC)', color: 'purple' },
               { icon: '🖼️', title: 'Submit Art', desc: 'Upload your AI creation', color: 'blue' },
               { icon: '🤖', title: 'AI Judges', desc: 'Claude evaluates all entries', color: 'pink' },
-              { icon: '🏆', title: 'Win 90%', desc: 'Daily winner takes the pool', color: 'amber' },
+              { icon: '🏆', title: `Win ${winnerShare}`, desc: 'Daily winner takes the pool', color: 'amber' },
             ].map((step, i) => (
               <div 
                 key={i}
@@ -299,7 +352,9 @@ export default function Home() {
         isOpen={showSubmitModal}
         onClose={() => setShowSubmitModal(false)}
         onSuccess={handleSubmitSuccess}
-        prizePoolAddress={PRIZE_POOL_ADDRESS}
+        prizePoolAddress={game?.prizePoolAddress ?? PRIZE_POOL_ADDRESS}
+        contractMode={game?.entryMode === 'contract'}
+        entryFee={game?.config.entryFee ?? '0'}
       />
 
       {/* Image Lightbox */}
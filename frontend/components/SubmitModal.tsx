@@ -1,16 +1,16 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseUnits, getAddress } from 'viem';
+import { useAccount, useWriteContract, useWaitForTransactionReceipt, useSignTypedData, usePublicClient, useReadContract } from 'wagmi';
+import { parseUnits, getAddress, toHex } from 'viem';
 import ImageUpload from './ImageUpload';
+import { prizePoolAbi } from '../lib/contracts/prize-pool-abi';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
 // USDC on Base mainnet
 const USDC_MAINNET = getAddress('0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913');
 const USDC_TESTNET = getAddress('0x036CbD53842c5426634e7929541eC2318f3dCF7e');
-const ENTRY_FEE = parseUnits('0.05', 6); // $0.05 USDC entry fee
 
 // AsterPay wallet for receiving entry fees (direct transfer, no smart contract needed)
 const ASTERPAY_WALLET = getAddress('0x3a649f923c7e74E5c22e766F8E0fA2CF7e627e71');
@@ -19,11 +19,62 @@ const ASTERPAY_WALLET = getAddress('0x3a649f923c7e74E5c22e766F8E0fA2CF7e627e71')
 const IS_MAINNET = process.env.NEXT_PUBLIC_CHAIN_ID === '8453';
 const USDC_ADDRESS = IS_MAINNET ? USDC_MAINNET : USDC_TESTNET;
 
+// USDC allowance for the PrizePool contract (contract mode)
+const ERC20_ALLOWANCE_ABI = [
+  {
+    name: 'allowance',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' }
+    ],
+    outputs: [{ name: '', type: 'uint256' }]
+  },
+  {
+    name: 'approve',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ],
+    outputs: [{ name: '', type: 'bool' }]
+  }
+] as const;
+
+// EIP-3009 typed data for gasless payments (backend relays the signed authorization)
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' }
+  ]
+} as const;
+
+// x402 payment requirements returned by /api/pay
+interface PaymentRequirements {
+  scheme: 'exact';
+  network: 'base' | 'base-sepolia';
+  maxAmountRequired: string;
+  payTo: `0x${string}`;
+  maxTimeoutSeconds: number;
+  asset: `0x${string}`;
+  extra: { name: string; version: string };
+}
+
 interface SubmitModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
   prizePoolAddress: string;
+  /** Enter through PrizePool.submitEntry instead of paying the API */
+  contractMode: boolean;
+  /** The game's entry fee in USDC, e.g. "0.05" (from /api/game) */
+  entryFee: string;
 }
 
 type Step = 'upload' | 'pay' | 'submit' | 'success';
@@ -34,12 +85,18 @@ const STEPS = [
   { id: 'submit', label: 'Submit', icon: '🚀' },
 ];
 
-export function SubmitModal({ isOpen, onClose, onSuccess, prizePoolAddress }: SubmitModalProps) {
+export function SubmitModal({ isOpen, onClose, onSuccess, prizePoolAddress, contractMode, entryFee }: SubmitModalProps) {
   const { address } = useAccount();
+  const publicClient = usePublicClient();
   const [step, setStep] = useState<Step>('upload');
   const [title, setTitle] = useState('');
   const [imageUrl, setImageUrl] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [intentId, setIntentId] = useState<string | null>(null);
+  const [gasless, setGasless] = useState(true);
+
+  // Gasless: sign a USDC transferWithAuthorization instead of sending a transaction
+  const { signTypedDataAsync } = useSignTypedData();
 
   // USDC Transfer (direct to AsterPay wallet - no approve needed!)
   const { writeContract: transfer, data: transferHash, error: transferError } = useWriteContract();
@@ -47,6 +104,15 @@ export function SubmitModal({ isOpen, onClose, onSuccess, prizePoolAddress }: Su
     hash: transferHash,
   });
 
+  // Contract mode: approve + PrizePool.submitEntry, paying the fee the contract charges
+  const { writeContractAsync } = useWriteContract();
+  const { data: contractEntryFee } = useReadContract({
+    address: getAddress(prizePoolAddress),
+    abi: prizePoolAbi,
+    functionName: 'ENTRY_FEE',
+    query: { enabled: contractMode },
+  });
+
   // Log transfer errors
   useEffect(() => {
     if (transferError) {
@@ -63,6 +129,7 @@ export function SubmitModal({ isOpen, onClose, onSuccess, prizePoolAddress }: Su
       setTitle('');
       setImageUrl('');
       setError(null);
+      setIntentId(null);
     }
   }, [isOpen]);
 
@@ -71,11 +138,38 @@ export function SubmitModal({ isOpen, onClose, onSuccess, prizePoolAddress }: Su
     setError(null);
   };
 
-  // Direct USDC transfer to AsterPay wallet (no approve needed!)
+  // Gasless signature (relayed by the backend) or direct USDC transfer to AsterPay wallet
   const handlePay = async () => {
     setError(null);
     setStep('pay');
     try {
+      if (!address) {
+        throw new Error('Connect your wallet first');
+      }
+
+      if (contractMode) {
+        await enterThroughContract();
+        return;
+      }
+
+      // Payment intent binds this payment to the current game and wallet
+      const intentResponse = await fetch(`${API_URL}/api/pay`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ walletAddress: address }),
+      });
+      const intentData = await intentResponse.json().catch(() => ({}));
+      if (!intentResponse.ok) {
+        throw new Error(intentData.error || 'Could not start payment');
+      }
+      setIntentId(intentData.paymentIntent.id);
+
+      if (gasless) {
+        const paymentHeader = await signPayment(intentData.accepts[0]);
+        await handleSubmit({ paymentHeader, intentId: intentData.paymentIntent.id });
+        return;
+      }
+
       console.log('Initiating USDC transfer to:', ASTERPAY_WALLET);
       transfer({
         address: USDC_ADDRESS,
@@ -90,7 +184,7 @@ export function SubmitModal({ isOpen, onClose, onSuccess, prizePoolAddress }: Su
           outputs: [{ name: '', type: 'bool' }]
         }],
         functionName: 'transfer',
-        args: [ASTERPAY_WALLET as `0x${string}`, ENTRY_FEE],
+        args: [ASTERPAY_WALLET as `0x${string}`, parseUnits(entryFee, 6)],
       });
     } catch (err) {
       console.error('Payment error:', err);
@@ -99,25 +193,107 @@ export function SubmitModal({ isOpen, onClose, onSuccess, prizePoolAddress }: Su
     }
   };
 
-  const handleSubmit = async () => {
-    if (!transferHash || !address) return;
-    
+  // Approve the entry fee for the PrizePool (if not already allowed), then submit the entry on-chain
+  const enterThroughContract = async () => {
+    if (!publicClient) {
+      throw new Error('Wallet is not connected to a supported network');
+    }
+
+    const prizePool = getAddress(prizePoolAddress);
+    const fee = contractEntryFee ?? parseUnits(entryFee, 6);
+
+    const allowance = await publicClient.readContract({
+      address: USDC_ADDRESS,
+      abi: ERC20_ALLOWANCE_ABI,
+      functionName: 'allowance',
+      args: [address!, prizePool],
+    });
+    if (allowance < fee) {
+      const approveHash = await writeContractAsync({
+        address: USDC_ADDRESS,
+        abi: ERC20_ALLOWANCE_ABI,
+        functionName: 'approve',
+        args: [prizePool, fee],
+      });
+      await publicClient.waitForTransactionReceipt({ hash: approveHash });
+    }
+
+    const entryTxHash = await writeContractAsync({
+      address: prizePool,
+      abi: prizePoolAbi,
+      functionName: 'submitEntry',
+      args: [imageUrl],
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: entryTxHash });
+    if (receipt.status !== 'success') {
+      throw new Error('Entry transaction reverted');
+    }
+
+    await handleSubmit(undefined, entryTxHash);
+  };
+
+  // Sign the entry fee authorization and encode it as an x402 X-PAYMENT header
+  const signPayment = async (requirements: PaymentRequirements): Promise<string> => {
+    const now = Math.floor(Date.now() / 1000);
+    const authorization = {
+      from: address!,
+      to: requirements.payTo,
+      value: requirements.maxAmountRequired,
+      validAfter: (now - 60).toString(),
+      validBefore: (now + requirements.maxTimeoutSeconds).toString(),
+      nonce: toHex(crypto.getRandomValues(new Uint8Array(32))),
+    };
+
+    const signature = await signTypedDataAsync({
+      domain: {
+        name: requirements.extra.name,
+        version: requirements.extra.version,
+        chainId: requirements.network === 'base' ? 8453 : 84532,
+        verifyingContract: requirements.asset,
+      },
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message: {
+        ...authorization,
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+      },
+    });
+
+    return btoa(JSON.stringify({
+      x402Version: 1,
+      scheme: requirements.scheme,
+      network: requirements.network,
+      payload: { signature, authorization },
+    }));
+  };
+
+  const handleSubmit = async (gaslessPayment?: { paymentHeader: string; intentId: string }, entryTxHash?: `0x${string}`) => {
+    if ((!transferHash && !gaslessPayment && !entryTxHash) || !address) return;
+
     setError(null);
     setStep('submit');
 
     try {
       // Add timeout to prevent hanging
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
+      // Relayed payments wait for the settlement transaction
+      const timeoutId = setTimeout(() => controller.abort(), gaslessPayment ? 45000 : 15000);
 
       const response = await fetch(`${API_URL}/api/submit`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          ...(gaslessPayment && { 'X-PAYMENT': gaslessPayment.paymentHeader }),
+        },
         body: JSON.stringify({
           imageUrl,
           title,
           walletAddress: address,
-          paymentTxHash: transferHash,
+          paymentTxHash: gaslessPayment || entryTxHash ? undefined : transferHash,
+          entryTxHash,
+          intentId: gaslessPayment?.intentId ?? intentId ?? undefined,
         }),
         signal: controller.signal,
       });
@@ -170,7 +346,7 @@ export function SubmitModal({ isOpen, onClose, onSuccess, prizePoolAddress }: Su
           <div className="flex justify-between items-center">
             <div>
               <h2 className="text-2xl font-bold text-gray-800">Submit Your Art</h2>
-              <p className="text-purple-600 text-sm mt-1">Entry fee: $0.05 USDC</p>
+              <p className="text-purple-600 text-sm mt-1">Entry fee: ${entryFee} USDC</p>
             </div>
             <button 
               onClick={onClose}
@@ -245,6 +421,20 @@ export function SubmitModal({ isOpen, onClose, onSuccess, prizePoolAddress }: Su
                 />
               </div>
 
+              {/* Payment Method (contract mode always enters on-chain) */}
+              {!contractMode && (
+                <label className="mb-5 flex items-center gap-3 text-sm text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={gasless}
+                    onChange={(e) => setGasless(e.target.checked)}
+                    disabled={step !== 'upload'}
+                    className="w-4 h-4 accent-purple-600"
+                  />
+                  <span>Gasless payment (sign only, no ETH needed)</span>
+                </label>
+              )}
+
               {/* Error Message */}
               {error && (
                 <div className="mb-5 p-4 rounded-xl text-red-600 text-sm bg-red-50 border border-red-200">
@@ -267,7 +457,7 @@ export function SubmitModal({ isOpen, onClose, onSuccess, prizePoolAddress }: Su
                 {step === 'upload' && (
                   <span className="flex items-center justify-center gap-2">
                     <span>💳</span>
-                    <span>Pay $0.05 & Submit</span>
+                    <span>Pay ${entryFee} & Submit</span>
                   </span>
                 )}
                 {step === 'pay' && (
@@ -292,7 +482,9 @@ export function SubmitModal({ isOpen, onClose, onSuccess, prizePoolAddress }: Su
 
               {/* Help Text */}
               <p className="text-center text-xs text-gray-400 mt-4">
-                Powered by AsterPay x402 on Base
+                {contractMode
+                  ? 'Entry fee held by the PrizePool contract on Base'
+                  : 'Powered by AsterPay x402 on Base'}
               </p>
             </>
           )}
@@ -0,0 +1,252 @@
+// Copied from contracts/client by contracts/script/generate-client.mjs. Do not edit.
+import {
+  isAddressEqual,
+  parseEventLogs,
+  toFunctionSelector,
+  type Account,
+  type Address,
+  type Chain,
+  type Hash,
+  type PublicClient,
+  type Transport,
+  type WalletClient
+} from 'viem';
+import { prizePoolAbi } from './prize-pool-abi';
+
+export { prizePoolAbi };
+
+/** PrizePool.Game */
+export interface PrizePoolGame {
+  prizePool: bigint;
+  entryCount: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  winner: Address;
+  finalized: boolean;
+}
+
+/** PrizePool.Entry */
+export interface PrizePoolEntry {
+  player: Address;
+  imageUri: string;
+  timestamp: bigint;
+  score: bigint;
+}
+
+/** An EntrySubmitted event */
+export interface PrizePoolEntrySubmission {
+  gameId: bigint;
+  player: Address;
+  imageUri: string;
+  transactionHash: Hash;
+  logIndex: number;
+  blockNumber: bigint;
+}
+
+/**
+ * The deployed contract does not implement the ABI this client was generated from
+ */
+export class PrizePoolAbiMismatchError extends Error {
+  constructor(readonly address: Address, readonly missingFunctions: string[]) {
+    super(
+      missingFunctions.length === 0
+        ? `No contract deployed at ${address}`
+        : `PrizePool at ${address} does not match the generated ABI; missing: ${missingFunctions.join(', ')}`
+    );
+    this.name = 'PrizePoolAbiMismatchError';
+  }
+}
+
+// Function signatures of the ABI, e.g. "finalizeGame(uint256,uint256)"
+function functionSignatures(): string[] {
+  return prizePoolAbi
+    .filter(item => item.type === 'function')
+    .map(item => `${item.name}(${item.inputs.map(input => input.type).join(',')})`);
+}
+
+/**
+ * Whether runtime bytecode dispatches on a selector. Solidity compares the
+ * calldata selector against a PUSH of each public function's selector, using
+ * the shortest PUSH that fits (selectors with leading zero bytes are shorter).
+ */
+function dispatchesSelector(bytecode: string, selector: string): boolean {
+  const significant = selector.slice(2).replace(/^(00)+/, '') || '00';
+  const push = (0x5f + significant.length / 2).toString(16);
+  return bytecode.toLowerCase().includes(`${push}${significant}`);
+}
+
+/**
+ * Typed access to a deployed PrizePool. Reads go through the public client;
+ * transactions need a wallet client with an account and return the hash
+ * without waiting for the receipt.
+ */
+export class PrizePoolContract<TChain extends Chain = Chain> {
+  constructor(
+    readonly address: Address,
+    private publicClient: PublicClient<Transport, TChain>,
+    private walletClient?: WalletClient<Transport, Chain, Account>
+  ) {}
+
+  private get wallet(): WalletClient<Transport, Chain, Account> {
+    if (!this.walletClient) {
+      throw new Error('PrizePool transactions need a wallet client');
+    }
+    return this.walletClient;
+  }
+
+  // ============ Transactions ============
+
+  /** Start the next game (owner only) */
+  startGame(durationSeconds: bigint): Promise<Hash> {
+    return this.wallet.writeContract({
+      address: this.address,
+      abi: prizePoolAbi,
+      functionName: 'startGame',
+      args: [durationSeconds],
+      account: this.wallet.account,
+      chain: this.wallet.chain
+    });
+  }
+
+  /** Enter the current game; the entry fee must be approved for the contract first */
+  submitEntry(imageUri: string): Promise<Hash> {
+    return this.wallet.writeContract({
+      address: this.address,
+      abi: prizePoolAbi,
+      functionName: 'submitEntry',
+      args: [imageUri],
+      account: this.wallet.account,
+      chain: this.wallet.chain
+    });
+  }
+
+  /** Pay out a game to the entry at winnerIndex in getGameEntries order (owner only) */
+  finalizeGame(gameId: bigint, winnerIndex: bigint): Promise<Hash> {
+    return this.wallet.writeContract({
+      address: this.address,
+      abi: prizePoolAbi,
+      functionName: 'finalizeGame',
+      args: [gameId, winnerIndex],
+      account: this.wallet.account,
+      chain: this.wallet.chain
+    });
+  }
+
+  // ============ Views ============
+
+  getCurrentGame(): Promise<PrizePoolGame> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: prizePoolAbi,
+      functionName: 'getCurrentGame'
+    });
+  }
+
+  /** Entries of a game in submission order */
+  async getGameEntries(gameId: bigint): Promise<PrizePoolEntry[]> {
+    return [...await this.publicClient.readContract({
+      address: this.address,
+      abi: prizePoolAbi,
+      functionName: 'getGameEntries',
+      args: [gameId]
+    })];
+  }
+
+  async getGame(gameId: bigint): Promise<PrizePoolGame> {
+    const [prizePool, entryCount, startTime, endTime, winner, finalized] = await this.publicClient.readContract({
+      address: this.address,
+      abi: prizePoolAbi,
+      functionName: 'games',
+      args: [gameId]
+    });
+    return { prizePool, entryCount, startTime, endTime, winner, finalized };
+  }
+
+  currentGameId(): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: prizePoolAbi,
+      functionName: 'currentGameId'
+    });
+  }
+
+  /** Entry fee in USDC base units */
+  entryFee(): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: prizePoolAbi,
+      functionName: 'ENTRY_FEE'
+    });
+  }
+
+  /** Platform share of each prize pool in basis points */
+  platformFeeBps(): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: prizePoolAbi,
+      functionName: 'PLATFORM_FEE_BPS'
+    });
+  }
+
+  // ============ Events ============
+
+  /**
+   * The EntrySubmitted event of a successful transaction sent to this contract
+   * (null when the transaction reverted or entered no game)
+   */
+  async getEntrySubmission(hash: Hash): Promise<PrizePoolEntrySubmission | null> {
+    const receipt = await this.publicClient.getTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      return null;
+    }
+
+    const [event] = parseEventLogs({
+      abi: prizePoolAbi,
+      eventName: 'EntrySubmitted',
+      logs: receipt.logs.filter(log => isAddressEqual(log.address, this.address))
+    });
+    return event ? {
+      ...event.args,
+      transactionHash: event.transactionHash,
+      logIndex: event.logIndex,
+      blockNumber: event.blockNumber
+    } : null;
+  }
+
+  /** EntrySubmitted events of a game since fromBlock, optionally of one player */
+  async getEntrySubmissions(gameId: bigint, fromBlock: bigint, player?: Address): Promise<PrizePoolEntrySubmission[]> {
+    const events = await this.publicClient.getContractEvents({
+      address: this.address,
+      abi: prizePoolAbi,
+      eventName: 'EntrySubmitted',
+      args: { gameId, player },
+      fromBlock,
+      strict: true
+    });
+    return events.map(event => ({
+      ...event.args,
+      transactionHash: event.transactionHash,
+      logIndex: event.logIndex,
+      blockNumber: event.blockNumber
+    }));
+  }
+
+  // ============ Deployment check ============
+
+  /**
+   * Check that the deployed bytecode dispatches every function of the ABI.
+   * Throws PrizePoolAbiMismatchError when the address has no code or the
+   * contract was built from a different PrizePool.sol.
+   */
+  async verifyDeployment(): Promise<void> {
+    const bytecode = await this.publicClient.getCode({ address: this.address });
+    if (!bytecode || bytecode === '0x') {
+      throw new PrizePoolAbiMismatchError(this.address, []);
+    }
+
+    const missing = functionSignatures().filter(signature => !dispatchesSelector(bytecode, toFunctionSelector(signature)));
+    if (missing.length > 0) {
+      throw new PrizePoolAbiMismatchError(this.address, missing);
+    }
+  }
+}